@@ -0,0 +1,98 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as React from "react";
+import { Alert, Text, TextInput } from "react-native";
+import renderer, { act, ReactTestInstance } from "react-test-renderer";
+
+import AddTransactionScreen from "@/app/add-transaction";
+import * as exchangeRateRepository from "@/lib/exchangeRateRepository";
+import {
+  listTransactions,
+  resetTransactionsForTesting,
+  TRANSACTIONS_KEY,
+} from "@/lib/transactionRepository";
+
+// Icon fonts and the native date picker cannot load under Jest
+jest.mock("@expo/vector-icons", () => ({ Ionicons: "Ionicons" }));
+jest.mock("@react-native-community/datetimepicker", () => "DateTimePicker");
+jest.mock("expo-router", () => {
+  const { useEffect } = require("react");
+  return {
+    Stack: { Screen: () => null },
+    useFocusEffect: (effect: () => void) => useEffect(effect, [effect]),
+    useLocalSearchParams: () => ({ accountId: "chequing" }),
+    useRouter: () => ({ back: jest.fn(), push: jest.fn() }),
+  };
+});
+
+// The nearest ancestor that handles presses, e.g. the button around a label
+const pressable = (node: ReactTestInstance): ReactTestInstance =>
+  node.props.onPress ? node : pressable(node.parent!);
+
+const byText = (root: ReactTestInstance, text: string) =>
+  pressable(
+    root.find((node) => node.type === Text && node.props.children === text)
+  );
+
+// Lets queued promise callbacks, including storage reads and writes, run
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+beforeEach(async () => {
+  // Storage settles through setImmediate, so only animations are faked
+  jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+  await AsyncStorage.clear();
+  resetTransactionsForTesting();
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  jest.spyOn(Alert, "alert").mockImplementation(() => {});
+});
+
+it("saves once when Add Transaction is tapped twice", async () => {
+  let screen!: renderer.ReactTestRenderer;
+  await act(async () => {
+    screen = renderer.create(<AddTransactionScreen />);
+  });
+  const root = screen.root;
+  const [merchantInput, amountInput] = root.findAllByType(TextInput);
+
+  await act(async () => {
+    merchantInput.props.onChangeText("Bakery");
+    amountInput.props.onChangeText("12.50");
+    byText(root, "Food").props.onPress();
+    // Let the buttons' opacity animations finish
+    jest.runAllTimers();
+  });
+  // The second tap's checks finish only after the first tap has saved, so
+  // they could not have seen its transaction
+  const { getExchangeRates } = exchangeRateRepository;
+  let releaseSecondTap!: () => void;
+  const secondTap = new Promise<void>((resolve) => {
+    releaseSecondTap = resolve;
+  });
+  jest
+    .spyOn(exchangeRateRepository, "getExchangeRates")
+    .mockImplementationOnce(getExchangeRates)
+    .mockImplementationOnce(async () => {
+      await secondTap;
+      return getExchangeRates();
+    });
+
+  await act(async () => {
+    const submit = byText(root, "Add Transaction").props.onPress;
+    const first = submit();
+    const second = submit();
+    await first;
+    while (jest.mocked(Alert.alert).mock.calls.length === 0) {
+      await settle();
+    }
+    releaseSecondTap();
+    await second;
+    await settle();
+  });
+
+  expect(await listTransactions()).toHaveLength(1);
+  expect(Alert.alert).toHaveBeenCalledTimes(1);
+  expect(Alert.alert).toHaveBeenCalledWith(
+    "Success",
+    expect.any(String),
+    expect.any(Array)
+  );
+});
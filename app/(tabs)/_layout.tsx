@@ -1,45 +1,51 @@
+import { Ionicons } from '@expo/vector-icons';
 import { Tabs } from 'expo-router';
 import React from 'react';
-import { Platform } from 'react-native';
 
 import { HapticTab } from '@/components/HapticTab';
-import { IconSymbol } from '@/components/ui/IconSymbol';
-import TabBarBackground from '@/components/ui/TabBarBackground';
-import { Colors } from '@/constants/Colors';
-import { useColorScheme } from '@/hooks/useColorScheme';
 
-export default function TabLayout() {
-  const colorScheme = useColorScheme();
+type IconName = React.ComponentProps<typeof Ionicons>['name'];
+
+// Outline icons for inactive tabs, filled ones for the active tab
+const tabIcons: Record<string, [IconName, IconName]> = {
+  index: ['home-outline', 'home'],
+  cards: ['card-outline', 'card'],
+  payments: ['cash-outline', 'cash'],
+  insights: ['bar-chart-outline', 'bar-chart'],
+  more: ['menu-outline', 'menu'],
+};
 
+export default function TabLayout() {
   return (
     <Tabs
-      screenOptions={{
-        tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
-        headerShown: false,
+      backBehavior="history"
+      screenOptions={({ route }) => ({
+        tabBarActiveTintColor: '#1E3A8A',
+        tabBarInactiveTintColor: '#9CA3AF',
+        headerShown: true,
+        headerStyle: { backgroundColor: '#F5F7FF' },
+        headerTitleStyle: { color: '#1F2937', fontWeight: 'bold' },
+        headerShadowVisible: false,
         tabBarButton: HapticTab,
-        tabBarBackground: TabBarBackground,
-        tabBarStyle: Platform.select({
-          ios: {
-            // Use a transparent background on iOS to show the blur effect
-            position: 'absolute',
-          },
-          default: {},
-        }),
-      }}>
-      <Tabs.Screen
-        name="index"
-        options={{
-          title: 'Home',
-          tabBarIcon: ({ color }) => <IconSymbol size={28} name="house.fill" color={color} />,
-        }}
-      />
-      <Tabs.Screen
-        name="explore"
-        options={{
-          title: 'Explore',
-          tabBarIcon: ({ color }) => <IconSymbol size={28} name="paperplane.fill" color={color} />,
-        }}
-      />
+        tabBarStyle: {
+          backgroundColor: '#FFFFFF',
+          borderTopWidth: 1,
+          borderTopColor: '#F3F4F6',
+        },
+        tabBarLabelStyle: { fontSize: 12 },
+        tabBarIcon: ({ color, focused }) => {
+          const [icon, activeIcon] = tabIcons[route.name] ?? [
+            'at-circle-outline',
+            'at-circle',
+          ];
+          return <Ionicons name={focused ? activeIcon : icon} size={22} color={color} />;
+        },
+      })}>
+      <Tabs.Screen name="index" options={{ title: 'Home', headerShown: false }} />
+      <Tabs.Screen name="cards" options={{ title: 'Cards' }} />
+      <Tabs.Screen name="payments" options={{ title: 'Payments' }} />
+      <Tabs.Screen name="insights" options={{ title: 'Insights' }} />
+      <Tabs.Screen name="more" options={{ title: 'More' }} />
     </Tabs>
   );
 }
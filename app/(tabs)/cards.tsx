@@ -0,0 +1,161 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { accountTypes, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { accountBalance } from "@/lib/balances";
+import { formatMoney } from "@/lib/money";
+import { getAccountTotals } from "@/lib/transactionRepository";
+
+interface CardData extends Account {
+  balance: number;
+}
+
+export default function CardsScreen() {
+  const router = useRouter();
+  const [cards, setCards] = useState<CardData[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadCards();
+    }, [])
+  );
+
+  const loadCards = async () => {
+    try {
+      const [accounts, totals] = await Promise.all([
+        listAccounts(),
+        getAccountTotals(),
+      ]);
+      setCards(
+        accounts
+          .filter((account) => !account.archived)
+          .map((account) => ({
+            ...account,
+            balance: accountBalance(account, totals),
+          }))
+      );
+    } catch (error) {
+      console.error("Error loading cards:", error);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      {cards.map((card) => (
+        <TouchableOpacity
+          key={card.id}
+          style={styles.card}
+          onPress={() =>
+            router.push({ pathname: "/edit-account", params: { id: card.id } })
+          }
+        >
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardType}>
+              {accountTypes.find((option) => option.type === card.type)
+                ?.label ?? card.type}
+            </Text>
+            <Ionicons
+              name={getAccountIcon(card.type)}
+              size={24}
+              color="#FFFFFF"
+            />
+          </View>
+          <Text style={styles.cardNumber}>
+            {card.accountNumber
+              ? `**** **** **** ${card.accountNumber}`
+              : "**** **** **** ****"}
+          </Text>
+          <View style={styles.cardFooter}>
+            <Text style={styles.cardName}>{card.name}</Text>
+            <Text style={styles.cardBalance}>
+              {formatMoney(card.balance, card.currency)}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addCard}
+        onPress={() => router.push("/edit-account")}
+      >
+        <Ionicons name="add-circle-outline" size={24} color="#1E3A8A" />
+        <Text style={styles.addCardText}>Add Account</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+    paddingHorizontal: 20,
+  },
+  card: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 15,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardType: {
+    fontSize: 14,
+    color: "#D1D5DB",
+  },
+  cardNumber: {
+    fontSize: 18,
+    color: "#FFFFFF",
+    letterSpacing: 2,
+    marginVertical: 25,
+  },
+  cardFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+  },
+  cardName: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+  },
+  cardBalance: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+  },
+  addCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "#1E3A8A",
+    borderRadius: 16,
+    padding: 20,
+    marginVertical: 15,
+  },
+  addCardText: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1E3A8A",
+    marginLeft: 8,
+  },
+});
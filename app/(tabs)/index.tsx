@@ -1,5 +1,3 @@
-import { StyleSheet } from "react-native";
-
 import BankDashboard from "@/components/HomePage";
 
 export default function HomeScreen() {
@@ -9,22 +7,3 @@ export default function HomeScreen() {
     </>
   );
 }
-
-const styles = StyleSheet.create({
-  titleContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 8,
-  },
-  stepContainer: {
-    gap: 8,
-    marginBottom: 8,
-  },
-  reactLogo: {
-    height: 178,
-    width: 290,
-    bottom: 0,
-    left: 0,
-    position: "absolute",
-  },
-});
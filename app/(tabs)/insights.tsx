@@ -0,0 +1,260 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import React, { useState } from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { ColumnChart } from "@/components/charts/ColumnChart";
+import { HorizontalBarChart } from "@/components/charts/HorizontalBarChart";
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { getExchangeRates } from "@/lib/exchangeRateRepository";
+import {
+  addMonths,
+  convertTransactions,
+  formatMonth,
+  formatShortMonth,
+  getMonth,
+  Month,
+  monthlyTrend,
+  monthTotals,
+  spendingByCategory,
+} from "@/lib/insights";
+import { formatAmount } from "@/lib/money";
+import { listTransactions, Transaction } from "@/lib/transactionRepository";
+
+const TREND_MONTHS = 6;
+
+export default function InsightsScreen() {
+  const [month, setMonth] = useState<Month>(() => getMonth(new Date()));
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  // Converted into the home currency for the totals and category chart
+  const [homeTransactions, setHomeTransactions] = useState<Transaction[]>([]);
+  const [homeCurrency, setHomeCurrency] = useState(DEFAULT_CURRENCY);
+  const [missingRates, setMissingRates] = useState<string[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadInsights();
+    }, [])
+  );
+
+  const loadInsights = async () => {
+    try {
+      const [
+        storedTransactions,
+        storedCategories,
+        storedAccounts,
+        exchangeRates,
+      ] = await Promise.all([
+        listTransactions(),
+        listCategories(),
+        listAccounts(),
+        getExchangeRates(),
+      ]);
+      const converted = convertTransactions(
+        storedTransactions,
+        storedAccounts,
+        exchangeRates.homeCurrency,
+        exchangeRates
+      );
+      setTransactions(storedTransactions);
+      setHomeTransactions(converted.transactions);
+      setHomeCurrency(exchangeRates.homeCurrency);
+      setMissingRates(converted.missing);
+      setCategories(storedCategories);
+      setAccounts(storedAccounts.filter((account) => !account.archived));
+    } catch (error) {
+      console.error("Error loading insights:", error);
+    }
+  };
+
+  const formatValue = (amount: number) => formatAmount(amount, homeCurrency);
+
+  const totals = monthTotals(homeTransactions, month);
+  const categoryItems = spendingByCategory(homeTransactions, month).map(
+    ({ categoryId, total }) => {
+      const category = categories.find((c) => c.id === categoryId);
+      return {
+        key: categoryId,
+        label: category?.name ?? "Uncategorized",
+        icon: category?.icon,
+        value: total,
+      };
+    }
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.monthSelector}>
+        <TouchableOpacity onPress={() => setMonth(addMonths(month, -1))}>
+          <Ionicons name="chevron-back" size={24} color="#1E3A8A" />
+        </TouchableOpacity>
+        <Text style={styles.monthText}>{formatMonth(month)}</Text>
+        <TouchableOpacity onPress={() => setMonth(addMonths(month, 1))}>
+          <Ionicons name="chevron-forward" size={24} color="#1E3A8A" />
+        </TouchableOpacity>
+      </View>
+
+      {missingRates.length > 0 && (
+        <Text style={styles.hintText}>
+          Totals leave out {missingRates.join(", ")} until you add an exchange
+          rate to {homeCurrency}.
+        </Text>
+      )}
+
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>Income</Text>
+          <Text style={[styles.summaryAmount, styles.positiveAmount]}>
+            {formatValue(totals.income)}
+          </Text>
+        </View>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>Expenses</Text>
+          <Text style={[styles.summaryAmount, styles.negativeAmount]}>
+            {formatValue(totals.expenses)}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Income vs. Expenses</Text>
+        <HorizontalBarChart
+          items={[
+            {
+              key: "income",
+              label: "Income",
+              value: totals.income,
+              color: "#10B981",
+            },
+            {
+              key: "expenses",
+              label: "Expenses",
+              value: totals.expenses,
+              color: "#EF4444",
+            },
+          ]}
+          formatValue={formatValue}
+        />
+        <Text style={styles.netText}>
+          Net {totals.net < 0 ? "-" : ""}
+          {formatValue(Math.abs(totals.net))}
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Spending by Category</Text>
+        <HorizontalBarChart
+          items={categoryItems}
+          formatValue={formatValue}
+          emptyText="No spending this month."
+        />
+      </View>
+
+      {accounts.map((account) => (
+        <View key={account.id} style={styles.section}>
+          <Text style={styles.sectionTitle}>{account.name}</Text>
+          <Text style={styles.sectionSubtitle}>
+            Net change per month ({account.currency})
+          </Text>
+          <ColumnChart
+            items={monthlyTrend(
+              transactions.filter((t) => t.accountId === account.id),
+              month,
+              TREND_MONTHS
+            ).map((entry) => ({
+              key: `${entry.year}-${entry.month}`,
+              label: formatShortMonth(entry),
+              value: entry.net,
+            }))}
+          />
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+    paddingHorizontal: 20,
+  },
+  content: {
+    paddingBottom: 20,
+  },
+  monthSelector: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginVertical: 15,
+  },
+  monthText: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1F2937",
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 10,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginHorizontal: 5,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginBottom: 5,
+  },
+  summaryAmount: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  section: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 15,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 12,
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  netText: {
+    fontSize: 14,
+    color: "#4B5563",
+    textAlign: "right",
+  },
+});
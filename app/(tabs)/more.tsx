@@ -0,0 +1,130 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Href, useRouter } from "expo-router";
+import React from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+type IconName = React.ComponentProps<typeof Ionicons>["name"];
+
+interface MenuItem {
+  id: string;
+  title: string;
+  icon: IconName;
+  href: Href;
+}
+
+const menuItems: MenuItem[] = [
+  {
+    id: "accounts",
+    title: "Accounts",
+    icon: "wallet-outline",
+    href: "/accounts",
+  },
+  {
+    id: "exchange-rates",
+    title: "Exchange Rates",
+    icon: "cash-outline",
+    href: "/exchange-rates",
+  },
+  {
+    id: "categories",
+    title: "Categories",
+    icon: "pricetags-outline",
+    href: "/categories",
+  },
+  {
+    id: "rules",
+    title: "Rules",
+    icon: "flash-outline",
+    href: "/rules",
+  },
+  {
+    id: "budgets",
+    title: "Budgets",
+    icon: "pie-chart-outline",
+    href: "/budgets",
+  },
+  {
+    id: "recurring",
+    title: "Recurring",
+    icon: "repeat-outline",
+    href: "/recurring",
+  },
+  {
+    id: "import-export",
+    title: "Import & Export",
+    icon: "swap-vertical-outline",
+    href: "/import-export",
+  },
+  {
+    id: "app-lock",
+    title: "App Lock",
+    icon: "lock-closed-outline",
+    href: "/app-lock",
+  },
+  {
+    id: "duplicates",
+    title: "Duplicates",
+    icon: "copy-outline",
+    href: "/duplicates",
+  },
+  {
+    id: "trash",
+    title: "Trash",
+    icon: "trash-outline",
+    href: "/trash",
+  },
+];
+
+export default function MoreScreen() {
+  const router = useRouter();
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.menu}>
+        {menuItems.map((item) => (
+          <TouchableOpacity
+            key={item.id}
+            style={styles.menuItem}
+            onPress={() => router.push(item.href)}
+          >
+            <Ionicons name={item.icon} size={22} color="#1E3A8A" />
+            <Text style={styles.menuText}>{item.title}</Text>
+            <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+          </TouchableOpacity>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  menu: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    margin: 20,
+  },
+  menuItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 15,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  menuText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#1F2937",
+    marginLeft: 15,
+  },
+});
@@ -0,0 +1,185 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { formatTransactionDate } from "@/lib/dates";
+import { formatMoney } from "@/lib/money";
+import { listTransactions, Transaction } from "@/lib/transactionRepository";
+
+type IconName = React.ComponentProps<typeof Ionicons>["name"];
+
+interface PaymentAction {
+  id: string;
+  title: string;
+  description: string;
+  icon: IconName;
+  pathname: "/transfer" | "/add-transaction";
+}
+
+const paymentActions: PaymentAction[] = [
+  {
+    id: "transfer",
+    title: "Transfer",
+    description: "Move money between your accounts",
+    icon: "swap-horizontal-outline",
+    pathname: "/transfer",
+  },
+  {
+    id: "payment",
+    title: "Record a Payment",
+    description: "Log a bill or purchase",
+    icon: "receipt-outline",
+    pathname: "/add-transaction",
+  },
+];
+
+export default function PaymentsScreen() {
+  const router = useRouter();
+  const [transfers, setTransfers] = useState<Transaction[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      Promise.all([listTransactions(), listAccounts()])
+        .then(([transactions, storedAccounts]) => {
+          // One row per transfer: the outgoing leg describes the pair
+          setTransfers(
+            transactions.filter((t) => t.transferId && t.amount < 0)
+          );
+          setAccounts(storedAccounts);
+        })
+        .catch((error) => console.error("Error loading transfers:", error));
+    }, [])
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      {paymentActions.map((action) => (
+        <TouchableOpacity
+          key={action.id}
+          style={styles.actionItem}
+          onPress={() => router.push(action.pathname)}
+        >
+          <View style={styles.actionIcon}>
+            <Ionicons name={action.icon} size={22} color="#FFFFFF" />
+          </View>
+          <View style={styles.actionDetails}>
+            <Text style={styles.actionTitle}>{action.title}</Text>
+            <Text style={styles.actionDescription}>{action.description}</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+        </TouchableOpacity>
+      ))}
+
+      <Text style={styles.sectionTitle}>Recent Transfers</Text>
+      {transfers.length > 0 ? (
+        transfers.map((transfer) => (
+          <TouchableOpacity
+            key={transfer.id}
+            style={styles.transferItem}
+            onPress={() =>
+              router.push({
+                pathname: "/transfer",
+                params: { id: transfer.transferId },
+              })
+            }
+          >
+            <View style={styles.actionDetails}>
+              <Text style={styles.transferName}>{transfer.merchant}</Text>
+              <Text style={styles.transferDate}>
+                {formatTransactionDate(transfer.date)}
+              </Text>
+            </View>
+            <Text style={styles.transferAmount}>
+              {formatMoney(
+                Math.abs(transfer.amount),
+                accounts.find((a) => a.id === transfer.accountId)?.currency ??
+                  DEFAULT_CURRENCY
+              )}
+            </Text>
+          </TouchableOpacity>
+        ))
+      ) : (
+        <Text style={styles.emptyText}>No transfers yet.</Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+    paddingHorizontal: 20,
+  },
+  actionItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 15,
+  },
+  actionIcon: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 10,
+    padding: 8,
+    marginRight: 15,
+  },
+  actionDetails: {
+    flex: 1,
+  },
+  actionTitle: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+    marginBottom: 4,
+  },
+  actionDescription: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1F2937",
+    marginTop: 25,
+    marginBottom: 10,
+  },
+  transferItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  transferName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+    marginBottom: 4,
+  },
+  transferDate: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  transferAmount: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginTop: 20,
+  },
+});
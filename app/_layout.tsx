@@ -3,10 +3,12 @@ import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
-import { useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import 'react-native-reanimated';
 
+import { AppLockGate } from '@/components/AppLockGate';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { initializeTransactions } from '@/lib/transactionRepository';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -16,12 +18,21 @@ export default function RootLayout() {
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
+  const [storageReady, setStorageReady] = useState(false);
+
+  // Run stored data migrations before any screen reads from storage. With
+  // the app lock on, storage can only be read after the PIN is entered.
+  const openStorage = useCallback(() => {
+    initializeTransactions()
+      .catch((error) => console.error('Error migrating transactions:', error))
+      .finally(() => setStorageReady(true));
+  }, []);
 
   useEffect(() => {
-    if (loaded) {
+    if (loaded && storageReady) {
       SplashScreen.hideAsync();
     }
-  }, [loaded]);
+  }, [loaded, storageReady]);
 
   if (!loaded) {
     return null;
@@ -29,10 +40,14 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
+      <AppLockGate onStorageOpen={openStorage}>
+        {storageReady && (
+          <Stack>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="+not-found" />
+          </Stack>
+        )}
+      </AppLockGate>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
@@ -0,0 +1,202 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useFocusEffect, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { accountTypes, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts, moveAccount } from "@/lib/accountRepository";
+
+export default function AccountsScreen() {
+  const router = useRouter();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadAccounts();
+    }, [])
+  );
+
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await listAccounts());
+    } catch (error) {
+      console.error("Error loading accounts:", error);
+      Alert.alert("Error", "Could not load accounts");
+    }
+  };
+
+  const handleMove = async (id: string, direction: -1 | 1) => {
+    try {
+      setAccounts(await moveAccount(id, direction));
+    } catch (error) {
+      console.error("Error reordering accounts:", error);
+      Alert.alert("Error", "Could not reorder accounts");
+    }
+  };
+
+  const navigateToEditAccount = (account?: Account) => {
+    router.push({
+      pathname: "/edit-account",
+      params: account ? { id: account.id } : {},
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Accounts", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        {accounts.length === 0 && (
+          <Text style={styles.emptyText}>
+            No accounts yet. Add one to get started!
+          </Text>
+        )}
+
+        {accounts.map((account, index) => (
+          <View key={account.id} style={styles.accountRow}>
+            <TouchableOpacity
+              style={styles.accountDetails}
+              onPress={() => navigateToEditAccount(account)}
+            >
+              <View
+                style={[
+                  styles.accountIcon,
+                  account.archived ? styles.archivedIcon : null,
+                ]}
+              >
+                <Ionicons
+                  name={getAccountIcon(account.type)}
+                  size={20}
+                  color="#FFFFFF"
+                />
+              </View>
+              <View style={styles.accountText}>
+                <Text style={styles.accountName}>{account.name}</Text>
+                <Text style={styles.accountMeta}>
+                  {accountTypes.find((option) => option.type === account.type)
+                    ?.label ?? account.type}{" "}
+                  · {account.currency}
+                  {account.archived ? " · Archived" : ""}
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.reorderButton}
+              disabled={index === 0}
+              onPress={() => handleMove(account.id, -1)}
+            >
+              <Ionicons
+                name="chevron-up"
+                size={20}
+                color={index === 0 ? "#D1D5DB" : "#4B5563"}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.reorderButton}
+              disabled={index === accounts.length - 1}
+              onPress={() => handleMove(account.id, 1)}
+            >
+              <Ionicons
+                name="chevron-down"
+                size={20}
+                color={index === accounts.length - 1 ? "#D1D5DB" : "#4B5563"}
+              />
+            </TouchableOpacity>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity
+          style={styles.submitButton}
+          onPress={() => navigateToEditAccount()}
+        >
+          <Text style={styles.submitText}>Add Account</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginTop: 30,
+  },
+  accountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  accountDetails: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  accountIcon: {
+    backgroundColor: "#1E3A8A",
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 15,
+  },
+  archivedIcon: {
+    backgroundColor: "#9CA3AF",
+  },
+  accountText: {
+    flex: 1,
+  },
+  accountName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+    marginBottom: 2,
+  },
+  accountMeta: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  reorderButton: {
+    padding: 8,
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -1,7 +1,11 @@
 import { Ionicons } from "@expo/vector-icons";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Stack, useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import {
+  Stack,
+  useFocusEffect,
+  useLocalSearchParams,
+  useRouter,
+} from "expo-router";
+import React, { useEffect, useRef, useState } from "react";
 import {
   Alert,
   KeyboardAvoidingView,
@@ -14,73 +18,35 @@ import {
   View,
 } from "react-native";
 
-type IconName = React.ComponentProps<typeof Ionicons>["name"];
-
-interface Category {
-  id: string;
-  name: string;
-  icon: IconName;
-  type: "income" | "expense";
-}
-
-interface Account {
-  id: string;
-  name: string;
-  type: "chequing" | "savings";
-}
-
-export interface TransactionData {
-  id: number;
-  merchant: string;
-  amount: number;
-  date: string;
-  icon: IconName;
-  accountId: string;
-}
-
-const categories: Category[] = [
-  { id: "salary", name: "Salary", icon: "cash-outline", type: "income" },
-  {
-    id: "freelance",
-    name: "Freelance",
-    icon: "briefcase-outline",
-    type: "income",
-  },
-  {
-    id: "investment",
-    name: "Investment",
-    icon: "trending-up-outline",
-    type: "income",
-  },
-  {
-    id: "interest",
-    name: "Interest",
-    icon: "analytics-outline",
-    type: "income",
-  },
-  { id: "gift", name: "Gift", icon: "gift-outline", type: "income" },
-  { id: "food", name: "Food", icon: "restaurant-outline", type: "expense" },
-  { id: "transport", name: "Transport", icon: "car-outline", type: "expense" },
-  { id: "shopping", name: "Shopping", icon: "cart-outline", type: "expense" },
-  {
-    id: "bills",
-    name: "Bills",
-    icon: "document-text-outline",
-    type: "expense",
-  },
-  {
-    id: "entertainment",
-    name: "Entertainment",
-    icon: "film-outline",
-    type: "expense",
-  },
-  { id: "health", name: "Health", icon: "medical-outline", type: "expense" },
-];
-
-const accounts: Account[] = [
-  { id: "chequing", name: "Chequing Account", type: "chequing" },
-  { id: "savings", name: "Savings Account", type: "savings" },
-];
+import { DateTimeField } from "@/components/DateTimeField";
+import { MerchantInput } from "@/components/MerchantInput";
+import {
+  createSplitDraft,
+  readSplitDrafts,
+  SplitDraft,
+  SplitEditor,
+} from "@/components/SplitEditor";
+import { DEFAULT_CURRENCY, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { listBudgets } from "@/lib/budgetRepository";
+import { getBudgetStatusWith } from "@/lib/budgets";
+import { CategorizationRule, findRule } from "@/lib/categorization";
+import { listCategorizationRules } from "@/lib/categorizationRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { formatCalendarDate } from "@/lib/dates";
+import { findDuplicates } from "@/lib/duplicates";
+import { getExchangeRates } from "@/lib/exchangeRateRepository";
+import { convertTransactions } from "@/lib/insights";
+import { merchantsInUse } from "@/lib/merchants";
+import { formatPlainAmount, formatMoney, parseMoney } from "@/lib/money";
+import {
+  addTransaction,
+  applySplits,
+  categoryLines,
+  listTransactions,
+  splitError,
+  Transaction,
+} from "@/lib/transactionRepository";
 
 export default function AddTransactionScreen() {
   const router = useRouter();
@@ -94,8 +60,17 @@ export default function AddTransactionScreen() {
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(
     null
   );
-  const [selectedAccountId, setSelectedAccountId] =
-    useState<string>("chequing");
+  const [selectedAccountId, setSelectedAccountId] = useState<string>(
+    typeof params.accountId === "string" ? params.accountId : ""
+  );
+  // Null unless the amount is being split between categories
+  const [splitLines, setSplitLines] = useState<SplitDraft[] | null>(null);
+  const [date, setDate] = useState(() => new Date());
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [merchants, setMerchants] = useState<string[]>([]);
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const saving = useRef(false);
 
   // Set initial account from params if available
   useEffect(() => {
@@ -104,60 +79,263 @@ export default function AddTransactionScreen() {
     }
   }, [params.accountId]);
 
+  useEffect(() => {
+    listAccounts()
+      .then((storedAccounts) => {
+        setAccounts(storedAccounts);
+        // Default to the first open account when none was passed in
+        setSelectedAccountId(
+          (current) =>
+            current ||
+            storedAccounts.find((account) => !account.archived)?.id ||
+            ""
+        );
+      })
+      .catch((error) => console.error("Error loading accounts:", error));
+    Promise.all([listTransactions(), listCategorizationRules()])
+      .then(([storedTransactions, storedRules]) => {
+        setMerchants(merchantsInUse(storedTransactions));
+        setRules(storedRules);
+      })
+      .catch((error) => console.error("Error loading suggestions:", error));
+  }, []);
+
+  // Reload on focus so changes made in the category manager show up
+  useFocusEffect(
+    React.useCallback(() => {
+      listCategories()
+        .then((storedCategories) => {
+          setCategories(storedCategories);
+          setSelectedCategory(
+            (current) =>
+              storedCategories.find((c) => c.id === current?.id) ?? null
+          );
+        })
+        .catch((error) => console.error("Error loading categories:", error));
+    }, [])
+  );
+
+  const currency =
+    accounts.find((account) => account.id === selectedAccountId)?.currency ??
+    DEFAULT_CURRENCY;
+
+  const selectableAccounts = accounts.filter(
+    (account) => !account.archived || account.id === selectedAccountId
+  );
+
   const filteredCategories = categories.filter(
-    (category) => category.type === transactionType
+    (category) =>
+      category.type === transactionType &&
+      (!category.archived ||
+        category.id === selectedCategory?.id ||
+        splitLines?.some((line) => line.categoryId === category.id))
   );
 
-  const formatDate = (): string => {
-    const now = new Date();
-    return `Today, ${now.getHours()}:${now
-      .getMinutes()
-      .toString()
-      .padStart(2, "0")} ${now.getHours() >= 12 ? "PM" : "AM"}`;
+  // Pre-selects what the merchant's rule says; the user can still change it
+  const applyRule = (name: string) => {
+    const rule = findRule(rules, name);
+    const category = categories.find(
+      (c) => c.id === rule?.categoryId && !c.archived
+    );
+    if (!rule || !category) return;
+    if (!splitLines) {
+      setTransactionType(category.type);
+      setSelectedCategory(category);
+    }
+    if (
+      accounts.some(
+        (account) => account.id === rule.accountId && !account.archived
+      )
+    ) {
+      setSelectedAccountId(rule.accountId!);
+    }
+  };
+
+  const startSplit = () =>
+    setSplitLines([
+      createSplitDraft(selectedCategory?.id ?? null, amount),
+      createSplitDraft(),
+    ]);
+
+  const stopSplit = () => {
+    setSelectedCategory(
+      categories.find((c) => c.id === splitLines?.[0]?.categoryId) ?? null
+    );
+    setSplitLines(null);
   };
 
   const handleSubmit = async () => {
+    // Set until the screen closes: a second tap while the first is being
+    // checked would pass the duplicate check too, since neither sees the
+    // other's transaction
+    if (saving.current) return;
+    saving.current = true;
+
+    const newTransaction = readForm();
+    if (!newTransaction) {
+      saving.current = false;
+      return;
+    }
+    confirmAndSave(newTransaction, await checkTransaction(newTransaction));
+  };
+
+  // The transaction the form describes, or null after saying what is missing
+  const readForm = (): Transaction | null => {
     if (!merchant.trim()) {
       Alert.alert("Error", "Please enter a name for the transaction");
-      return;
+      return null;
     }
 
-    if (!amount.trim() || isNaN(parseFloat(amount))) {
+    const account = accounts.find((a) => a.id === selectedAccountId);
+    if (!account) {
+      Alert.alert("Error", "Please select an account");
+      return null;
+    }
+
+    const minorUnits = parseMoney(amount, account.currency);
+    if (minorUnits === null) {
       Alert.alert("Error", "Please enter a valid amount");
-      return;
+      return null;
     }
 
-    if (!selectedCategory) {
+    const signedAmount =
+      transactionType === "expense"
+        ? -Math.abs(minorUnits)
+        : Math.abs(minorUnits);
+    const splits =
+      splitLines &&
+      readSplitDrafts(
+        splitLines,
+        account.currency,
+        transactionType === "expense" ? -1 : 1
+      );
+    if (splitLines) {
+      if (
+        !splits ||
+        !splits.every(
+          (split) =>
+            categories.find((c) => c.id === split.categoryId)?.type ===
+            transactionType
+        )
+      ) {
+        Alert.alert(
+          "Error",
+          "Please choose a category and amount for every split line"
+        );
+        return null;
+      }
+      const error = splitError(signedAmount, splits);
+      if (error) {
+        Alert.alert("Error", error);
+        return null;
+      }
+    } else if (!selectedCategory || selectedCategory.type !== transactionType) {
       Alert.alert("Error", "Please select a category");
-      return;
+      return null;
     }
 
-    const newTransaction: TransactionData = {
+    const base: Transaction = {
       id: Date.now(),
       merchant: merchant.trim(),
-      amount:
-        transactionType === "expense"
-          ? -Math.abs(parseFloat(amount))
-          : Math.abs(parseFloat(amount)),
-      date: formatDate(),
-      icon: selectedCategory.icon,
+      amount: signedAmount,
+      date: date.toISOString(),
+      categoryId: splits ? splits[0].categoryId : selectedCategory!.id,
       accountId: selectedAccountId,
     };
+    return splits ? applySplits(base, splits) : base;
+  };
 
+  // Checks the user can override, asked about one after the other
+  const checkTransaction = async (
+    newTransaction: Transaction
+  ): Promise<{ title: string; message: string }[]> => {
+    const warnings: { title: string; message: string }[] = [];
     try {
-      const existingTransactionsStr = await AsyncStorage.getItem(
-        "transactions"
+      const [budgets, transactions, exchangeRates] = await Promise.all([
+        listBudgets(),
+        listTransactions(),
+        getExchangeRates(),
+      ]);
+      const duplicate = findDuplicates(newTransaction, transactions)[0];
+      if (duplicate) {
+        warnings.push({
+          title: "Possible Duplicate",
+          message: `${
+            duplicate.merchant
+          } for the same amount is already saved on ${formatCalendarDate(
+            new Date(duplicate.date)
+          )}.`,
+        });
+      }
+      // Budgets are in the default currency; a transaction in a currency
+      // without a rate cannot be compared with them
+      const inBudgetCurrency = convertTransactions(
+        [...transactions, newTransaction],
+        accounts,
+        DEFAULT_CURRENCY,
+        exchangeRates
+      ).transactions;
+      const budgetTransaction = inBudgetCurrency.find(
+        (t) => t.id === newTransaction.id
       );
-      const existingTransactions = existingTransactionsStr
-        ? JSON.parse(existingTransactionsStr)
-        : [];
+      // Warn about the first category, or split line, that goes over budget
+      const overBudget =
+        budgetTransaction &&
+        categoryLines(budgetTransaction)
+          .map((line) => ({
+            category: categories.find((c) => c.id === line.categoryId),
+            status: getBudgetStatusWith(
+              budgets,
+              inBudgetCurrency,
+              budgetTransaction,
+              line.categoryId
+            ),
+          }))
+          .find(({ status }) => status && status.remaining < 0);
+      if (overBudget?.status) {
+        const { category, status } = overBudget;
+        warnings.push({
+          title: "Over Budget",
+          message: `This puts ${
+            category?.name ?? "this category"
+          } ${formatMoney(
+            -status.remaining,
+            DEFAULT_CURRENCY
+          )} over its budget for the month.`,
+        });
+      }
+    } catch (error) {
+      console.error("Error checking transaction:", error);
+    }
+    return warnings;
+  };
 
-      const updatedTransactions = [newTransaction, ...existingTransactions];
+  const confirmAndSave = (
+    newTransaction: Transaction,
+    [warning, ...rest]: { title: string; message: string }[]
+  ) => {
+    if (!warning) {
+      saveTransaction(newTransaction);
+      return;
+    }
+    Alert.alert(warning.title, warning.message, [
+      {
+        text: "Cancel",
+        style: "cancel",
+        onPress: () => {
+          saving.current = false;
+        },
+      },
+      {
+        text: "Save Anyway",
+        onPress: () => confirmAndSave(newTransaction, rest),
+      },
+    ]);
+  };
 
-      await AsyncStorage.setItem(
-        "transactions",
-        JSON.stringify(updatedTransactions)
-      );
+  const saveTransaction = async (newTransaction: Transaction) => {
+    try {
+      await addTransaction(newTransaction);
 
       Alert.alert("Success", "Transaction added successfully", [
         {
@@ -167,6 +345,7 @@ export default function AddTransactionScreen() {
       ]);
     } catch (error) {
       console.error("Error saving transaction:", error);
+      saving.current = false;
 
       Alert.alert(
         "Warning",
@@ -193,7 +372,10 @@ export default function AddTransactionScreen() {
         }}
       />
 
-      <ScrollView style={styles.scrollContainer}>
+      <ScrollView
+        style={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
         <View style={styles.toggleContainer}>
           <TouchableOpacity
             style={[
@@ -232,8 +414,12 @@ export default function AddTransactionScreen() {
         <View style={styles.formContainer}>
           <View style={styles.inputGroup}>
             <Text style={styles.inputLabel}>Account</Text>
-            <View style={styles.accountSelectorContainer}>
-              {accounts.map((account) => (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.accountSelectorContainer}
+            >
+              {selectableAccounts.map((account) => (
                 <TouchableOpacity
                   key={account.id}
                   style={[
@@ -245,11 +431,7 @@ export default function AddTransactionScreen() {
                   onPress={() => setSelectedAccountId(account.id)}
                 >
                   <Ionicons
-                    name={
-                      account.type === "chequing"
-                        ? "wallet-outline"
-                        : "save-outline"
-                    }
+                    name={getAccountIcon(account.type)}
                     size={20}
                     color={
                       selectedAccountId === account.id ? "#1E3A8A" : "#6B7280"
@@ -267,14 +449,14 @@ export default function AddTransactionScreen() {
                   </Text>
                 </TouchableOpacity>
               ))}
-            </View>
+            </ScrollView>
           </View>
 
           <View style={styles.inputGroup}>
             <Text style={styles.inputLabel}>
               {transactionType === "expense" ? "Merchant" : "Source"}
             </Text>
-            <TextInput
+            <MerchantInput
               style={styles.textInput}
               placeholder={
                 transactionType === "expense"
@@ -283,6 +465,8 @@ export default function AddTransactionScreen() {
               }
               value={merchant}
               onChangeText={setMerchant}
+              onSubmit={applyRule}
+              merchants={merchants}
             />
           </View>
 
@@ -290,33 +474,62 @@ export default function AddTransactionScreen() {
             <Text style={styles.inputLabel}>Amount</Text>
             <TextInput
               style={styles.textInput}
-              placeholder="0.00"
+              placeholder={formatPlainAmount(0, currency)}
               keyboardType="decimal-pad"
               value={amount}
               onChangeText={setAmount}
             />
           </View>
 
-          <Text style={styles.sectionTitle}>Category</Text>
-          <View style={styles.categoriesContainer}>
-            {filteredCategories.map((category) => (
-              <TouchableOpacity
-                key={category.id}
-                style={[
-                  styles.categoryItem,
-                  selectedCategory?.id === category.id
-                    ? styles.selectedCategory
-                    : null,
-                ]}
-                onPress={() => setSelectedCategory(category)}
-              >
-                <View style={styles.categoryIcon}>
-                  <Ionicons name={category.icon} size={22} color="#FFFFFF" />
-                </View>
-                <Text style={styles.categoryName}>{category.name}</Text>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Date</Text>
+            <DateTimeField value={date} onChange={setDate} />
+          </View>
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Category</Text>
+            <View style={styles.sectionActions}>
+              <TouchableOpacity onPress={splitLines ? stopSplit : startSplit}>
+                <Text style={styles.manageText}>
+                  {splitLines ? "Don't Split" : "Split"}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => router.push("/categories")}>
+                <Text style={[styles.manageText, styles.sectionAction]}>
+                  Manage
+                </Text>
               </TouchableOpacity>
-            ))}
+            </View>
           </View>
+          {splitLines ? (
+            <SplitEditor
+              lines={splitLines}
+              onChange={setSplitLines}
+              categories={filteredCategories}
+              currency={currency}
+              total={parseMoney(amount, currency)}
+            />
+          ) : (
+            <View style={styles.categoriesContainer}>
+              {filteredCategories.map((category) => (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[
+                    styles.categoryItem,
+                    selectedCategory?.id === category.id
+                      ? styles.selectedCategory
+                      : null,
+                  ]}
+                  onPress={() => setSelectedCategory(category)}
+                >
+                  <View style={styles.categoryIcon}>
+                    <Ionicons name={category.icon} size={22} color="#FFFFFF" />
+                  </View>
+                  <Text style={styles.categoryName}>{category.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </View>
       </ScrollView>
 
@@ -380,8 +593,6 @@ const styles = StyleSheet.create({
     marginBottom: 8,
   },
   accountSelectorContainer: {
-    flexDirection: "row",
-    justifyContent: "space-between",
     marginBottom: 5,
   },
   accountOption: {
@@ -391,8 +602,7 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     paddingHorizontal: 15,
     borderRadius: 8,
-    flex: 1,
-    marginHorizontal: 5,
+    marginRight: 10,
   },
   selectedAccountOption: {
     backgroundColor: "#E0E7FF",
@@ -416,11 +626,27 @@ const styles = StyleSheet.create({
     padding: 12,
     fontSize: 16,
   },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 15,
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: "600",
     color: "#374151",
-    marginBottom: 15,
+  },
+  sectionActions: {
+    flexDirection: "row",
+  },
+  sectionAction: {
+    marginLeft: 16,
+  },
+  manageText: {
+    fontSize: 14,
+    color: "#1E3A8A",
+    fontWeight: "500",
   },
   categoriesContainer: {
     flexDirection: "row",
@@ -0,0 +1,293 @@
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import {
+  AppLockSettings,
+  autoLockOptions,
+  disableAppLock,
+  getAppLockSettings,
+  isAppLockEnabled,
+  isValidPin,
+  setAutoLockSeconds,
+  setPin,
+  verifyPin,
+} from "@/lib/appLock";
+
+export default function AppLockScreen() {
+  const router = useRouter();
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  const [currentPin, setCurrentPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+
+  useEffect(() => {
+    getAppLockSettings()
+      .then(setSettings)
+      .catch((error) => {
+        console.error("Error loading app lock:", error);
+        Alert.alert("Error", "Could not load app lock settings");
+      });
+  }, []);
+
+  const enabled = settings !== null && isAppLockEnabled(settings);
+
+  // Changing or removing the PIN needs the current one
+  const checkCurrentPin = async () => {
+    const result = await verifyPin(currentPin);
+    setCurrentPin("");
+    if (result.status === "lockedOut") {
+      Alert.alert("Error", "Too many wrong PINs. Please try again later.");
+      return false;
+    }
+    if (result.status === "incorrect") {
+      Alert.alert("Error", "The current PIN is incorrect");
+      return false;
+    }
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    if (!isValidPin(newPin)) {
+      Alert.alert("Error", "The PIN must be 4 to 8 digits");
+      return;
+    }
+    if (newPin !== confirmPin) {
+      Alert.alert("Error", "The PINs do not match");
+      return;
+    }
+
+    try {
+      if (enabled && !(await checkCurrentPin())) return;
+      setSettings(await setPin(newPin));
+      Alert.alert(
+        "Success",
+        enabled ? "PIN changed successfully" : "App lock turned on",
+        [
+          {
+            text: "OK",
+            onPress: () => router.back(),
+          },
+        ]
+      );
+    } catch (error) {
+      console.error("Error saving PIN:", error);
+      Alert.alert("Error", "Could not save the PIN");
+    }
+  };
+
+  const handleDisable = async () => {
+    try {
+      if (!(await checkCurrentPin())) return;
+      setSettings(await disableAppLock());
+      Alert.alert("Success", "App lock turned off", [
+        {
+          text: "OK",
+          onPress: () => router.back(),
+        },
+      ]);
+    } catch (error) {
+      console.error("Error turning off app lock:", error);
+      Alert.alert("Error", "Could not turn off app lock");
+    }
+  };
+
+  const selectAutoLock = async (seconds: number) => {
+    try {
+      setSettings(await setAutoLockSeconds(seconds));
+    } catch (error) {
+      console.error("Error saving auto-lock time:", error);
+      Alert.alert("Error", "Could not save the auto-lock time");
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen options={{ title: "App Lock", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        <Text style={styles.hintText}>
+          {enabled
+            ? "App lock is on. The app asks for your PIN when it starts and after it has been in the background."
+            : "Ask for a PIN when the app starts and after it has been in the background."}{" "}
+          The PIN is only stored as a salted hash on this device and cannot be
+          recovered if you forget it.
+        </Text>
+
+        {enabled && (
+          <>
+            <Text style={styles.label}>Current PIN</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Current PIN"
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={8}
+              value={currentPin}
+              onChangeText={setCurrentPin}
+            />
+          </>
+        )}
+
+        <Text style={styles.label}>{enabled ? "New PIN" : "PIN"}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="4 to 8 digits"
+          keyboardType="number-pad"
+          secureTextEntry
+          maxLength={8}
+          value={newPin}
+          onChangeText={setNewPin}
+        />
+
+        <Text style={styles.label}>Confirm PIN</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Repeat the PIN"
+          keyboardType="number-pad"
+          secureTextEntry
+          maxLength={8}
+          value={confirmPin}
+          onChangeText={setConfirmPin}
+        />
+
+        <Text style={styles.label}>Lock After Leaving the App</Text>
+        <View style={styles.chipContainer}>
+          {autoLockOptions.map((option) => {
+            const selected = settings?.autoLockSeconds === option.seconds;
+            return (
+              <TouchableOpacity
+                key={option.seconds}
+                style={[styles.chip, selected ? styles.selectedChip : null]}
+                onPress={() => selectAutoLock(option.seconds)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    selected ? styles.selectedChipText : null,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {enabled && (
+          <TouchableOpacity
+            style={styles.disableButton}
+            onPress={handleDisable}
+          >
+            <Text style={styles.disableText}>Turn Off App Lock</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+          <Text style={styles.submitText}>
+            {enabled ? "Change PIN" : "Turn On App Lock"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  hintText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginTop: 15,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  disableButton: {
+    alignItems: "center",
+    paddingVertical: 15,
+    marginTop: 20,
+  },
+  disableText: {
+    fontSize: 16,
+    color: "#EF4444",
+    fontWeight: "500",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,295 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+  TouchableOpacity,
+} from "react-native";
+
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { listAccounts } from "@/lib/accountRepository";
+import {
+  Budget,
+  deleteBudget,
+  listBudgets,
+  saveBudget,
+} from "@/lib/budgetRepository";
+import { getBudgetStatus } from "@/lib/budgets";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { getExchangeRates } from "@/lib/exchangeRateRepository";
+import { convertTransactions, getMonth } from "@/lib/insights";
+import { formatAmount, formatPlainAmount, parseMoney } from "@/lib/money";
+import { listTransactions, Transaction } from "@/lib/transactionRepository";
+
+interface BudgetDraft {
+  limit: string;
+  rollover: boolean;
+}
+
+export default function BudgetsScreen() {
+  const router = useRouter();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  // In the budgets' currency
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [missingRates, setMissingRates] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, BudgetDraft>>({});
+
+  useEffect(() => {
+    loadBudgets();
+  }, []);
+
+  const loadBudgets = async () => {
+    try {
+      const [
+        storedCategories,
+        storedBudgets,
+        storedTransactions,
+        storedAccounts,
+        exchangeRates,
+      ] = await Promise.all([
+        listCategories(),
+        listBudgets(),
+        listTransactions(),
+        listAccounts(),
+        getExchangeRates(),
+      ]);
+      const expenseCategories = storedCategories.filter(
+        (category) => category.type === "expense" && !category.archived
+      );
+      setCategories(expenseCategories);
+      setBudgets(storedBudgets);
+      const converted = convertTransactions(
+        storedTransactions,
+        storedAccounts,
+        DEFAULT_CURRENCY,
+        exchangeRates
+      );
+      setTransactions(converted.transactions);
+      setMissingRates(converted.missing);
+
+      const initialDrafts: Record<string, BudgetDraft> = {};
+      expenseCategories.forEach((category) => {
+        const budget = storedBudgets.find((b) => b.categoryId === category.id);
+        initialDrafts[category.id] = {
+          limit: budget
+            ? formatPlainAmount(budget.limit, DEFAULT_CURRENCY)
+            : "",
+          rollover: budget ? budget.rollover : false,
+        };
+      });
+      setDrafts(initialDrafts);
+    } catch (error) {
+      console.error("Error loading budgets:", error);
+      Alert.alert("Error", "Could not load budgets");
+    }
+  };
+
+  const updateDraft = (categoryId: string, changes: Partial<BudgetDraft>) => {
+    setDrafts((current) => ({
+      ...current,
+      [categoryId]: { ...current[categoryId], ...changes },
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const parseLimit = (text: string) => parseMoney(text, DEFAULT_CURRENCY);
+    const invalid = categories.find((category) => {
+      const limit = drafts[category.id]?.limit.trim();
+      if (!limit) return false;
+      const value = parseLimit(limit);
+      return value === null || value <= 0;
+    });
+    if (invalid) {
+      Alert.alert("Error", `Please enter a valid limit for ${invalid.name}`);
+      return;
+    }
+
+    try {
+      for (const category of categories) {
+        const draft = drafts[category.id];
+        const existing = budgets.find((b) => b.categoryId === category.id);
+        if (draft?.limit.trim()) {
+          await saveBudget({
+            categoryId: category.id,
+            limit: parseLimit(draft.limit)!,
+            rollover: draft.rollover,
+            startMonth: existing?.startMonth ?? getMonth(new Date()),
+          });
+        } else if (existing) {
+          await deleteBudget(category.id);
+        }
+      }
+
+      Alert.alert("Success", "Budgets saved successfully", [
+        {
+          text: "OK",
+          onPress: () => router.back(),
+        },
+      ]);
+    } catch (error) {
+      console.error("Error saving budgets:", error);
+      Alert.alert("Error", "Could not save budgets");
+    }
+  };
+
+  const currentMonth = getMonth(new Date());
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen options={{ title: "Budgets", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        <Text style={styles.hintText}>
+          Set a monthly limit for any expense category. With rollover on,
+          unspent money carries into next month and overspending is taken from
+          it.
+        </Text>
+        {missingRates.length > 0 && (
+          <Text style={styles.hintText}>
+            Spending in {missingRates.join(", ")} is not counted until you add
+            an exchange rate to {DEFAULT_CURRENCY}.
+          </Text>
+        )}
+
+        {categories.map((category) => {
+          const draft = drafts[category.id];
+          const budget = budgets.find((b) => b.categoryId === category.id);
+          if (!draft) return null;
+
+          return (
+            <View key={category.id} style={styles.budgetItem}>
+              <View style={styles.budgetHeader}>
+                <View style={styles.categoryIcon}>
+                  <Ionicons name={category.icon} size={18} color="#FFFFFF" />
+                </View>
+                <Text style={styles.categoryName}>{category.name}</Text>
+                <TextInput
+                  style={styles.limitInput}
+                  placeholder="No limit"
+                  keyboardType="decimal-pad"
+                  value={draft.limit}
+                  onChangeText={(limit) => updateDraft(category.id, { limit })}
+                />
+              </View>
+
+              <View style={styles.rolloverRow}>
+                <Text style={styles.rolloverText}>Roll over each month</Text>
+                <Switch
+                  value={draft.rollover}
+                  onValueChange={(rollover) =>
+                    updateDraft(category.id, { rollover })
+                  }
+                />
+              </View>
+
+              {budget && (
+                <BudgetProgress
+                  label="This month"
+                  status={getBudgetStatus(budget, transactions, currentMonth)}
+                  formatValue={(value) => formatAmount(value, DEFAULT_CURRENCY)}
+                />
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+          <Text style={styles.submitText}>Save Budgets</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  hintText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginVertical: 15,
+  },
+  budgetItem: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+  },
+  budgetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  categoryIcon: {
+    backgroundColor: "#4F46E5",
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 10,
+  },
+  categoryName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+  },
+  limitInput: {
+    width: 100,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 16,
+    textAlign: "right",
+  },
+  rolloverRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginVertical: 10,
+  },
+  rolloverText: {
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,578 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { categoryIcons } from "@/constants/Categories";
+import {
+  addCategory,
+  Category,
+  CategoryType,
+  isFallbackCategory,
+  listCategories,
+  removeCategory,
+  updateCategory,
+} from "@/lib/categoryRepository";
+import { categoryLines, listTransactions } from "@/lib/transactionRepository";
+
+type IconName = React.ComponentProps<typeof Ionicons>["name"];
+
+// What the replacement picker is choosing a category for
+type ReplacementAction = "merge" | "delete";
+
+export default function CategoriesScreen() {
+  const [categoryType, setCategoryType] = useState<CategoryType>("expense");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [usage, setUsage] = useState<Record<string, number>>({});
+
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState<IconName>(categoryIcons[0]);
+  const [replacementAction, setReplacementAction] =
+    useState<ReplacementAction | null>(null);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const [storedCategories, transactions] = await Promise.all([
+        listCategories(),
+        listTransactions(),
+      ]);
+      const counts: Record<string, number> = {};
+      transactions.forEach((transaction) => {
+        // A split counts once for each category it uses
+        new Set(
+          categoryLines(transaction).map((line) => line.categoryId)
+        ).forEach((categoryId) => {
+          counts[categoryId] = (counts[categoryId] ?? 0) + 1;
+        });
+      });
+      setCategories(storedCategories);
+      setUsage(counts);
+    } catch (error) {
+      console.error("Error loading categories:", error);
+      Alert.alert("Error", "Could not load categories");
+    }
+  };
+
+  const openEditor = (category: Category | null) => {
+    setEditingCategory(category);
+    setName(category ? category.name : "");
+    setIcon(category ? category.icon : categoryIcons[0]);
+    setReplacementAction(null);
+    setShowEditor(true);
+  };
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditingCategory(null);
+    setReplacementAction(null);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please enter a name for the category");
+      return;
+    }
+
+    try {
+      if (editingCategory) {
+        await updateCategory({ ...editingCategory, name: name.trim(), icon });
+      } else {
+        await addCategory({ name: name.trim(), icon, type: categoryType });
+      }
+      closeEditor();
+      loadCategories();
+    } catch (error) {
+      console.error("Error saving category:", error);
+      Alert.alert("Error", "Could not save the category");
+    }
+  };
+
+  const toggleArchived = async () => {
+    if (!editingCategory) return;
+
+    try {
+      await updateCategory({
+        ...editingCategory,
+        archived: !editingCategory.archived,
+      });
+      closeEditor();
+      loadCategories();
+    } catch (error) {
+      console.error("Error archiving category:", error);
+      Alert.alert("Error", "Could not update the category");
+    }
+  };
+
+  const replaceCategory = async (replacement: Category) => {
+    if (!editingCategory) return;
+
+    try {
+      await removeCategory(editingCategory.id, replacement.id);
+      closeEditor();
+      loadCategories();
+    } catch (error) {
+      console.error("Error removing category:", error);
+      Alert.alert("Error", "Could not remove the category");
+    }
+  };
+
+  const confirmReplacement = (replacement: Category) => {
+    if (!editingCategory) return;
+
+    const count = usage[editingCategory.id] ?? 0;
+    const verb = replacementAction === "merge" ? "Merge" : "Delete";
+    Alert.alert(
+      `${verb} ${editingCategory.name}`,
+      `${count} transaction${count === 1 ? "" : "s"} will move to ${
+        replacement.name
+      }.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: verb,
+          onPress: () => replaceCategory(replacement),
+          style: "destructive",
+        },
+      ]
+    );
+  };
+
+  const startReplacement = (action: ReplacementAction) => {
+    if (!editingCategory) return;
+
+    if (replacementCandidates.length === 0) {
+      Alert.alert(
+        "Error",
+        `Add another ${editingCategory.type} category first`
+      );
+      return;
+    }
+    setReplacementAction(action);
+  };
+
+  const visibleCategories = categories.filter((c) => c.type === categoryType);
+  const activeCategories = visibleCategories.filter((c) => !c.archived);
+  const archivedCategories = visibleCategories.filter((c) => c.archived);
+  const replacementCandidates = editingCategory
+    ? categories.filter(
+        (c) =>
+          c.type === editingCategory.type &&
+          c.id !== editingCategory.id &&
+          !c.archived
+      )
+    : [];
+
+  const renderCategory = (category: Category) => (
+    <TouchableOpacity
+      key={category.id}
+      style={styles.categoryRow}
+      onPress={() => openEditor(category)}
+    >
+      <View
+        style={[
+          styles.categoryIcon,
+          category.archived ? styles.archivedIcon : null,
+        ]}
+      >
+        <Ionicons name={category.icon} size={20} color="#FFFFFF" />
+      </View>
+      <View style={styles.categoryDetails}>
+        <Text style={styles.categoryName}>{category.name}</Text>
+        <Text style={styles.categoryUsage}>
+          {usage[category.id] ?? 0} transaction
+          {usage[category.id] === 1 ? "" : "s"}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Categories", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        <View style={styles.toggleContainer}>
+          {(["expense", "income"] as CategoryType[]).map((type) => (
+            <TouchableOpacity
+              key={type}
+              style={[
+                styles.toggleButton,
+                categoryType === type ? styles.activeToggle : null,
+              ]}
+              onPress={() => setCategoryType(type)}
+            >
+              <Text
+                style={[
+                  styles.toggleText,
+                  categoryType === type ? styles.activeToggleText : null,
+                ]}
+              >
+                {type === "expense" ? "Expense" : "Income"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {activeCategories.map(renderCategory)}
+
+        {archivedCategories.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Archived</Text>
+            {archivedCategories.map(renderCategory)}
+          </>
+        )}
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity
+          style={styles.submitButton}
+          onPress={() => openEditor(null)}
+        >
+          <Text style={styles.submitText}>Add Category</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Category Editor Modal */}
+      <Modal
+        visible={showEditor}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={closeEditor}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={closeEditor}
+        >
+          <TouchableOpacity activeOpacity={1} style={styles.modalContent}>
+            {replacementAction ? (
+              <>
+                <Text style={styles.modalTitle}>
+                  {replacementAction === "merge"
+                    ? "Merge into"
+                    : "Move transactions to"}
+                </Text>
+                {replacementCandidates.map((candidate) => (
+                  <TouchableOpacity
+                    key={candidate.id}
+                    style={styles.modalOption}
+                    onPress={() => confirmReplacement(candidate)}
+                  >
+                    <Ionicons name={candidate.icon} size={24} color="#1E3A8A" />
+                    <Text style={styles.modalOptionText}>{candidate.name}</Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={[styles.modalOption, styles.cancelOption]}
+                  onPress={() => setReplacementAction(null)}
+                >
+                  <Text style={styles.cancelOptionText}>Back</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <Text style={styles.modalTitle}>
+                  {editingCategory ? "Edit Category" : "New Category"}
+                </Text>
+
+                <View style={styles.editorBody}>
+                  <Text style={styles.inputLabel}>Name</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    placeholder="e.g. Groceries"
+                    value={name}
+                    onChangeText={setName}
+                  />
+
+                  <Text style={styles.inputLabel}>Icon</Text>
+                  <View style={styles.iconGrid}>
+                    {categoryIcons.map((option) => (
+                      <TouchableOpacity
+                        key={option}
+                        style={[
+                          styles.iconOption,
+                          icon === option ? styles.selectedIconOption : null,
+                        ]}
+                        onPress={() => setIcon(option)}
+                      >
+                        <Ionicons
+                          name={option}
+                          size={22}
+                          color={icon === option ? "#FFFFFF" : "#4B5563"}
+                        />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  <TouchableOpacity
+                    style={styles.submitButton}
+                    onPress={handleSave}
+                  >
+                    <Text style={styles.submitText}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {editingCategory && (
+                  <>
+                    <TouchableOpacity
+                      style={styles.modalOption}
+                      onPress={toggleArchived}
+                    >
+                      <Ionicons
+                        name={
+                          editingCategory.archived
+                            ? "arrow-undo-outline"
+                            : "archive-outline"
+                        }
+                        size={24}
+                        color="#1E3A8A"
+                      />
+                      <Text style={styles.modalOptionText}>
+                        {editingCategory.archived ? "Unarchive" : "Archive"}
+                      </Text>
+                    </TouchableOpacity>
+                    {/* Built-in fallbacks can be renamed or archived only */}
+                    {!isFallbackCategory(editingCategory.id) && (
+                      <>
+                        <TouchableOpacity
+                          style={styles.modalOption}
+                          onPress={() => startReplacement("merge")}
+                        >
+                          <Ionicons
+                            name="git-merge-outline"
+                            size={24}
+                            color="#1E3A8A"
+                          />
+                          <Text style={styles.modalOptionText}>
+                            Merge into…
+                          </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.modalOption, styles.deleteOption]}
+                          onPress={() => startReplacement("delete")}
+                        >
+                          <Ionicons
+                            name="trash-outline"
+                            size={24}
+                            color="#EF4444"
+                          />
+                          <Text style={styles.deleteOptionText}>Delete</Text>
+                        </TouchableOpacity>
+                      </>
+                    )}
+                  </>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.modalOption, styles.cancelOption]}
+                  onPress={closeEditor}
+                >
+                  <Text style={styles.cancelOptionText}>Cancel</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  toggleContainer: {
+    flexDirection: "row",
+    backgroundColor: "#E5E7EB",
+    borderRadius: 8,
+    marginVertical: 15,
+    padding: 4,
+  },
+  toggleButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: "center",
+    borderRadius: 6,
+  },
+  activeToggle: {
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 1,
+    elevation: 1,
+  },
+  toggleText: {
+    fontWeight: "500",
+    color: "#6B7280",
+  },
+  activeToggleText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  categoryIcon: {
+    backgroundColor: "#4F46E5",
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 15,
+  },
+  archivedIcon: {
+    backgroundColor: "#9CA3AF",
+  },
+  categoryDetails: {
+    flex: 1,
+  },
+  categoryName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+    marginBottom: 2,
+  },
+  categoryUsage: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: "#FFFFFF",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingVertical: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1F2937",
+    textAlign: "center",
+    marginBottom: 20,
+  },
+  editorBody: {
+    paddingHorizontal: 20,
+    marginBottom: 10,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 15,
+  },
+  iconGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 15,
+  },
+  iconOption: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: "#F3F4F6",
+    justifyContent: "center",
+    alignItems: "center",
+    margin: 4,
+  },
+  selectedIconOption: {
+    backgroundColor: "#4F46E5",
+  },
+  modalOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 15,
+    paddingHorizontal: 20,
+  },
+  modalOptionText: {
+    fontSize: 16,
+    marginLeft: 15,
+    color: "#1F2937",
+  },
+  deleteOption: {
+    borderTopWidth: 1,
+    borderTopColor: "#F3F4F6",
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  deleteOptionText: {
+    fontSize: 16,
+    marginLeft: 15,
+    color: "#EF4444",
+  },
+  cancelOption: {
+    justifyContent: "center",
+    marginTop: 10,
+  },
+  cancelOptionText: {
+    fontSize: 16,
+    color: "#6B7280",
+    textAlign: "center",
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,255 @@
+import { Stack, useFocusEffect } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { formatCalendarDate, formatTime } from "@/lib/dates";
+import {
+  dismissDuplicatePair,
+  DuplicatePair,
+  duplicatePairs,
+  listDismissedDuplicates,
+} from "@/lib/duplicates";
+import { formatMoney } from "@/lib/money";
+import {
+  getStatus,
+  listTransactions,
+  mergeTransactions,
+  Transaction,
+} from "@/lib/transactionRepository";
+
+export default function DuplicatesScreen() {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadDuplicates();
+    }, [])
+  );
+
+  const loadDuplicates = async () => {
+    try {
+      const [transactions, dismissed, storedAccounts, storedCategories] =
+        await Promise.all([
+          listTransactions(),
+          listDismissedDuplicates(),
+          listAccounts(),
+          listCategories(),
+        ]);
+      setPairs(duplicatePairs(transactions, dismissed));
+      setAccounts(storedAccounts);
+      setCategories(storedCategories);
+    } catch (error) {
+      console.error("Error loading duplicates:", error);
+      Alert.alert("Error", "Could not load possible duplicates");
+    }
+  };
+
+  const handleMerge = (keep: Transaction, duplicate: Transaction) => {
+    const reconciled = getStatus(duplicate) === "reconciled";
+    Alert.alert(
+      "Merge Transactions",
+      `Keep ${keep.merchant} on ${formatCalendarDate(
+        new Date(keep.date)
+      )} and move the other one to the trash? Its note, tags and receipts are added to the one you keep.${
+        reconciled
+          ? " The other one has been reconciled against a bank statement, so removing it can put the account out of balance with that statement."
+          : ""
+      }`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Merge",
+          style: reconciled ? "destructive" : "default",
+          onPress: async () => {
+            try {
+              await mergeTransactions(keep.id, duplicate.id);
+              await loadDuplicates();
+            } catch (error) {
+              console.error("Error merging transactions:", error);
+              Alert.alert("Error", "Could not merge the transactions");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    try {
+      await dismissDuplicatePair(pair.key);
+      setPairs((current) => current.filter((p) => p.key !== pair.key));
+    } catch (error) {
+      console.error("Error dismissing duplicate:", error);
+      Alert.alert("Error", "Could not dismiss the duplicate");
+    }
+  };
+
+  const renderTransaction = (transaction: Transaction, other: Transaction) => {
+    const account = accounts.find((a) => a.id === transaction.accountId);
+    const date = new Date(transaction.date);
+    const details = [
+      categories.find((c) => c.id === transaction.categoryId)?.name,
+      transaction.note ? "Note" : undefined,
+      transaction.receipts
+        ? `${transaction.receipts.length} receipt${
+            transaction.receipts.length === 1 ? "" : "s"
+          }`
+        : undefined,
+    ].filter((detail) => detail);
+
+    return (
+      <View style={styles.transaction}>
+        <Text style={styles.merchant}>{transaction.merchant}</Text>
+        <Text style={styles.meta}>
+          {formatCalendarDate(date)}, {formatTime(date)}
+        </Text>
+        <Text style={styles.meta}>{details.join(" · ")}</Text>
+        <Text
+          style={[
+            styles.amount,
+            transaction.amount < 0
+              ? styles.negativeAmount
+              : styles.positiveAmount,
+          ]}
+        >
+          {formatMoney(
+            transaction.amount,
+            account?.currency ?? DEFAULT_CURRENCY
+          )}
+        </Text>
+        <TouchableOpacity
+          style={styles.keepButton}
+          onPress={() => handleMerge(transaction, other)}
+        >
+          <Text style={styles.keepText}>Keep This</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Duplicates", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        {pairs.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No possible duplicates. Transactions in the same account for the
+            same amount, with similar names and dates, show up here.
+          </Text>
+        ) : (
+          pairs.map((pair) => (
+            <View key={pair.key} style={styles.pairCard}>
+              <Text style={styles.accountName}>
+                {accounts.find((a) => a.id === pair.first.accountId)?.name ??
+                  "Unknown account"}
+              </Text>
+              <View style={styles.pairRow}>
+                {renderTransaction(pair.first, pair.second)}
+                <View style={styles.divider} />
+                {renderTransaction(pair.second, pair.first)}
+              </View>
+              <TouchableOpacity
+                style={styles.dismissButton}
+                onPress={() => handleDismiss(pair)}
+              >
+                <Text style={styles.dismissText}>Not Duplicates</Text>
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginTop: 30,
+  },
+  pairCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+  },
+  accountName: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6B7280",
+    marginBottom: 10,
+  },
+  pairRow: {
+    flexDirection: "row",
+  },
+  divider: {
+    width: 1,
+    backgroundColor: "#E5E7EB",
+    marginHorizontal: 10,
+  },
+  transaction: {
+    flex: 1,
+  },
+  merchant: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1F2937",
+    marginBottom: 2,
+  },
+  meta: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  amount: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginVertical: 6,
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  keepButton: {
+    backgroundColor: "#E0E7FF",
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: "center",
+  },
+  keepText: {
+    color: "#1E3A8A",
+    fontWeight: "600",
+  },
+  dismissButton: {
+    alignItems: "center",
+    paddingTop: 12,
+  },
+  dismissText: {
+    color: "#6B7280",
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,602 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { accountTypes, currencies } from "@/constants/Accounts";
+import {
+  Account,
+  AccountType,
+  addAccount,
+  getAccount,
+  hasTransactions,
+  listAccounts,
+  removeAccount,
+  updateAccount,
+} from "@/lib/accountRepository";
+import { formatPlainAmount, parseMoney } from "@/lib/money";
+import { getStatus, listTransactions } from "@/lib/transactionRepository";
+
+export default function EditAccountScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const accountId = typeof params.id === "string" ? params.id : undefined;
+
+  const [account, setAccount] = useState<Account | null>(null);
+  const [name, setName] = useState("");
+  const [accountType, setAccountType] = useState<AccountType>("chequing");
+  const [currency, setCurrency] = useState(currencies[0]);
+  const [openingBalance, setOpeningBalance] = useState("0");
+  const [accountNumber, setAccountNumber] = useState("");
+
+  const [otherAccounts, setOtherAccounts] = useState<Account[]>([]);
+  const [transactionCount, setTransactionCount] = useState(0);
+  const [reconciledCount, setReconciledCount] = useState(0);
+  const [currencyLocked, setCurrencyLocked] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+
+  useEffect(() => {
+    if (!accountId) return;
+
+    const loadAccount = async () => {
+      try {
+        const [loadedAccount, accounts, transactions] = await Promise.all([
+          getAccount(accountId),
+          listAccounts(),
+          listTransactions(),
+        ]);
+        if (!loadedAccount) {
+          Alert.alert("Error", "Account not found");
+          router.back();
+          return;
+        }
+        setAccount(loadedAccount);
+        setName(loadedAccount.name);
+        setAccountType(loadedAccount.type);
+        setCurrency(loadedAccount.currency);
+        setOpeningBalance(
+          formatPlainAmount(
+            loadedAccount.openingBalance,
+            loadedAccount.currency
+          )
+        );
+        setAccountNumber(loadedAccount.accountNumber ?? "");
+        // Amounts are in the account's currency, so they can only move to
+        // an account in the same one
+        setOtherAccounts(
+          accounts.filter(
+            (a) => a.id !== accountId && a.currency === loadedAccount.currency
+          )
+        );
+        const accountTransactions = transactions.filter(
+          (t) => t.accountId === accountId
+        );
+        setTransactionCount(accountTransactions.length);
+        setReconciledCount(
+          accountTransactions.filter((t) => getStatus(t) === "reconciled")
+            .length
+        );
+        setCurrencyLocked(await hasTransactions(accountId));
+      } catch (error) {
+        console.error("Error loading account:", error);
+        Alert.alert("Error", "Could not load account details");
+        router.back();
+      }
+    };
+
+    loadAccount();
+  }, [accountId, router]);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please enter a name for the account");
+      return;
+    }
+
+    const openingMinorUnits = parseMoney(openingBalance, currency);
+    if (openingMinorUnits === null) {
+      Alert.alert("Error", "Please enter a valid opening balance");
+      return;
+    }
+
+    if (accountNumber && !/^\d{4}$/.test(accountNumber)) {
+      Alert.alert("Error", "Account number must be the last 4 digits");
+      return;
+    }
+
+    const fields = {
+      name: name.trim(),
+      type: accountType,
+      currency,
+      openingBalance: openingMinorUnits,
+      accountNumber: accountNumber || undefined,
+    };
+
+    try {
+      if (account) {
+        await updateAccount({ ...account, ...fields });
+      } else {
+        await addAccount(fields);
+      }
+      router.back();
+    } catch (error) {
+      console.error("Error saving account:", error);
+      Alert.alert("Error", "Could not save the account");
+    }
+  };
+
+  const toggleArchived = async () => {
+    if (!account) return;
+
+    try {
+      await updateAccount({ ...account, archived: !account.archived });
+      router.back();
+    } catch (error) {
+      console.error("Error archiving account:", error);
+      Alert.alert("Error", "Could not update the account");
+    }
+  };
+
+  const deleteAccount = async (replacement?: Account) => {
+    if (!account) return;
+
+    try {
+      await removeAccount(account.id, replacement?.id);
+      setShowDeleteModal(false);
+      router.back();
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      Alert.alert("Error", "Could not delete the account");
+    }
+  };
+
+  const showDeleteConfirmation = () => {
+    if (!account) return;
+
+    if (transactionCount === 0) {
+      Alert.alert(
+        "Delete Account",
+        `Are you sure you want to delete ${account.name}?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            onPress: () => deleteAccount(),
+            style: "destructive",
+          },
+        ]
+      );
+      return;
+    }
+    setShowDeleteModal(true);
+  };
+
+  const confirmMoveTransactions = (replacement: Account) => {
+    if (!account) return;
+
+    if (reconciledCount === 0) {
+      deleteAccount(replacement);
+      return;
+    }
+    Alert.alert(
+      "Move Reconciled Transactions",
+      `${reconciledCount} of these transactions ${
+        reconciledCount === 1 ? "has" : "have"
+      } been reconciled against a statement for ${
+        account.name
+      }. Moving them can put ${
+        replacement.name
+      } out of balance with its statements.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Move",
+          onPress: () => deleteAccount(replacement),
+          style: "destructive",
+        },
+      ]
+    );
+  };
+
+  const confirmDeleteWithTransactions = () => {
+    if (!account) return;
+
+    const transactionLabel = `${transactionCount} transaction${
+      transactionCount === 1 ? "" : "s"
+    }`;
+    Alert.alert(
+      "Delete Transactions",
+      `This permanently deletes ${account.name} and its ${transactionLabel}.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete All",
+          onPress: () => deleteAccount(),
+          style: "destructive",
+        },
+      ]
+    );
+  };
+
+  if (accountId && !account) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text>Loading account...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen
+        options={{
+          title: account ? "Edit Account" : "New Account",
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView style={styles.scrollContainer}>
+        <View style={styles.formContainer}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput
+              style={styles.textInput}
+              placeholder="e.g. Everyday Chequing"
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Type</Text>
+            <View style={styles.chipContainer}>
+              {accountTypes.map((option) => (
+                <TouchableOpacity
+                  key={option.type}
+                  style={[
+                    styles.chip,
+                    accountType === option.type ? styles.selectedChip : null,
+                  ]}
+                  onPress={() => setAccountType(option.type)}
+                >
+                  <Ionicons
+                    name={option.icon}
+                    size={16}
+                    color={accountType === option.type ? "#1E3A8A" : "#6B7280"}
+                  />
+                  <Text
+                    style={[
+                      styles.chipText,
+                      accountType === option.type
+                        ? styles.selectedChipText
+                        : null,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Currency</Text>
+            <View style={styles.chipContainer}>
+              {currencies.map((code) => (
+                <TouchableOpacity
+                  key={code}
+                  style={[
+                    styles.chip,
+                    currency === code ? styles.selectedChip : null,
+                    currencyLocked && currency !== code
+                      ? styles.disabledChip
+                      : null,
+                  ]}
+                  disabled={currencyLocked}
+                  onPress={() => setCurrency(code)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      currency === code ? styles.selectedChipText : null,
+                    ]}
+                  >
+                    {code}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {currencyLocked && (
+              <Text style={styles.hintText}>
+                The currency can't change once the account has transactions.
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Opening Balance</Text>
+            <TextInput
+              style={styles.textInput}
+              placeholder={formatPlainAmount(0, currency)}
+              keyboardType="numbers-and-punctuation"
+              value={openingBalance}
+              onChangeText={setOpeningBalance}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>
+              Account Number (last 4 digits)
+            </Text>
+            <TextInput
+              style={styles.textInput}
+              placeholder="Optional"
+              keyboardType="number-pad"
+              maxLength={4}
+              value={accountNumber}
+              onChangeText={setAccountNumber}
+            />
+          </View>
+
+          {account && (
+            <View style={styles.inputGroup}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={toggleArchived}
+              >
+                <Ionicons
+                  name={
+                    account.archived ? "arrow-undo-outline" : "archive-outline"
+                  }
+                  size={20}
+                  color="#1E3A8A"
+                />
+                <Text style={styles.secondaryButtonText}>
+                  {account.archived ? "Unarchive Account" : "Archive Account"}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={showDeleteConfirmation}
+              >
+                <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                <Text style={styles.deleteText}>Delete Account</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+          <Text style={styles.submitText}>
+            {account ? "Update Account" : "Add Account"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Delete Account Modal */}
+      <Modal
+        visible={showDeleteModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowDeleteModal(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setShowDeleteModal(false)}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              Move {transactionCount} transaction
+              {transactionCount === 1 ? "" : "s"} to
+            </Text>
+
+            {otherAccounts.map((other) => (
+              <TouchableOpacity
+                key={other.id}
+                style={styles.modalOption}
+                onPress={() => confirmMoveTransactions(other)}
+              >
+                <Ionicons
+                  name="arrow-forward-outline"
+                  size={24}
+                  color="#1E3A8A"
+                />
+                <Text style={styles.modalOptionText}>{other.name}</Text>
+              </TouchableOpacity>
+            ))}
+
+            <TouchableOpacity
+              style={[styles.modalOption, styles.deleteOption]}
+              onPress={confirmDeleteWithTransactions}
+            >
+              <Ionicons name="trash-outline" size={24} color="#EF4444" />
+              <Text style={styles.deleteOptionText}>
+                Delete them with the account
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.modalOption, styles.cancelOption]}
+              onPress={() => setShowDeleteModal(false)}
+            >
+              <Text style={styles.cancelOptionText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F5F7FF",
+  },
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  formContainer: {
+    marginTop: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  disabledChip: {
+    opacity: 0.5,
+  },
+  chipText: {
+    fontSize: 14,
+    marginLeft: 4,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 8,
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    marginLeft: 10,
+    color: "#1E3A8A",
+  },
+  deleteText: {
+    fontSize: 16,
+    marginLeft: 10,
+    color: "#EF4444",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: "#FFFFFF",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingVertical: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1F2937",
+    textAlign: "center",
+    marginBottom: 20,
+  },
+  modalOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 15,
+    paddingHorizontal: 20,
+  },
+  modalOptionText: {
+    fontSize: 16,
+    marginLeft: 15,
+    color: "#1F2937",
+  },
+  deleteOption: {
+    borderTopWidth: 1,
+    borderTopColor: "#F3F4F6",
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  deleteOptionText: {
+    fontSize: 16,
+    marginLeft: 15,
+    color: "#EF4444",
+  },
+  cancelOption: {
+    justifyContent: "center",
+    marginTop: 10,
+  },
+  cancelOptionText: {
+    fontSize: 16,
+    color: "#6B7280",
+    textAlign: "center",
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,611 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DateTimeField } from "@/components/DateTimeField";
+import { DEFAULT_CURRENCY, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { formatPlainAmount, parseMoney } from "@/lib/money";
+import { frequencies, occurrenceDate } from "@/lib/recurrence";
+import {
+  deleteRecurringRule,
+  Frequency,
+  getRecurringRule,
+  RecurringRule,
+  saveRecurringRule,
+} from "@/lib/recurringRepository";
+
+type EndMode = "never" | "date" | "count";
+
+const endModes: { mode: EndMode; label: string }[] = [
+  { mode: "never", label: "Never" },
+  { mode: "date", label: "On a date" },
+  { mode: "count", label: "After" },
+];
+
+export default function EditRecurringScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const ruleId = typeof params.id === "string" ? params.id : undefined;
+
+  const [rule, setRule] = useState<RecurringRule | null>(null);
+  const [transactionType, setTransactionType] = useState<"income" | "expense">(
+    "expense"
+  );
+  const [merchant, setMerchant] = useState("");
+  const [amount, setAmount] = useState("");
+  const [selectedCategoryId, setSelectedCategoryId] = useState("");
+  const [selectedAccountId, setSelectedAccountId] = useState("");
+  const [frequency, setFrequency] = useState<Frequency>("monthly");
+  const [nextDate, setNextDate] = useState(() => new Date());
+  const [endMode, setEndMode] = useState<EndMode>("never");
+  const [endDate, setEndDate] = useState(() => new Date());
+  const [remainingCount, setRemainingCount] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(ruleId !== undefined);
+
+  useEffect(() => {
+    const loadRule = async () => {
+      try {
+        const [storedCategories, storedAccounts] = await Promise.all([
+          listCategories(),
+          listAccounts(),
+        ]);
+        setCategories(storedCategories);
+        setAccounts(storedAccounts);
+
+        if (!ruleId) {
+          setSelectedAccountId(
+            storedAccounts.find((account) => !account.archived)?.id ?? ""
+          );
+          return;
+        }
+
+        const storedRule = await getRecurringRule(ruleId);
+        if (!storedRule) {
+          Alert.alert("Error", "Recurring transaction not found");
+          router.back();
+          return;
+        }
+
+        // The form edits what is still to come, so it starts from the next
+        // occurrence and only counts the occurrences left.
+        setRule(storedRule);
+        setTransactionType(storedRule.amount < 0 ? "expense" : "income");
+        setMerchant(storedRule.merchant);
+        setAmount(
+          formatPlainAmount(
+            Math.abs(storedRule.amount),
+            storedAccounts.find((a) => a.id === storedRule.accountId)
+              ?.currency ?? DEFAULT_CURRENCY
+          )
+        );
+        setSelectedCategoryId(storedRule.categoryId);
+        setSelectedAccountId(storedRule.accountId);
+        setFrequency(storedRule.frequency);
+        setNextDate(occurrenceDate(storedRule, storedRule.nextIndex));
+        if (storedRule.endDate) {
+          setEndMode("date");
+          setEndDate(new Date(storedRule.endDate));
+        } else if (storedRule.count !== undefined) {
+          setEndMode("count");
+          setRemainingCount(
+            Math.max(storedRule.count - storedRule.nextIndex, 0).toString()
+          );
+        }
+        setLoading(false);
+      } catch (error) {
+        console.error("Error loading recurring transaction:", error);
+        Alert.alert("Error", "Could not load recurring transaction");
+        router.back();
+      }
+    };
+
+    loadRule();
+  }, [ruleId, router]);
+
+  const currency =
+    accounts.find((account) => account.id === selectedAccountId)?.currency ??
+    DEFAULT_CURRENCY;
+
+  const selectableAccounts = accounts.filter(
+    (account) => !account.archived || account.id === selectedAccountId
+  );
+
+  const filteredCategories = categories.filter(
+    (category) =>
+      category.type === transactionType &&
+      (!category.archived || category.id === selectedCategoryId)
+  );
+
+  const handleSubmit = async () => {
+    if (!merchant.trim()) {
+      Alert.alert("Error", "Please enter a name for the transaction");
+      return;
+    }
+
+    const account = accounts.find((a) => a.id === selectedAccountId);
+    if (!account) {
+      Alert.alert("Error", "Please select an account");
+      return;
+    }
+
+    const value = parseMoney(amount, account.currency);
+    if (value === null || value <= 0) {
+      Alert.alert("Error", "Please enter a valid amount");
+      return;
+    }
+
+    const category = categories.find((c) => c.id === selectedCategoryId);
+    if (!category || category.type !== transactionType) {
+      Alert.alert("Error", "Please select a category");
+      return;
+    }
+
+    const count = parseInt(remainingCount, 10);
+    if (endMode === "count" && !(count > 0)) {
+      Alert.alert("Error", "Please enter how many times it repeats");
+      return;
+    }
+
+    if (endMode === "date" && endDate < nextDate) {
+      Alert.alert("Error", "The end date must be after the next occurrence");
+      return;
+    }
+
+    // Keep the original start date while the schedule itself is unchanged,
+    // so monthly rules stay anchored to their day after a short month.
+    const keepSchedule =
+      rule !== null &&
+      rule.frequency === frequency &&
+      occurrenceDate(rule, rule.nextIndex).getTime() === nextDate.getTime();
+    const firstIndex = keepSchedule ? rule.nextIndex : 0;
+
+    const updatedRule: RecurringRule = {
+      id: rule?.id ?? `recurring-${Date.now()}`,
+      merchant: merchant.trim(),
+      amount: transactionType === "expense" ? -value : value,
+      categoryId: category.id,
+      accountId: selectedAccountId,
+      frequency,
+      startDate: keepSchedule ? rule.startDate : nextDate.toISOString(),
+      endDate: endMode === "date" ? endDate.toISOString() : undefined,
+      count: endMode === "count" ? firstIndex + count : undefined,
+      nextIndex: firstIndex,
+      paused: rule?.paused ?? false,
+    };
+
+    try {
+      await saveRecurringRule(updatedRule);
+      router.back();
+    } catch (error) {
+      console.error("Error saving recurring transaction:", error);
+      Alert.alert("Error", "Could not save the recurring transaction");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!rule) return;
+
+    Alert.alert(
+      "Delete Recurring Transaction",
+      "No more occurrences will be created. Transactions already added are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteRecurringRule(rule.id);
+              router.back();
+            } catch (error) {
+              console.error("Error deleting recurring transaction:", error);
+              Alert.alert("Error", "Could not delete recurring transaction");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text>Loading recurring transaction...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen
+        options={{
+          title: rule ? "Edit Recurring" : "New Recurring",
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView style={styles.scrollContainer}>
+        <View style={styles.toggleContainer}>
+          {(["expense", "income"] as const).map((type) => (
+            <TouchableOpacity
+              key={type}
+              style={[
+                styles.toggleButton,
+                transactionType === type ? styles.activeToggle : null,
+              ]}
+              onPress={() => setTransactionType(type)}
+            >
+              <Text
+                style={[
+                  styles.toggleText,
+                  transactionType === type ? styles.activeToggleText : null,
+                ]}
+              >
+                {type === "expense" ? "Expense" : "Income"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.formContainer}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Account</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.accountSelectorContainer}
+            >
+              {selectableAccounts.map((account) => (
+                <TouchableOpacity
+                  key={account.id}
+                  style={[
+                    styles.chip,
+                    selectedAccountId === account.id
+                      ? styles.selectedChip
+                      : null,
+                  ]}
+                  onPress={() => setSelectedAccountId(account.id)}
+                >
+                  <Ionicons
+                    name={getAccountIcon(account.type)}
+                    size={16}
+                    color={
+                      selectedAccountId === account.id ? "#1E3A8A" : "#6B7280"
+                    }
+                  />
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selectedAccountId === account.id
+                        ? styles.selectedChipText
+                        : null,
+                    ]}
+                  >
+                    {account.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>
+              {transactionType === "expense" ? "Merchant" : "Source"}
+            </Text>
+            <TextInput
+              style={styles.textInput}
+              placeholder={
+                transactionType === "expense" ? "e.g. Rent" : "e.g. Salary"
+              }
+              value={merchant}
+              onChangeText={setMerchant}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Amount</Text>
+            <TextInput
+              style={styles.textInput}
+              placeholder={formatPlainAmount(0, currency)}
+              keyboardType="decimal-pad"
+              value={amount}
+              onChangeText={setAmount}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Repeats</Text>
+            <View style={styles.chipContainer}>
+              {frequencies.map((option) => (
+                <TouchableOpacity
+                  key={option.frequency}
+                  style={[
+                    styles.chip,
+                    frequency === option.frequency ? styles.selectedChip : null,
+                  ]}
+                  onPress={() => setFrequency(option.frequency)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      frequency === option.frequency
+                        ? styles.selectedChipText
+                        : null,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>
+              {rule ? "Next Occurrence" : "First Occurrence"}
+            </Text>
+            <DateTimeField value={nextDate} onChange={setNextDate} />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Ends</Text>
+            <View style={styles.chipContainer}>
+              {endModes.map((option) => (
+                <TouchableOpacity
+                  key={option.mode}
+                  style={[
+                    styles.chip,
+                    endMode === option.mode ? styles.selectedChip : null,
+                  ]}
+                  onPress={() => setEndMode(option.mode)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      endMode === option.mode ? styles.selectedChipText : null,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {endMode === "date" && (
+              <DateTimeField value={endDate} onChange={setEndDate} />
+            )}
+            {endMode === "count" && (
+              <TextInput
+                style={styles.textInput}
+                placeholder="Number of times"
+                keyboardType="number-pad"
+                value={remainingCount}
+                onChangeText={setRemainingCount}
+              />
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Category</Text>
+          <View style={styles.categoriesContainer}>
+            {filteredCategories.map((category) => (
+              <TouchableOpacity
+                key={category.id}
+                style={[
+                  styles.categoryItem,
+                  selectedCategoryId === category.id
+                    ? styles.selectedCategory
+                    : null,
+                ]}
+                onPress={() => setSelectedCategoryId(category.id)}
+              >
+                <View style={styles.categoryIcon}>
+                  <Ionicons name={category.icon} size={22} color="#FFFFFF" />
+                </View>
+                <Text style={styles.categoryName}>{category.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {rule && (
+            <View style={styles.inputGroup}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={handleDelete}
+              >
+                <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                <Text style={styles.deleteText}>
+                  Delete Recurring Transaction
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+          <Text style={styles.submitText}>
+            {rule ? "Save Changes" : "Add Recurring Transaction"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F5F7FF",
+  },
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  toggleContainer: {
+    flexDirection: "row",
+    backgroundColor: "#E5E7EB",
+    borderRadius: 8,
+    marginVertical: 15,
+    padding: 4,
+  },
+  toggleButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: "center",
+    borderRadius: 6,
+  },
+  activeToggle: {
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 1,
+    elevation: 1,
+  },
+  toggleText: {
+    fontWeight: "500",
+    color: "#6B7280",
+  },
+  activeToggleText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  formContainer: {
+    marginTop: 10,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginBottom: 8,
+  },
+  accountSelectorContainer: {
+    marginBottom: 5,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    marginLeft: 4,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  textInput: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 15,
+  },
+  categoriesContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 20,
+  },
+  categoryItem: {
+    width: "30%",
+    alignItems: "center",
+    marginBottom: 15,
+    marginRight: "5%",
+    opacity: 0.5,
+  },
+  categoryIcon: {
+    backgroundColor: "#4F46E5",
+    width: 45,
+    height: 45,
+    borderRadius: 22.5,
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: 5,
+  },
+  selectedCategory: {
+    opacity: 1,
+  },
+  categoryName: {
+    fontSize: 12,
+    color: "#4B5563",
+    textAlign: "center",
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  deleteText: {
+    fontSize: 16,
+    marginLeft: 10,
+    color: "#EF4444",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,498 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { ruleMatches } from "@/lib/categorization";
+import {
+  CategorizationRule,
+  deleteCategorizationRule,
+  getCategorizationRule,
+  RuleMatch,
+  saveCategorizationRule,
+} from "@/lib/categorizationRepository";
+import {
+  Category,
+  CategoryType,
+  listCategories,
+} from "@/lib/categoryRepository";
+
+export default function EditRuleScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const ruleId = typeof params.id === "string" ? params.id : undefined;
+
+  const [rule, setRule] = useState<CategorizationRule | null>(null);
+  const [pattern, setPattern] = useState("");
+  const [match, setMatch] = useState<RuleMatch>("contains");
+  const [categoryType, setCategoryType] = useState<CategoryType>("expense");
+  const [selectedCategoryId, setSelectedCategoryId] = useState("");
+  // Empty when the rule leaves the account as it is
+  const [selectedAccountId, setSelectedAccountId] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(ruleId !== undefined);
+
+  useEffect(() => {
+    const loadRule = async () => {
+      try {
+        const [storedCategories, storedAccounts] = await Promise.all([
+          listCategories(),
+          listAccounts(),
+        ]);
+        setCategories(storedCategories);
+        setAccounts(storedAccounts);
+
+        if (!ruleId) return;
+
+        const storedRule = await getCategorizationRule(ruleId);
+        if (!storedRule) {
+          Alert.alert("Error", "Rule not found");
+          router.back();
+          return;
+        }
+
+        setRule(storedRule);
+        setPattern(storedRule.pattern);
+        setMatch(storedRule.match);
+        setCategoryType(
+          storedCategories.find((c) => c.id === storedRule.categoryId)?.type ??
+            "expense"
+        );
+        setSelectedCategoryId(storedRule.categoryId);
+        setSelectedAccountId(storedRule.accountId ?? "");
+        setLoading(false);
+      } catch (error) {
+        console.error("Error loading rule:", error);
+        Alert.alert("Error", "Could not load rule");
+        router.back();
+      }
+    };
+
+    loadRule();
+  }, [ruleId, router]);
+
+  const selectableAccounts = accounts.filter(
+    (account) => !account.archived || account.id === selectedAccountId
+  );
+
+  const filteredCategories = categories.filter(
+    (category) =>
+      category.type === categoryType &&
+      (!category.archived || category.id === selectedCategoryId)
+  );
+
+  const handleSubmit = async () => {
+    if (!pattern.trim()) {
+      Alert.alert("Error", "Please enter the text to look for");
+      return;
+    }
+
+    const category = categories.find((c) => c.id === selectedCategoryId);
+    if (!category || category.type !== categoryType) {
+      Alert.alert("Error", "Please select a category");
+      return;
+    }
+
+    const updatedRule: CategorizationRule = {
+      id: rule?.id ?? `rule-${Date.now()}`,
+      pattern: pattern.trim(),
+      match,
+      categoryId: category.id,
+      ...(selectedAccountId ? { accountId: selectedAccountId } : {}),
+    };
+
+    try {
+      await saveCategorizationRule(updatedRule);
+      router.back();
+    } catch (error) {
+      console.error("Error saving rule:", error);
+      Alert.alert("Error", "Could not save the rule");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!rule) return;
+
+    Alert.alert(
+      "Delete Rule",
+      "Transactions it already categorized are kept as they are.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteCategorizationRule(rule.id);
+              router.back();
+            } catch (error) {
+              console.error("Error deleting rule:", error);
+              Alert.alert("Error", "Could not delete the rule");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text>Loading rule...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen
+        options={{
+          title: rule ? "Edit Rule" : "New Rule",
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView style={styles.scrollContainer}>
+        <View style={styles.formContainer}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>When the Merchant</Text>
+            <View style={styles.chipContainer}>
+              {ruleMatches.map((option) => (
+                <TouchableOpacity
+                  key={option.match}
+                  style={[
+                    styles.chip,
+                    match === option.match ? styles.selectedChip : null,
+                  ]}
+                  onPress={() => setMatch(option.match)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      match === option.match ? styles.selectedChipText : null,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.textInput}
+              placeholder="e.g. Hydro"
+              value={pattern}
+              onChangeText={setPattern}
+            />
+            <Text style={styles.hintText}>
+              Case and extra spaces are ignored. When several rules match, the
+              one with the longest text wins.
+            </Text>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Use Account</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.accountSelectorContainer}
+            >
+              <TouchableOpacity
+                style={[
+                  styles.chip,
+                  selectedAccountId === "" ? styles.selectedChip : null,
+                ]}
+                onPress={() => setSelectedAccountId("")}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    selectedAccountId === "" ? styles.selectedChipText : null,
+                  ]}
+                >
+                  Don't change
+                </Text>
+              </TouchableOpacity>
+              {selectableAccounts.map((account) => (
+                <TouchableOpacity
+                  key={account.id}
+                  style={[
+                    styles.chip,
+                    selectedAccountId === account.id
+                      ? styles.selectedChip
+                      : null,
+                  ]}
+                  onPress={() => setSelectedAccountId(account.id)}
+                >
+                  <Ionicons
+                    name={getAccountIcon(account.type)}
+                    size={16}
+                    color={
+                      selectedAccountId === account.id ? "#1E3A8A" : "#6B7280"
+                    }
+                  />
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selectedAccountId === account.id
+                        ? styles.selectedChipText
+                        : null,
+                    ]}
+                  >
+                    {account.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <Text style={styles.hintText}>
+              Only used on the add screen; imports stay in the account you
+              import into.
+            </Text>
+          </View>
+
+          <Text style={styles.sectionTitle}>Use Category</Text>
+          <View style={styles.toggleContainer}>
+            {(["expense", "income"] as const).map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[
+                  styles.toggleButton,
+                  categoryType === type ? styles.activeToggle : null,
+                ]}
+                onPress={() => setCategoryType(type)}
+              >
+                <Text
+                  style={[
+                    styles.toggleText,
+                    categoryType === type ? styles.activeToggleText : null,
+                  ]}
+                >
+                  {type === "expense" ? "Expense" : "Income"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.categoriesContainer}>
+            {filteredCategories.map((category) => (
+              <TouchableOpacity
+                key={category.id}
+                style={[
+                  styles.categoryItem,
+                  selectedCategoryId === category.id
+                    ? styles.selectedCategory
+                    : null,
+                ]}
+                onPress={() => setSelectedCategoryId(category.id)}
+              >
+                <View style={styles.categoryIcon}>
+                  <Ionicons name={category.icon} size={22} color="#FFFFFF" />
+                </View>
+                <Text style={styles.categoryName}>{category.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {rule && (
+            <View style={styles.inputGroup}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={handleDelete}
+              >
+                <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                <Text style={styles.deleteText}>Delete Rule</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+          <Text style={styles.submitText}>
+            {rule ? "Save Changes" : "Add Rule"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F5F7FF",
+  },
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  formContainer: {
+    marginTop: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginBottom: 8,
+  },
+  accountSelectorContainer: {
+    marginBottom: 5,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    marginLeft: 4,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  textInput: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 6,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 10,
+  },
+  toggleContainer: {
+    flexDirection: "row",
+    backgroundColor: "#E5E7EB",
+    borderRadius: 8,
+    marginBottom: 15,
+    padding: 4,
+  },
+  toggleButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: "center",
+    borderRadius: 6,
+  },
+  activeToggle: {
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 1,
+    elevation: 1,
+  },
+  toggleText: {
+    fontWeight: "500",
+    color: "#6B7280",
+  },
+  activeToggleText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  categoriesContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 20,
+  },
+  categoryItem: {
+    width: "30%",
+    alignItems: "center",
+    marginBottom: 15,
+    marginRight: "5%",
+    opacity: 0.5,
+  },
+  categoryIcon: {
+    backgroundColor: "#4F46E5",
+    width: 45,
+    height: 45,
+    borderRadius: 22.5,
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: 5,
+  },
+  selectedCategory: {
+    opacity: 1,
+  },
+  categoryName: {
+    fontSize: 12,
+    color: "#4B5563",
+    textAlign: "center",
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  deleteText: {
+    fontSize: 16,
+    marginLeft: 10,
+    color: "#EF4444",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
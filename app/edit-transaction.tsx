@@ -1,6 +1,10 @@
 import { Ionicons } from "@expo/vector-icons";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import {
+  Stack,
+  useFocusEffect,
+  useLocalSearchParams,
+  useRouter,
+} from "expo-router";
 import React, { useEffect, useState } from "react";
 import {
   Alert,
@@ -14,79 +18,39 @@ import {
   View,
 } from "react-native";
 
-type IconName = React.ComponentProps<typeof Ionicons>["name"];
-
-interface Category {
-  id: string;
-  name: string;
-  icon: IconName;
-  type: "income" | "expense";
-}
-
-interface Account {
-  id: string;
-  name: string;
-  type: "chequing" | "savings";
-}
-
-export interface TransactionData {
-  id: number;
-  merchant: string;
-  amount: number;
-  date: string;
-  icon: IconName;
-  accountId: string;
-}
-
-const categories: Category[] = [
-  { id: "salary", name: "Salary", icon: "cash-outline", type: "income" },
-  {
-    id: "freelance",
-    name: "Freelance",
-    icon: "briefcase-outline",
-    type: "income",
-  },
-  {
-    id: "investment",
-    name: "Investment",
-    icon: "trending-up-outline",
-    type: "income",
-  },
-  {
-    id: "interest",
-    name: "Interest",
-    icon: "analytics-outline",
-    type: "income",
-  },
-  { id: "gift", name: "Gift", icon: "gift-outline", type: "income" },
-  { id: "food", name: "Food", icon: "restaurant-outline", type: "expense" },
-  { id: "transport", name: "Transport", icon: "car-outline", type: "expense" },
-  { id: "shopping", name: "Shopping", icon: "cart-outline", type: "expense" },
-  {
-    id: "bills",
-    name: "Bills",
-    icon: "document-text-outline",
-    type: "expense",
-  },
-  {
-    id: "entertainment",
-    name: "Entertainment",
-    icon: "film-outline",
-    type: "expense",
-  },
-  { id: "health", name: "Health", icon: "medical-outline", type: "expense" },
-];
-
-const accounts: Account[] = [
-  { id: "chequing", name: "Chequing Account", type: "chequing" },
-  { id: "savings", name: "Savings Account", type: "savings" },
-];
+import { DateTimeField } from "@/components/DateTimeField";
+import { MerchantInput } from "@/components/MerchantInput";
+import { ReceiptDraft, ReceiptPicker } from "@/components/ReceiptPicker";
+import {
+  createSplitDraft,
+  readSplitDrafts,
+  SplitDraft,
+  SplitEditor,
+  splitDraftsFrom,
+} from "@/components/SplitEditor";
+import { DEFAULT_CURRENCY, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { merchantsInUse } from "@/lib/merchants";
+import { formatPlainAmount, parseMoney } from "@/lib/money";
+import { receiptUri, removeUnusedReceipts, saveReceipt } from "@/lib/receipts";
+import { formatTags, parseTags, tagsInUse } from "@/lib/tags";
+import {
+  applyEdits,
+  applySplits,
+  getStatus,
+  getTransaction,
+  listTransactions,
+  splitError,
+  Transaction,
+  updateTransaction,
+} from "@/lib/transactionRepository";
 
 export default function EditTransactionScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
 
-  const [transaction, setTransaction] = useState<TransactionData | null>(null);
+  const [transaction, setTransaction] = useState<Transaction | null>(null);
   const [transactionType, setTransactionType] = useState<"income" | "expense">(
     "expense"
   );
@@ -95,51 +59,142 @@ export default function EditTransactionScreen() {
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(
     null
   );
-  const [selectedAccountId, setSelectedAccountId] =
-    useState<string>("chequing");
+  const [selectedAccountId, setSelectedAccountId] = useState<string>("");
+  // Null unless the amount is being split between categories
+  const [splitLines, setSplitLines] = useState<SplitDraft[] | null>(null);
+  const [date, setDate] = useState(() => new Date());
+  const [note, setNote] = useState("");
+  const [tagsText, setTagsText] = useState("");
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [merchants, setMerchants] = useState<string[]>([]);
+  const [receipts, setReceipts] = useState<ReceiptDraft[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
 
   useEffect(() => {
-    if (params.transaction) {
+    const loadTransaction = async (id: number) => {
       try {
-        const loadedTransaction = JSON.parse(
-          params.transaction as string
-        ) as TransactionData;
+        const loadedTransaction = await getTransaction(id);
+        if (!loadedTransaction) {
+          Alert.alert("Error", "Transaction not found");
+          router.back();
+          return;
+        }
+        if (loadedTransaction.transferId) {
+          // Transfers are edited as a pair on their own screen
+          router.replace({
+            pathname: "/transfer",
+            params: { id: loadedTransaction.transferId },
+          });
+          return;
+        }
         setTransaction(loadedTransaction);
 
+        const storedAccounts = await listAccounts();
+        setAccounts(storedAccounts);
+
         // Set initial values from transaction
         setMerchant(loadedTransaction.merchant);
-        setAmount(Math.abs(loadedTransaction.amount).toString());
+        setAmount(
+          formatPlainAmount(
+            Math.abs(loadedTransaction.amount),
+            storedAccounts.find((a) => a.id === loadedTransaction.accountId)
+              ?.currency ?? DEFAULT_CURRENCY
+          )
+        );
         setTransactionType(
           loadedTransaction.amount >= 0 ? "income" : "expense"
         );
-        setSelectedAccountId(loadedTransaction.accountId || "chequing");
-
-        // Find matching category based on icon
-        const matchingCategory = categories.find(
-          (cat) =>
-            cat.icon === loadedTransaction.icon &&
-            cat.type === (loadedTransaction.amount >= 0 ? "income" : "expense")
+        setSelectedAccountId(loadedTransaction.accountId);
+        setDate(new Date(loadedTransaction.date));
+        setNote(loadedTransaction.note ?? "");
+        setTagsText(formatTags(loadedTransaction.tags ?? []));
+        setReceipts(
+          (loadedTransaction.receipts ?? []).map((name) => ({
+            name,
+            uri: receiptUri(name),
+          }))
         );
-
-        if (matchingCategory) {
-          setSelectedCategory(matchingCategory);
+        const storedTransactions = await listTransactions();
+        setTagSuggestions(tagsInUse(storedTransactions));
+        setMerchants(merchantsInUse(storedTransactions));
+        if (loadedTransaction.splits) {
+          setSplitLines(
+            splitDraftsFrom(
+              loadedTransaction.splits,
+              storedAccounts.find((a) => a.id === loadedTransaction.accountId)
+                ?.currency ?? DEFAULT_CURRENCY
+            )
+          );
         }
+
+        const storedCategories = await listCategories();
+        setCategories(storedCategories);
+        setSelectedCategory(
+          storedCategories.find(
+            (category) => category.id === loadedTransaction.categoryId
+          ) ?? null
+        );
       } catch (error) {
-        console.error("Error parsing transaction:", error);
+        console.error("Error loading transaction:", error);
         Alert.alert("Error", "Could not load transaction details");
         router.back();
       }
+    };
+
+    if (params.id && typeof params.id === "string") {
+      loadTransaction(Number(params.id));
     } else {
-      // No transaction data provided
+      // No transaction id provided
       Alert.alert("Error", "No transaction to edit");
       router.back();
     }
-  }, [params.transaction]);
+  }, [params.id, router]);
+
+  // Reload on focus so changes made in the category manager show up
+  useFocusEffect(
+    React.useCallback(() => {
+      listCategories()
+        .then((storedCategories) => {
+          setCategories(storedCategories);
+          setSelectedCategory(
+            (current) =>
+              storedCategories.find((c) => c.id === current?.id) ?? null
+          );
+        })
+        .catch((error) => console.error("Error loading categories:", error));
+    }, [])
+  );
+
+  const currency =
+    accounts.find((account) => account.id === selectedAccountId)?.currency ??
+    DEFAULT_CURRENCY;
+
+  const selectableAccounts = accounts.filter(
+    (account) => !account.archived || account.id === selectedAccountId
+  );
 
   const filteredCategories = categories.filter(
-    (category) => category.type === transactionType
+    (category) =>
+      category.type === transactionType &&
+      (!category.archived ||
+        category.id === selectedCategory?.id ||
+        splitLines?.some((line) => line.categoryId === category.id))
   );
 
+  const startSplit = () =>
+    setSplitLines([
+      createSplitDraft(selectedCategory?.id ?? null, amount),
+      createSplitDraft(),
+    ]);
+
+  const stopSplit = () => {
+    setSelectedCategory(
+      categories.find((c) => c.id === splitLines?.[0]?.categoryId) ?? null
+    );
+    setSplitLines(null);
+  };
+
   const handleSubmit = async () => {
     if (!transaction) return;
 
@@ -148,63 +203,107 @@ export default function EditTransactionScreen() {
       return;
     }
 
-    if (!amount.trim() || isNaN(parseFloat(amount))) {
+    const account = accounts.find((a) => a.id === selectedAccountId);
+    if (!account) {
+      Alert.alert("Error", "Please select an account");
+      return;
+    }
+
+    const minorUnits = parseMoney(amount, account.currency);
+    if (minorUnits === null) {
       Alert.alert("Error", "Please enter a valid amount");
       return;
     }
 
-    if (!selectedCategory) {
+    const signedAmount =
+      transactionType === "expense"
+        ? -Math.abs(minorUnits)
+        : Math.abs(minorUnits);
+    const splits =
+      splitLines &&
+      readSplitDrafts(
+        splitLines,
+        account.currency,
+        transactionType === "expense" ? -1 : 1
+      );
+    if (splitLines) {
+      if (
+        !splits ||
+        !splits.every(
+          (split) =>
+            categories.find((c) => c.id === split.categoryId)?.type ===
+            transactionType
+        )
+      ) {
+        Alert.alert(
+          "Error",
+          "Please choose a category and amount for every split line"
+        );
+        return;
+      }
+      const error = splitError(signedAmount, splits);
+      if (error) {
+        Alert.alert("Error", error);
+        return;
+      }
+    } else if (!selectedCategory || selectedCategory.type !== transactionType) {
       Alert.alert("Error", "Please select a category");
       return;
     }
 
-    const updatedTransaction: TransactionData = {
-      id: transaction.id,
-      merchant: merchant.trim(),
-      amount:
-        transactionType === "expense"
-          ? -Math.abs(parseFloat(amount))
-          : Math.abs(parseFloat(amount)),
-      date: transaction.date, // Keep the original date
-      icon: selectedCategory.icon,
-      accountId: selectedAccountId,
-    };
+    const tags = parseTags(tagsText);
 
-    try {
-      const existingTransactionsStr = await AsyncStorage.getItem(
-        "transactions"
-      );
-      const existingTransactions = existingTransactionsStr
-        ? JSON.parse(existingTransactionsStr)
-        : [];
-
-      // Replace the old transaction with the updated one
-      const updatedTransactions = existingTransactions.map(
-        (t: TransactionData) =>
-          t.id === updatedTransaction.id ? updatedTransaction : t
-      );
+    const save = async () => {
+      try {
+        // Newly picked images are copied into the app's documents on save
+        const receiptNames = await Promise.all(
+          receipts.map((receipt) => receipt.name ?? saveReceipt(receipt.uri))
+        );
+        const base = applyEdits(transaction, {
+          merchant: merchant.trim(),
+          amount: signedAmount,
+          date: date.toISOString(),
+          categoryId: splits ? splits[0].categoryId : selectedCategory!.id,
+          accountId: selectedAccountId,
+          ...(note.trim() ? { note: note.trim() } : {}),
+          ...(tags.length > 0 ? { tags } : {}),
+          ...(receiptNames.length > 0 ? { receipts: receiptNames } : {}),
+        });
+        await updateTransaction(splits ? applySplits(base, splits) : base);
+        removeUnusedReceipts().catch((error) =>
+          console.error("Error removing unused receipts:", error)
+        );
 
-      await AsyncStorage.setItem(
-        "transactions",
-        JSON.stringify(updatedTransactions)
-      );
+        Alert.alert("Success", "Transaction updated successfully", [
+          {
+            text: "OK",
+            onPress: () => router.back(),
+          },
+        ]);
+      } catch (error) {
+        console.error("Error updating transaction:", error);
+
+        Alert.alert("Error", "Could not update the transaction", [
+          {
+            text: "OK",
+            onPress: () => router.back(),
+          },
+        ]);
+      }
+    };
 
-      Alert.alert("Success", "Transaction updated successfully", [
-        {
-          text: "OK",
-          onPress: () => router.back(),
-        },
-      ]);
-    } catch (error) {
-      console.error("Error updating transaction:", error);
-
-      Alert.alert("Error", "Could not update the transaction", [
-        {
-          text: "OK",
-          onPress: () => router.back(),
-        },
-      ]);
+    if (getStatus(transaction) === "reconciled") {
+      Alert.alert(
+        "Edit Reconciled Transaction",
+        "This transaction has been reconciled against a bank statement. Changing it can put the account out of balance with that statement.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Save Changes", style: "destructive", onPress: save },
+        ]
+      );
+      return;
     }
+    save();
   };
 
   if (!transaction) {
@@ -227,7 +326,10 @@ export default function EditTransactionScreen() {
         }}
       />
 
-      <ScrollView style={styles.scrollContainer}>
+      <ScrollView
+        style={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
         <View style={styles.toggleContainer}>
           <TouchableOpacity
             style={[
@@ -266,8 +368,12 @@ export default function EditTransactionScreen() {
         <View style={styles.formContainer}>
           <View style={styles.inputGroup}>
             <Text style={styles.inputLabel}>Account</Text>
-            <View style={styles.accountSelectorContainer}>
-              {accounts.map((account) => (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.accountSelectorContainer}
+            >
+              {selectableAccounts.map((account) => (
                 <TouchableOpacity
                   key={account.id}
                   style={[
@@ -279,11 +385,7 @@ export default function EditTransactionScreen() {
                   onPress={() => setSelectedAccountId(account.id)}
                 >
                   <Ionicons
-                    name={
-                      account.type === "chequing"
-                        ? "wallet-outline"
-                        : "save-outline"
-                    }
+                    name={getAccountIcon(account.type)}
                     size={20}
                     color={
                       selectedAccountId === account.id ? "#1E3A8A" : "#6B7280"
@@ -301,14 +403,14 @@ export default function EditTransactionScreen() {
                   </Text>
                 </TouchableOpacity>
               ))}
-            </View>
+            </ScrollView>
           </View>
 
           <View style={styles.inputGroup}>
             <Text style={styles.inputLabel}>
               {transactionType === "expense" ? "Merchant" : "Source"}
             </Text>
-            <TextInput
+            <MerchantInput
               style={styles.textInput}
               placeholder={
                 transactionType === "expense"
@@ -317,6 +419,7 @@ export default function EditTransactionScreen() {
               }
               value={merchant}
               onChangeText={setMerchant}
+              merchants={merchants}
             />
           </View>
 
@@ -324,38 +427,109 @@ export default function EditTransactionScreen() {
             <Text style={styles.inputLabel}>Amount</Text>
             <TextInput
               style={styles.textInput}
-              placeholder="0.00"
+              placeholder={formatPlainAmount(0, currency)}
               keyboardType="decimal-pad"
               value={amount}
               onChangeText={setAmount}
             />
           </View>
 
-          <Text style={styles.sectionTitle}>Category</Text>
-          <View style={styles.categoriesContainer}>
-            {filteredCategories.map((category) => (
-              <TouchableOpacity
-                key={category.id}
-                style={[
-                  styles.categoryItem,
-                  selectedCategory?.id === category.id
-                    ? styles.selectedCategory
-                    : null,
-                ]}
-                onPress={() => setSelectedCategory(category)}
-              >
-                <View style={styles.categoryIcon}>
-                  <Ionicons name={category.icon} size={22} color="#FFFFFF" />
-                </View>
-                <Text style={styles.categoryName}>{category.name}</Text>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Date</Text>
+            <DateTimeField value={date} onChange={setDate} />
+          </View>
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Category</Text>
+            <View style={styles.sectionActions}>
+              <TouchableOpacity onPress={splitLines ? stopSplit : startSplit}>
+                <Text style={styles.manageText}>
+                  {splitLines ? "Don't Split" : "Split"}
+                </Text>
               </TouchableOpacity>
-            ))}
+              <TouchableOpacity onPress={() => router.push("/categories")}>
+                <Text style={[styles.manageText, styles.sectionAction]}>
+                  Manage
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+          {splitLines ? (
+            <SplitEditor
+              lines={splitLines}
+              onChange={setSplitLines}
+              categories={filteredCategories}
+              currency={currency}
+              total={parseMoney(amount, currency)}
+            />
+          ) : (
+            <View style={styles.categoriesContainer}>
+              {filteredCategories.map((category) => (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[
+                    styles.categoryItem,
+                    selectedCategory?.id === category.id
+                      ? styles.selectedCategory
+                      : null,
+                  ]}
+                  onPress={() => setSelectedCategory(category)}
+                >
+                  <View style={styles.categoryIcon}>
+                    <Ionicons name={category.icon} size={22} color="#FFFFFF" />
+                  </View>
+                  <Text style={styles.categoryName}>{category.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Note</Text>
+            <TextInput
+              style={[styles.textInput, styles.noteInput]}
+              placeholder="Anything worth remembering"
+              multiline
+              value={note}
+              onChangeText={setNote}
+            />
           </View>
 
-          <View style={styles.dateContainer}>
-            <Text style={styles.inputLabel}>Date</Text>
-            <Text style={styles.dateText}>{transaction.date}</Text>
-            <Text style={styles.dateHint}>Date cannot be changed</Text>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Tags</Text>
+            <TextInput
+              style={styles.textInput}
+              placeholder="e.g. holiday, tax deductible"
+              autoCapitalize="none"
+              value={tagsText}
+              onChangeText={setTagsText}
+            />
+            <View style={styles.tagSuggestions}>
+              {tagSuggestions
+                .filter(
+                  (tag) =>
+                    !parseTags(tagsText).some(
+                      (t) => t.toLowerCase() === tag.toLowerCase()
+                    )
+                )
+                .slice(0, 8)
+                .map((tag) => (
+                  <TouchableOpacity
+                    key={tag}
+                    style={styles.tagChip}
+                    onPress={() =>
+                      setTagsText(formatTags([...parseTags(tagsText), tag]))
+                    }
+                  >
+                    <Text style={styles.tagChipText}>+ {tag}</Text>
+                  </TouchableOpacity>
+                ))}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Receipts</Text>
+            <ReceiptPicker receipts={receipts} onChange={setReceipts} />
           </View>
         </View>
       </ScrollView>
@@ -426,8 +600,6 @@ const styles = StyleSheet.create({
     marginBottom: 8,
   },
   accountSelectorContainer: {
-    flexDirection: "row",
-    justifyContent: "space-between",
     marginBottom: 5,
   },
   accountOption: {
@@ -437,8 +609,7 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     paddingHorizontal: 15,
     borderRadius: 8,
-    flex: 1,
-    marginHorizontal: 5,
+    marginRight: 10,
   },
   selectedAccountOption: {
     backgroundColor: "#E0E7FF",
@@ -454,6 +625,27 @@ const styles = StyleSheet.create({
     color: "#1E3A8A",
     fontWeight: "bold",
   },
+  noteInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  tagSuggestions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 8,
+  },
+  tagChip: {
+    backgroundColor: "#E0E7FF",
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  tagChipText: {
+    fontSize: 13,
+    color: "#1E3A8A",
+  },
   textInput: {
     backgroundColor: "#FFFFFF",
     borderWidth: 1,
@@ -462,11 +654,27 @@ const styles = StyleSheet.create({
     padding: 12,
     fontSize: 16,
   },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 15,
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: "600",
     color: "#374151",
-    marginBottom: 15,
+  },
+  sectionActions: {
+    flexDirection: "row",
+  },
+  sectionAction: {
+    marginLeft: 16,
+  },
+  manageText: {
+    fontSize: 14,
+    color: "#1E3A8A",
+    fontWeight: "500",
   },
   categoriesContainer: {
     flexDirection: "row",
@@ -496,22 +704,6 @@ const styles = StyleSheet.create({
     color: "#4B5563",
     textAlign: "center",
   },
-  dateContainer: {
-    marginVertical: 20,
-  },
-  dateText: {
-    fontSize: 16,
-    color: "#1F2937",
-    padding: 12,
-    backgroundColor: "#F3F4F6",
-    borderRadius: 8,
-  },
-  dateHint: {
-    fontSize: 12,
-    color: "#6B7280",
-    marginTop: 4,
-    fontStyle: "italic",
-  },
   submitContainer: {
     paddingHorizontal: 20,
     paddingVertical: 15,
@@ -0,0 +1,250 @@
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { currencies, DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { listAccounts } from "@/lib/accountRepository";
+import {
+  getExchangeRates,
+  saveExchangeRates,
+} from "@/lib/exchangeRateRepository";
+import { formatRate, parseRate, rebaseRates } from "@/lib/exchangeRates";
+
+export default function ExchangeRatesScreen() {
+  const router = useRouter();
+  const [homeCurrency, setHomeCurrency] = useState(DEFAULT_CURRENCY);
+  const [accountCurrencies, setAccountCurrencies] = useState<string[]>([]);
+  // Rate text per currency, always relative to `homeCurrency`
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    Promise.all([getExchangeRates(), listAccounts()])
+      .then(([storedRates, accounts]) => {
+        setHomeCurrency(storedRates.homeCurrency);
+        setAccountCurrencies(accounts.map((account) => account.currency));
+        setDrafts(toDrafts(storedRates.rates));
+      })
+      .catch((error) => {
+        console.error("Error loading exchange rates:", error);
+        Alert.alert("Error", "Could not load exchange rates");
+      });
+  }, []);
+
+  const toDrafts = (rates: Record<string, number>) => {
+    const text: Record<string, string> = {};
+    Object.entries(rates).forEach(([currency, rate]) => {
+      text[currency] = formatRate(rate);
+    });
+    return text;
+  };
+
+  // Valid drafts only; blank or unreadable ones count as unknown rates
+  const parsedRates = () => {
+    const rates: Record<string, number> = {};
+    Object.entries(drafts).forEach(([currency, text]) => {
+      const rate = parseRate(text);
+      if (currency !== homeCurrency && rate !== null) {
+        rates[currency] = rate;
+      }
+    });
+    return rates;
+  };
+
+  const changeHomeCurrency = (currency: string) => {
+    if (currency === homeCurrency) return;
+    const rebased = rebaseRates(
+      { homeCurrency, rates: parsedRates() },
+      currency
+    );
+    setHomeCurrency(currency);
+    setDrafts(toDrafts(rebased.rates));
+  };
+
+  const allCurrencies = Array.from(
+    new Set([...currencies, ...accountCurrencies])
+  );
+  const otherCurrencies = allCurrencies.filter((c) => c !== homeCurrency);
+
+  const handleSubmit = async () => {
+    const invalid = otherCurrencies.find(
+      (currency) => drafts[currency]?.trim() && !parseRate(drafts[currency])
+    );
+    if (invalid) {
+      Alert.alert("Error", `Please enter a valid rate for ${invalid}`);
+      return;
+    }
+
+    try {
+      await saveExchangeRates({ homeCurrency, rates: parsedRates() });
+      Alert.alert("Success", "Exchange rates saved successfully", [
+        {
+          text: "OK",
+          onPress: () => router.back(),
+        },
+      ]);
+    } catch (error) {
+      console.error("Error saving exchange rates:", error);
+      Alert.alert("Error", "Could not save exchange rates");
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen options={{ title: "Exchange Rates", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        <Text style={styles.label}>Home Currency</Text>
+        <View style={styles.chipContainer}>
+          {allCurrencies.map((currency) => (
+            <TouchableOpacity
+              key={currency}
+              style={[
+                styles.chip,
+                homeCurrency === currency ? styles.selectedChip : null,
+              ]}
+              onPress={() => changeHomeCurrency(currency)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  homeCurrency === currency ? styles.selectedChipText : null,
+                ]}
+              >
+                {currency}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.hintText}>
+          Totals across accounts are shown in {homeCurrency}. Rates are only
+          stored on this device; leave one blank if you do not need it.
+        </Text>
+
+        {otherCurrencies.map((currency) => (
+          <View key={currency} style={styles.rateItem}>
+            <Text style={styles.rateText}>1 {currency} =</Text>
+            <TextInput
+              style={styles.rateInput}
+              placeholder="Rate"
+              keyboardType="decimal-pad"
+              value={drafts[currency] ?? ""}
+              onChangeText={(text) =>
+                setDrafts((current) => ({ ...current, [currency]: text }))
+              }
+            />
+            <Text style={styles.rateText}>{homeCurrency}</Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+          <Text style={styles.submitText}>Save Rates</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  hintText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginVertical: 15,
+  },
+  rateItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+  },
+  rateText: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+  },
+  rateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 8,
+    marginHorizontal: 10,
+    fontSize: 16,
+    textAlign: "right",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,545 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_CURRENCY, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { CategorizationRule, categorizeImport } from "@/lib/categorization";
+import { listCategorizationRules } from "@/lib/categorizationRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { parseCsv } from "@/lib/csv";
+import { formatTransactionDate } from "@/lib/dates";
+import { findDuplicates } from "@/lib/duplicates";
+import { formatAmount } from "@/lib/money";
+import {
+  ColumnMapping,
+  guessColumnMapping,
+  ImportField,
+  importFields,
+  ImportRow,
+  parseImportRows,
+} from "@/lib/transactionCsv";
+import {
+  addTransactions,
+  listTransactions,
+  Transaction,
+} from "@/lib/transactionRepository";
+
+// Rendering every row of a large statement would make the preview sluggish
+const PREVIEW_LIMIT = 50;
+
+export default function ImportCsvScreen() {
+  const router = useRouter();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [existing, setExisting] = useState<Transaction[]>([]);
+  const [accountId, setAccountId] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      listAccounts(),
+      listCategories(),
+      listCategorizationRules(),
+      listTransactions(),
+    ])
+      .then(
+        ([
+          storedAccounts,
+          storedCategories,
+          storedRules,
+          storedTransactions,
+        ]) => {
+          setAccounts(storedAccounts.filter((account) => !account.archived));
+          setCategories(storedCategories);
+          setRules(storedRules);
+          setExisting(storedTransactions);
+          setAccountId(
+            storedAccounts.find((account) => !account.archived)?.id ?? ""
+          );
+        }
+      )
+      .catch((error) => console.error("Error loading import data:", error));
+  }, []);
+
+  const currency =
+    accounts.find((account) => account.id === accountId)?.currency ??
+    DEFAULT_CURRENCY;
+  const rows = useMemo(
+    () =>
+      parseImportRows(dataRows, mapping, accountId, currency, categories).map(
+        (row) =>
+          row.transaction
+            ? {
+                ...row,
+                transaction: categorizeImport(
+                  row.transaction,
+                  rules,
+                  categories
+                ),
+              }
+            : row
+      ),
+    [dataRows, mapping, accountId, currency, categories, rules]
+  );
+  const validRows = rows.filter((row) => row.transaction);
+  const errorRows = rows.filter((row) => row.error);
+  // Rows that look like transactions already stored, e.g. from an
+  // overlapping statement imported before
+  const duplicateLines = useMemo(
+    () =>
+      new Set(
+        rows
+          .filter(
+            (row) =>
+              row.transaction &&
+              findDuplicates(row.transaction, existing).length > 0
+          )
+          .map((row) => row.line)
+      ),
+    [rows, existing]
+  );
+  const missingFields = importFields.filter(
+    ({ field, required }) => required && mapping[field] === undefined
+  );
+
+  const pickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["text/csv", "text/comma-separated-values", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const file = result.assets[0];
+      const parsed = parseCsv(await FileSystem.readAsStringAsync(file.uri));
+      if (parsed.length < 2) {
+        Alert.alert("Error", "The file has no transactions to import");
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(parsed[0]);
+      setDataRows(parsed.slice(1));
+      setMapping(guessColumnMapping(parsed[0]));
+    } catch (error) {
+      console.error("Error reading CSV file:", error);
+      Alert.alert("Error", "Could not read the file");
+    }
+  };
+
+  const setColumn = (field: ImportField, column: number | undefined) => {
+    setMapping((current) => ({ ...current, [field]: column }));
+  };
+
+  const handleImport = async () => {
+    if (missingFields.length > 0) {
+      Alert.alert(
+        "Error",
+        `Please choose a column for ${missingFields
+          .map(({ label }) => label)
+          .join(", ")}`
+      );
+      return;
+    }
+
+    if (!accounts.some((account) => account.id === accountId)) {
+      Alert.alert("Error", "Please select an account");
+      return;
+    }
+
+    if (validRows.length === 0) {
+      Alert.alert("Error", "None of the rows can be imported");
+      return;
+    }
+
+    if (duplicateLines.size > 0) {
+      Alert.alert(
+        "Possible Duplicates",
+        `${duplicateLines.size} of these look like transactions already saved.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Import All", onPress: () => importRows(validRows) },
+          {
+            text: "Skip Them",
+            onPress: () =>
+              importRows(
+                validRows.filter((row) => !duplicateLines.has(row.line))
+              ),
+          },
+        ]
+      );
+      return;
+    }
+
+    await importRows(validRows);
+  };
+
+  const importRows = async (selectedRows: ImportRow[]) => {
+    setImporting(true);
+    try {
+      const created = await addTransactions(
+        selectedRows.map((row) => row.transaction!)
+      );
+      const skippedCount = rows.length - selectedRows.length;
+      const skipped =
+        skippedCount > 0 ? ` ${skippedCount} rows were skipped.` : "";
+      Alert.alert(
+        "Success",
+        `Imported ${created.length} transactions.${skipped}`,
+        [
+          {
+            text: "OK",
+            onPress: () => router.back(),
+          },
+        ]
+      );
+    } catch (error) {
+      console.error("Error importing transactions:", error);
+      Alert.alert("Error", "Could not import transactions");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Import CSV", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        <TouchableOpacity style={styles.fileButton} onPress={pickFile}>
+          <Ionicons name="document-text-outline" size={22} color="#1E3A8A" />
+          <Text style={styles.fileButtonText}>
+            {fileName ?? "Choose a CSV file"}
+          </Text>
+        </TouchableOpacity>
+
+        {fileName && (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Import Into</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {accounts.map((account) => (
+                  <TouchableOpacity
+                    key={account.id}
+                    style={[
+                      styles.chip,
+                      accountId === account.id ? styles.selectedChip : null,
+                    ]}
+                    onPress={() => setAccountId(account.id)}
+                  >
+                    <Ionicons
+                      name={getAccountIcon(account.type)}
+                      size={16}
+                      color={accountId === account.id ? "#1E3A8A" : "#6B7280"}
+                    />
+                    <Text
+                      style={[
+                        styles.chipText,
+                        accountId === account.id
+                          ? styles.selectedChipText
+                          : null,
+                      ]}
+                    >
+                      {account.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Columns</Text>
+              <Text style={styles.summaryText}>
+                Dates must be written as 2025-03-25, or as full timestamps like
+                the ones in our export.
+              </Text>
+              {importFields.map(({ field, label, required }) => (
+                <View key={field} style={styles.mappingRow}>
+                  <Text style={styles.mappingLabel}>
+                    {label}
+                    {required ? "" : " (optional)"}
+                  </Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {!required && (
+                      <TouchableOpacity
+                        style={[
+                          styles.chip,
+                          mapping[field] === undefined
+                            ? styles.selectedChip
+                            : null,
+                        ]}
+                        onPress={() => setColumn(field, undefined)}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            mapping[field] === undefined
+                              ? styles.selectedChipText
+                              : null,
+                          ]}
+                        >
+                          None
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    {headers.map((header, column) => (
+                      <TouchableOpacity
+                        key={column}
+                        style={[
+                          styles.chip,
+                          mapping[field] === column
+                            ? styles.selectedChip
+                            : null,
+                        ]}
+                        onPress={() => setColumn(field, column)}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            mapping[field] === column
+                              ? styles.selectedChipText
+                              : null,
+                          ]}
+                        >
+                          {header || `Column ${column + 1}`}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </View>
+              ))}
+            </View>
+
+            {missingFields.length === 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Preview</Text>
+                <Text style={styles.summaryText}>
+                  {validRows.length} ready to import
+                  {errorRows.length > 0
+                    ? `, ${errorRows.length} with errors`
+                    : ""}
+                  {duplicateLines.size > 0
+                    ? `, ${duplicateLines.size} possible duplicates`
+                    : ""}
+                </Text>
+
+                {errorRows.map((row) => (
+                  <Text key={row.line} style={styles.errorText}>
+                    Line {row.line}: {row.error}
+                  </Text>
+                ))}
+
+                {validRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <View key={row.line} style={styles.previewRow}>
+                    <View style={styles.previewDetails}>
+                      <Text style={styles.previewMerchant}>
+                        {row.transaction!.merchant}
+                      </Text>
+                      <Text style={styles.previewMeta}>
+                        {formatTransactionDate(row.transaction!.date)} ·{" "}
+                        {categories.find(
+                          (c) => c.id === row.transaction!.categoryId
+                        )?.name ?? ""}
+                      </Text>
+                      {duplicateLines.has(row.line) && (
+                        <Text style={styles.duplicateText}>
+                          Possible duplicate
+                        </Text>
+                      )}
+                    </View>
+                    <Text
+                      style={[
+                        styles.previewAmount,
+                        row.transaction!.amount < 0
+                          ? styles.negativeAmount
+                          : styles.positiveAmount,
+                      ]}
+                    >
+                      {formatAmount(row.transaction!.amount, currency)}
+                    </Text>
+                  </View>
+                ))}
+                {validRows.length > PREVIEW_LIMIT && (
+                  <Text style={styles.summaryText}>
+                    and {validRows.length - PREVIEW_LIMIT} more
+                  </Text>
+                )}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      {fileName && (
+        <View style={styles.submitContainer}>
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              importing ? styles.disabledButton : null,
+            ]}
+            onPress={handleImport}
+            disabled={importing}
+          >
+            <Text style={styles.submitText}>
+              {importing
+                ? "Importing..."
+                : `Import ${validRows.length} Transactions`}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  fileButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 15,
+  },
+  fileButtonText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#1E3A8A",
+    marginLeft: 10,
+  },
+  section: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 15,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 12,
+  },
+  mappingRow: {
+    marginBottom: 10,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginBottom: 6,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    marginLeft: 4,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  summaryText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#EF4444",
+    marginBottom: 4,
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  previewDetails: {
+    flex: 1,
+  },
+  previewMerchant: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1F2937",
+  },
+  previewMeta: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  duplicateText: {
+    fontSize: 12,
+    color: "#B45309",
+    marginTop: 2,
+  },
+  previewAmount: {
+    fontSize: 15,
+    fontWeight: "bold",
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,347 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as FileSystem from "expo-file-system";
+import { Stack, useRouter } from "expo-router";
+import * as Sharing from "expo-sharing";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { createBackup } from "@/lib/backup";
+import { listCategories } from "@/lib/categoryRepository";
+import { exportTransactionsCsv } from "@/lib/transactionCsv";
+import { listTransactions } from "@/lib/transactionRepository";
+
+const ALL_ACCOUNTS = "all";
+
+export default function ImportExportScreen() {
+  const router = useRouter();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [exportAccountId, setExportAccountId] = useState(ALL_ACCOUNTS);
+  const [exporting, setExporting] = useState(false);
+  const [backupPassword, setBackupPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [backingUp, setBackingUp] = useState(false);
+
+  useEffect(() => {
+    listAccounts()
+      .then(setAccounts)
+      .catch((error) => console.error("Error loading accounts:", error));
+  }, []);
+
+  // Shared files hold plaintext data, so they do not outlive the share sheet
+  const shareFile = async (
+    uri: string,
+    contents: string,
+    options: Sharing.SharingOptions
+  ) => {
+    try {
+      await FileSystem.writeAsStringAsync(uri, contents);
+      await Sharing.shareAsync(uri, options);
+    } finally {
+      FileSystem.deleteAsync(uri, { idempotent: true }).catch((error) =>
+        console.error("Error removing shared file:", error)
+      );
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert("Error", "Sharing is not available on this device");
+        return;
+      }
+
+      const [transactions, categories] = await Promise.all([
+        listTransactions(),
+        listCategories(),
+      ]);
+      const account = accounts.find((a) => a.id === exportAccountId);
+      const csv = exportTransactionsCsv(
+        account
+          ? transactions.filter((t) => t.accountId === account.id)
+          : transactions,
+        categories,
+        accounts
+      );
+
+      const name = (account?.name ?? "all-accounts")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-");
+      const date = new Date().toISOString().slice(0, 10);
+      const uri = `${FileSystem.cacheDirectory}transactions-${name}-${date}.csv`;
+      await shareFile(uri, csv, {
+        mimeType: "text/csv",
+        UTI: "public.comma-separated-values-text",
+        dialogTitle: "Export transactions",
+      });
+    } catch (error) {
+      console.error("Error exporting transactions:", error);
+      Alert.alert("Error", "Could not export transactions");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    if (backupPassword && backupPassword !== confirmPassword) {
+      Alert.alert("Error", "The passwords do not match");
+      return;
+    }
+
+    setBackingUp(true);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert("Error", "Sharing is not available on this device");
+        return;
+      }
+
+      const backup = await createBackup(backupPassword || undefined);
+      const date = new Date().toISOString().slice(0, 10);
+      const uri = `${FileSystem.cacheDirectory}bankapp-backup-${date}.json`;
+      await shareFile(uri, backup, {
+        mimeType: "application/json",
+        UTI: "public.json",
+        dialogTitle: "Save backup",
+      });
+      setBackupPassword("");
+      setConfirmPassword("");
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      Alert.alert("Error", "Could not create the backup");
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const exportOptions = [
+    { id: ALL_ACCOUNTS, name: "All Accounts", icon: "albums-outline" as const },
+    ...accounts.map((account) => ({
+      id: account.id,
+      name: account.name,
+      icon: getAccountIcon(account.type),
+    })),
+  ];
+
+  return (
+    <ScrollView style={styles.container}>
+      <Stack.Screen options={{ title: "Import & Export", headerShown: true }} />
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Back Up Everything</Text>
+        <Text style={styles.sectionText}>
+          Save accounts, transactions, receipt photos, categories, budgets and
+          rules to one file you can restore on any device. The app lock PIN
+          stays on this device. Without a password, anyone with the file can
+          read it.
+        </Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Password (optional)"
+          secureTextEntry
+          value={backupPassword}
+          onChangeText={setBackupPassword}
+        />
+        {backupPassword !== "" && (
+          <TextInput
+            style={styles.input}
+            placeholder="Confirm password"
+            secureTextEntry
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+          />
+        )}
+        <TouchableOpacity
+          style={[styles.button, backingUp ? styles.disabledButton : null]}
+          onPress={handleBackup}
+          disabled={backingUp}
+        >
+          <Ionicons name="cloud-upload-outline" size={20} color="#FFFFFF" />
+          <Text style={styles.buttonText}>
+            {backingUp ? "Backing Up..." : "Create Backup"}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => router.push("/restore-backup")}
+        >
+          <Text style={styles.secondaryButtonText}>Restore from Backup</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Export to CSV</Text>
+        <Text style={styles.sectionText}>
+          Share your transactions as a spreadsheet file.
+        </Text>
+        <View style={styles.chipContainer}>
+          {exportOptions.map((option) => (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.chip,
+                exportAccountId === option.id ? styles.selectedChip : null,
+              ]}
+              onPress={() => setExportAccountId(option.id)}
+            >
+              <Ionicons
+                name={option.icon}
+                size={16}
+                color={exportAccountId === option.id ? "#1E3A8A" : "#6B7280"}
+              />
+              <Text
+                style={[
+                  styles.chipText,
+                  exportAccountId === option.id
+                    ? styles.selectedChipText
+                    : null,
+                ]}
+              >
+                {option.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity
+          style={[styles.button, exporting ? styles.disabledButton : null]}
+          onPress={handleExport}
+          disabled={exporting}
+        >
+          <Ionicons name="share-outline" size={20} color="#FFFFFF" />
+          <Text style={styles.buttonText}>
+            {exporting ? "Exporting..." : "Export CSV"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Import from CSV</Text>
+        <Text style={styles.sectionText}>
+          Add transactions from a CSV file exported by your bank or another app.
+          You can match its columns and review every row before anything is
+          saved.
+        </Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => router.push("/import-csv")}
+        >
+          <Ionicons name="download-outline" size={20} color="#FFFFFF" />
+          <Text style={styles.buttonText}>Import CSV</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Import Bank Statement</Text>
+        <Text style={styles.sectionText}>
+          Add transactions from an OFX or QFX file downloaded from your bank.
+          Transactions you have already imported are skipped.
+        </Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => router.push("/import-ofx")}
+        >
+          <Ionicons name="download-outline" size={20} color="#FFFFFF" />
+          <Text style={styles.buttonText}>Import OFX/QFX</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+    paddingHorizontal: 20,
+  },
+  section: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 15,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 6,
+  },
+  sectionText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginBottom: 12,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 4,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    marginLeft: 4,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  button: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  secondaryButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  secondaryButtonText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+    marginLeft: 8,
+  },
+});
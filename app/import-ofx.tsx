@@ -0,0 +1,555 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_CURRENCY, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { CategorizationRule, categorizeImport } from "@/lib/categorization";
+import { listCategorizationRules } from "@/lib/categorizationRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { formatTransactionDate } from "@/lib/dates";
+import { findDuplicates } from "@/lib/duplicates";
+import { formatAmount } from "@/lib/money";
+import { OfxStatement, ofxToTransactions, parseOfx } from "@/lib/ofx";
+import {
+  addTransactions,
+  listTransactions,
+  Transaction,
+} from "@/lib/transactionRepository";
+
+const PREVIEW_LIMIT = 50;
+
+export default function ImportOfxScreen() {
+  const router = useRouter();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [existing, setExisting] = useState<Transaction[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [accountId, setAccountId] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  // A file can hold several statements; each is imported on its own
+  const [statements, setStatements] = useState<OfxStatement[]>([]);
+  const [statementIndex, setStatementIndex] = useState(0);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      listAccounts(),
+      listTransactions(),
+      listCategories(),
+      listCategorizationRules(),
+    ])
+      .then(
+        ([
+          storedAccounts,
+          storedTransactions,
+          storedCategories,
+          storedRules,
+        ]) => {
+          setAccounts(storedAccounts.filter((account) => !account.archived));
+          setExisting(storedTransactions);
+          setCategories(storedCategories);
+          setRules(storedRules);
+          setAccountId(
+            storedAccounts.find((account) => !account.archived)?.id ?? ""
+          );
+        }
+      )
+      .catch((error) => console.error("Error loading import data:", error));
+  }, []);
+
+  const statement: OfxStatement | undefined = statements[statementIndex];
+  const currency =
+    accounts.find((account) => account.id === accountId)?.currency ??
+    DEFAULT_CURRENCY;
+  const result = useMemo(() => {
+    if (!statement) {
+      return { transactions: [], duplicates: 0 };
+    }
+    const converted = ofxToTransactions(
+      statement,
+      accountId,
+      currency,
+      existing
+    );
+    return {
+      ...converted,
+      transactions: converted.transactions.map((transaction) =>
+        categorizeImport(transaction, rules, categories)
+      ),
+    };
+  }, [statement, accountId, currency, existing, rules, categories]);
+
+  // Records with a new FITID that still look like stored transactions, e.g.
+  // ones entered by hand before the statement was imported
+  const possibleDuplicates = useMemo(
+    () =>
+      new Set(
+        result.transactions
+          .filter((t) => findDuplicates(t, existing).length > 0)
+          .map((t) => t.fitId)
+      ),
+    [result, existing]
+  );
+
+  // Pre-select the account whose last four digits match the statement
+  const selectAccountFor = (selected: OfxStatement) => {
+    const lastDigits = selected.accountNumber?.slice(-4);
+    const match = accounts.find(
+      (account) => lastDigits && account.accountNumber === lastDigits
+    );
+    if (match) {
+      setAccountId(match.id);
+    }
+  };
+
+  const selectStatement = (index: number) => {
+    setStatementIndex(index);
+    selectAccountFor(statements[index]);
+  };
+
+  const pickFile = async () => {
+    try {
+      // OFX and QFX files rarely have a registered MIME type
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled) return;
+
+      const file = picked.assets[0];
+      const parsed = parseOfx(await FileSystem.readAsStringAsync(file.uri));
+      if (!parsed.some((s) => s.transactions.length > 0)) {
+        Alert.alert("Error", "The file has no transactions to import");
+        return;
+      }
+
+      selectAccountFor(parsed[0]);
+      setFileName(file.name);
+      setStatements(parsed);
+      setStatementIndex(0);
+    } catch (error) {
+      console.error("Error reading OFX file:", error);
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Could not read the file"
+      );
+    }
+  };
+
+  const handleImport = async () => {
+    if (!accounts.some((account) => account.id === accountId)) {
+      Alert.alert("Error", "Please select an account");
+      return;
+    }
+
+    if (result.transactions.length === 0) {
+      Alert.alert(
+        "Nothing to Import",
+        "Every transaction in this statement has already been imported."
+      );
+      return;
+    }
+
+    // Amounts are read in the account's currency, so a mismatch would store
+    // them in the wrong one
+    if (statement?.currency && statement.currency !== currency) {
+      Alert.alert(
+        "Different Currency",
+        `This statement is in ${statement.currency} but ${selectedAccount?.name} uses ${currency}. Its amounts will be imported as ${currency} without conversion.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Import Anyway",
+            style: "destructive",
+            onPress: confirmDuplicates,
+          },
+        ]
+      );
+      return;
+    }
+
+    confirmDuplicates();
+  };
+
+  const confirmDuplicates = async () => {
+    if (possibleDuplicates.size > 0) {
+      Alert.alert(
+        "Possible Duplicates",
+        `${possibleDuplicates.size} of these look like transactions already saved.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Import All",
+            onPress: () => importTransactions(result.transactions),
+          },
+          {
+            text: "Skip Them",
+            onPress: () =>
+              importTransactions(
+                result.transactions.filter(
+                  (t) => !possibleDuplicates.has(t.fitId)
+                )
+              ),
+          },
+        ]
+      );
+      return;
+    }
+
+    await importTransactions(result.transactions);
+  };
+
+  const importTransactions = async (
+    transactions: Omit<Transaction, "id">[]
+  ) => {
+    setImporting(true);
+    try {
+      const created = await addTransactions(transactions);
+      const skippedCount =
+        result.duplicates + result.transactions.length - transactions.length;
+      const skipped =
+        skippedCount > 0 ? ` ${skippedCount} duplicates were skipped.` : "";
+      const remaining = statements.filter((_, i) => i !== statementIndex);
+      if (remaining.length > 0) {
+        setExisting(await listTransactions());
+        setStatements(remaining);
+        setStatementIndex(0);
+        selectAccountFor(remaining[0]);
+        Alert.alert(
+          "Success",
+          `Imported ${created.length} transactions.${skipped} Choose the account for the next statement in this file.`
+        );
+        return;
+      }
+      Alert.alert(
+        "Success",
+        `Imported ${created.length} transactions.${skipped}`,
+        [
+          {
+            text: "OK",
+            onPress: () => router.back(),
+          },
+        ]
+      );
+    } catch (error) {
+      console.error("Error importing transactions:", error);
+      Alert.alert("Error", "Could not import transactions");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const selectedAccount = accounts.find((a) => a.id === accountId);
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{ title: "Import Bank Statement", headerShown: true }}
+      />
+
+      <ScrollView style={styles.scrollContainer}>
+        <TouchableOpacity style={styles.fileButton} onPress={pickFile}>
+          <Ionicons name="document-text-outline" size={22} color="#1E3A8A" />
+          <Text style={styles.fileButtonText}>
+            {fileName ?? "Choose an OFX or QFX file"}
+          </Text>
+        </TouchableOpacity>
+
+        {statements.length > 1 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Statement</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {statements.map((s, index) => (
+                <TouchableOpacity
+                  key={index}
+                  style={[
+                    styles.chip,
+                    statementIndex === index ? styles.selectedChip : null,
+                  ]}
+                  onPress={() => selectStatement(index)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      statementIndex === index ? styles.selectedChipText : null,
+                    ]}
+                  >
+                    {s.accountNumber
+                      ? `Ending in ${s.accountNumber.slice(-4)}`
+                      : `Statement ${index + 1}`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {statement && (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Account</Text>
+              {statement.accountNumber && (
+                <Text style={styles.summaryText}>
+                  Statement for account ending in{" "}
+                  {statement.accountNumber.slice(-4)}
+                  {statement.currency ? ` (${statement.currency})` : ""}
+                </Text>
+              )}
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {accounts.map((account) => (
+                  <TouchableOpacity
+                    key={account.id}
+                    style={[
+                      styles.chip,
+                      accountId === account.id ? styles.selectedChip : null,
+                    ]}
+                    onPress={() => setAccountId(account.id)}
+                  >
+                    <Ionicons
+                      name={getAccountIcon(account.type)}
+                      size={16}
+                      color={accountId === account.id ? "#1E3A8A" : "#6B7280"}
+                    />
+                    <Text
+                      style={[
+                        styles.chipText,
+                        accountId === account.id
+                          ? styles.selectedChipText
+                          : null,
+                      ]}
+                    >
+                      {account.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+              {selectedAccount &&
+                statement.currency &&
+                selectedAccount.currency !== statement.currency && (
+                  <Text style={styles.warningText}>
+                    This statement is in {statement.currency} but{" "}
+                    {selectedAccount.name} uses {selectedAccount.currency}.
+                  </Text>
+                )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Preview</Text>
+              <Text style={styles.summaryText}>
+                {result.transactions.length} new
+                {result.duplicates > 0
+                  ? `, ${result.duplicates} already imported`
+                  : ""}
+                {possibleDuplicates.size > 0
+                  ? `, ${possibleDuplicates.size} possible duplicates`
+                  : ""}
+                {statement.errors.length > 0
+                  ? `, ${statement.errors.length} with errors`
+                  : ""}
+              </Text>
+
+              {statement.errors.map((error) => (
+                <Text key={error} style={styles.errorText}>
+                  {error}
+                </Text>
+              ))}
+
+              {result.transactions.slice(0, PREVIEW_LIMIT).map((t) => (
+                <View key={t.fitId} style={styles.previewRow}>
+                  <View style={styles.previewDetails}>
+                    <Text style={styles.previewMerchant}>{t.merchant}</Text>
+                    <Text style={styles.previewMeta}>
+                      {formatTransactionDate(t.date)}
+                    </Text>
+                    {possibleDuplicates.has(t.fitId) && (
+                      <Text style={styles.duplicateText}>
+                        Possible duplicate
+                      </Text>
+                    )}
+                  </View>
+                  <Text
+                    style={[
+                      styles.previewAmount,
+                      t.amount < 0
+                        ? styles.negativeAmount
+                        : styles.positiveAmount,
+                    ]}
+                  >
+                    {formatAmount(t.amount, currency)}
+                  </Text>
+                </View>
+              ))}
+              {result.transactions.length > PREVIEW_LIMIT && (
+                <Text style={styles.summaryText}>
+                  and {result.transactions.length - PREVIEW_LIMIT} more
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      {statement && (
+        <View style={styles.submitContainer}>
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              importing ? styles.disabledButton : null,
+            ]}
+            onPress={handleImport}
+            disabled={importing}
+          >
+            <Text style={styles.submitText}>
+              {importing
+                ? "Importing..."
+                : `Import ${result.transactions.length} Transactions`}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  fileButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 15,
+  },
+  fileButtonText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#1E3A8A",
+    marginLeft: 10,
+  },
+  section: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 15,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    marginLeft: 4,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  summaryText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#EF4444",
+    marginBottom: 4,
+  },
+  warningText: {
+    fontSize: 13,
+    color: "#B45309",
+    marginTop: 10,
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  previewDetails: {
+    flex: 1,
+  },
+  previewMerchant: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1F2937",
+  },
+  previewMeta: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  duplicateText: {
+    fontSize: 12,
+    color: "#B45309",
+    marginTop: 2,
+  },
+  previewAmount: {
+    fontSize: 15,
+    fontWeight: "bold",
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,367 @@
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Stack,
+  useFocusEffect,
+  useLocalSearchParams,
+  useRouter,
+} from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DateTimeField } from "@/components/DateTimeField";
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { formatCalendarDate } from "@/lib/dates";
+import { formatMoney, formatPlainAmount, parseMoney } from "@/lib/money";
+import { clearedBalance, transactionsToReconcile } from "@/lib/reconciliation";
+import {
+  getStatus,
+  listTransactions,
+  setTransactionStatus,
+  Transaction,
+} from "@/lib/transactionRepository";
+
+export default function ReconcileScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const accountId =
+    typeof params.accountId === "string" ? params.accountId : "";
+  const [account, setAccount] = useState<Account | undefined>();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [statementBalance, setStatementBalance] = useState("");
+  const [statementDate, setStatementDate] = useState(new Date());
+  const [finishing, setFinishing] = useState(false);
+
+  const loadTransactions = React.useCallback(async () => {
+    try {
+      const [storedAccounts, storedTransactions] = await Promise.all([
+        listAccounts(),
+        listTransactions(),
+      ]);
+      setAccount(storedAccounts.find((a) => a.id === accountId));
+      setTransactions(storedTransactions);
+    } catch (error) {
+      console.error("Error loading transactions:", error);
+      Alert.alert("Error", "Could not load transactions");
+    }
+  }, [accountId]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadTransactions();
+    }, [loadTransactions])
+  );
+
+  // Ticking is saved straight away so an interrupted reconcile can be
+  // picked up again later.
+  const toggleCleared = async (transaction: Transaction) => {
+    const status =
+      getStatus(transaction) === "cleared" ? "uncleared" : "cleared";
+    setTransactions((current) =>
+      current.map((t) => (t.id === transaction.id ? { ...t, status } : t))
+    );
+    try {
+      await setTransactionStatus([transaction.id], status);
+    } catch (error) {
+      console.error("Error updating transaction:", error);
+      Alert.alert("Error", "Could not update the transaction");
+      loadTransactions();
+    }
+  };
+
+  const currency = account?.currency ?? DEFAULT_CURRENCY;
+  const candidates = transactionsToReconcile(
+    transactions,
+    accountId,
+    statementDate
+  );
+  const cleared = account
+    ? clearedBalance(account, transactions, statementDate)
+    : 0;
+  const target = parseMoney(statementBalance, currency);
+  const difference = target === null ? null : target - cleared;
+  const balanced = difference === 0;
+
+  const handleFinish = async () => {
+    setFinishing(true);
+    try {
+      await setTransactionStatus(
+        candidates.filter((t) => getStatus(t) === "cleared").map((t) => t.id),
+        "reconciled"
+      );
+      Alert.alert("Success", "Account reconciled successfully", [
+        {
+          text: "OK",
+          onPress: () => router.back(),
+        },
+      ]);
+    } catch (error) {
+      console.error("Error reconciling account:", error);
+      Alert.alert("Error", "Could not finish reconciling");
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen
+        options={{
+          title: account ? `Reconcile ${account.name}` : "Reconcile",
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView style={styles.scrollContainer}>
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Statement Ending Balance</Text>
+          <TextInput
+            style={styles.textInput}
+            placeholder={formatPlainAmount(0, currency)}
+            keyboardType="numbers-and-punctuation"
+            value={statementBalance}
+            onChangeText={setStatementBalance}
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Statement Date</Text>
+          <DateTimeField
+            value={statementDate}
+            onChange={setStatementDate}
+            dateOnly
+          />
+        </View>
+
+        <View style={styles.summaryCard}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Cleared balance</Text>
+            <Text style={styles.summaryValue}>
+              {formatMoney(cleared, currency)}
+            </Text>
+          </View>
+          <View style={[styles.summaryRow, styles.differenceRow]}>
+            <Text style={styles.differenceLabel}>Difference</Text>
+            <Text
+              style={[
+                styles.differenceValue,
+                balanced ? styles.balanced : styles.unbalanced,
+              ]}
+            >
+              {difference === null ? "—" : formatMoney(difference, currency)}
+            </Text>
+          </View>
+        </View>
+
+        <Text style={styles.hintText}>
+          Tick the transactions that appear on your statement.
+        </Text>
+
+        {candidates.length === 0 ? (
+          <Text style={styles.emptyText}>
+            Nothing left to reconcile up to {formatCalendarDate(statementDate)}.
+          </Text>
+        ) : (
+          <View style={styles.linesCard}>
+            {candidates.map((transaction) => {
+              const isCleared = getStatus(transaction) === "cleared";
+              return (
+                <TouchableOpacity
+                  key={transaction.id}
+                  style={styles.line}
+                  onPress={() => toggleCleared(transaction)}
+                >
+                  <Ionicons
+                    name={isCleared ? "checkmark-circle" : "ellipse-outline"}
+                    size={24}
+                    color={isCleared ? "#10B981" : "#6B7280"}
+                  />
+                  <View style={styles.lineDetails}>
+                    <Text style={styles.lineMerchant}>
+                      {transaction.merchant}
+                    </Text>
+                    <Text style={styles.lineDate}>
+                      {formatCalendarDate(new Date(transaction.date))}
+                    </Text>
+                  </View>
+                  <Text
+                    style={[
+                      styles.lineAmount,
+                      transaction.amount < 0
+                        ? styles.negativeAmount
+                        : styles.positiveAmount,
+                    ]}
+                  >
+                    {formatMoney(transaction.amount, currency)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity
+          style={[
+            styles.submitButton,
+            !balanced || finishing ? styles.disabledButton : null,
+          ]}
+          onPress={handleFinish}
+          disabled={!balanced || finishing}
+        >
+          <Text style={styles.submitText}>Finish Reconciling</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  summaryCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  summaryValue: {
+    fontSize: 14,
+    color: "#1F2937",
+  },
+  differenceRow: {
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+    marginTop: 6,
+    paddingTop: 10,
+  },
+  differenceLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  differenceValue: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  balanced: {
+    color: "#10B981",
+  },
+  unbalanced: {
+    color: "#EF4444",
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 10,
+  },
+  linesCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    marginBottom: 40,
+  },
+  line: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  lineDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  lineMerchant: {
+    fontSize: 16,
+    color: "#1F2937",
+  },
+  lineDate: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  lineAmount: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginTop: 20,
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
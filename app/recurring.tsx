@@ -0,0 +1,309 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useFocusEffect, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { formatCalendarDate } from "@/lib/dates";
+import { formatAmount } from "@/lib/money";
+import { frequencies, upcomingOccurrences } from "@/lib/recurrence";
+import {
+  listRecurringRules,
+  RecurringRule,
+  setRecurringRulePaused,
+  skipNextOccurrence,
+} from "@/lib/recurringRepository";
+
+const UPCOMING_COUNT = 3;
+
+export default function RecurringScreen() {
+  const router = useRouter();
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadRules();
+    }, [])
+  );
+
+  const loadRules = async () => {
+    try {
+      const [storedRules, storedCategories, storedAccounts] = await Promise.all(
+        [listRecurringRules(), listCategories(), listAccounts()]
+      );
+      setRules(storedRules);
+      setCategories(storedCategories);
+      setAccounts(storedAccounts);
+    } catch (error) {
+      console.error("Error loading recurring transactions:", error);
+      Alert.alert("Error", "Could not load recurring transactions");
+    }
+  };
+
+  const handlePause = async (rule: RecurringRule, paused: boolean) => {
+    try {
+      setRules(await setRecurringRulePaused(rule.id, paused));
+    } catch (error) {
+      console.error("Error pausing recurring transaction:", error);
+      Alert.alert("Error", "Could not update recurring transaction");
+    }
+  };
+
+  const handleSkip = (rule: RecurringRule, date: Date) => {
+    Alert.alert(
+      "Skip Occurrence",
+      `Skip ${rule.merchant} on ${formatCalendarDate(date)}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Skip",
+          onPress: async () => {
+            try {
+              setRules(await skipNextOccurrence(rule.id));
+            } catch (error) {
+              console.error("Error skipping occurrence:", error);
+              Alert.alert("Error", "Could not skip the occurrence");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const navigateToEditRecurring = (rule?: RecurringRule) => {
+    router.push({
+      pathname: "/edit-recurring",
+      params: rule ? { id: rule.id } : {},
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Recurring", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        {rules.length === 0 && (
+          <Text style={styles.emptyText}>
+            No recurring transactions yet. Add your salary or bills so they are
+            entered for you.
+          </Text>
+        )}
+
+        {rules.map((rule) => {
+          const category = categories.find((c) => c.id === rule.categoryId);
+          const upcoming = upcomingOccurrences(
+            rule,
+            rule.nextIndex,
+            UPCOMING_COUNT
+          );
+
+          return (
+            <View key={rule.id} style={styles.ruleItem}>
+              <TouchableOpacity
+                style={styles.ruleHeader}
+                onPress={() => navigateToEditRecurring(rule)}
+              >
+                <View
+                  style={[
+                    styles.ruleIcon,
+                    rule.paused ? styles.pausedIcon : null,
+                  ]}
+                >
+                  <Ionicons
+                    name={category?.icon ?? "repeat-outline"}
+                    size={20}
+                    color="#FFFFFF"
+                  />
+                </View>
+                <View style={styles.ruleText}>
+                  <Text style={styles.ruleName}>{rule.merchant}</Text>
+                  <Text style={styles.ruleMeta}>
+                    {frequencies.find((f) => f.frequency === rule.frequency)
+                      ?.label ?? rule.frequency}
+                    {rule.paused ? " · Paused" : ""}
+                  </Text>
+                </View>
+                <Text
+                  style={[
+                    styles.ruleAmount,
+                    rule.amount < 0
+                      ? styles.negativeAmount
+                      : styles.positiveAmount,
+                  ]}
+                >
+                  {formatAmount(
+                    rule.amount,
+                    accounts.find((a) => a.id === rule.accountId)?.currency ??
+                      DEFAULT_CURRENCY,
+                    { signed: true }
+                  )}
+                </Text>
+              </TouchableOpacity>
+
+              {upcoming.length === 0 ? (
+                <Text style={styles.finishedText}>No more occurrences</Text>
+              ) : (
+                upcoming.map(({ index, date }, position) => (
+                  <View key={index} style={styles.occurrenceRow}>
+                    <Text style={styles.occurrenceDate}>
+                      {formatCalendarDate(date)}
+                    </Text>
+                    {position === 0 && !rule.paused && (
+                      <TouchableOpacity onPress={() => handleSkip(rule, date)}>
+                        <Text style={styles.skipText}>Skip</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))
+              )}
+
+              <View style={styles.pauseRow}>
+                <Text style={styles.pauseText}>Active</Text>
+                <Switch
+                  value={!rule.paused}
+                  onValueChange={(active) => handlePause(rule, !active)}
+                />
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity
+          style={styles.submitButton}
+          onPress={() => navigateToEditRecurring()}
+        >
+          <Text style={styles.submitText}>Add Recurring Transaction</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginTop: 30,
+  },
+  ruleItem: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+  },
+  ruleHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  ruleIcon: {
+    backgroundColor: "#4F46E5",
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 15,
+  },
+  pausedIcon: {
+    backgroundColor: "#9CA3AF",
+  },
+  ruleText: {
+    flex: 1,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+    marginBottom: 2,
+  },
+  ruleMeta: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  ruleAmount: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  occurrenceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    marginLeft: 55,
+  },
+  occurrenceDate: {
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  skipText: {
+    fontSize: 14,
+    color: "#1E3A8A",
+    fontWeight: "500",
+  },
+  finishedText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginLeft: 55,
+    paddingVertical: 6,
+  },
+  pauseRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#F3F4F6",
+    paddingTop: 8,
+  },
+  pauseText: {
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
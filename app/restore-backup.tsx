@@ -0,0 +1,366 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { Stack, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import {
+  BackupData,
+  BackupFile,
+  parseBackupFile,
+  readAppData,
+  readBackup,
+  restoreBackup,
+  RestoreMode,
+  RestoreSummary,
+  summarizeRestore,
+} from "@/lib/backup";
+import { formatCalendarDate } from "@/lib/dates";
+
+const restoreModes: { mode: RestoreMode; label: string; text: string }[] = [
+  {
+    mode: "merge",
+    label: "Merge",
+    text: "Add what is missing from this device and keep everything already here.",
+  },
+  {
+    mode: "replace",
+    label: "Replace",
+    text: "Delete the data on this device and use the backup instead.",
+  },
+];
+
+export default function RestoreBackupScreen() {
+  const router = useRouter();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [file, setFile] = useState<BackupFile | null>(null);
+  const [password, setPassword] = useState("");
+  const [backup, setBackup] = useState<BackupData | null>(null);
+  const [summary, setSummary] = useState<RestoreSummary[]>([]);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [restoring, setRestoring] = useState(false);
+
+  const openBackup = async (picked: BackupFile, filePassword?: string) => {
+    try {
+      const data = readBackup(picked, filePassword);
+      setSummary(summarizeRestore(await readAppData(), data));
+      setBackup(data);
+      setPassword("");
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Could not read the backup"
+      );
+    }
+  };
+
+  const pickFile = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ["application/json", "*/*"],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled) return;
+
+      const asset = picked.assets[0];
+      const parsed = await parseBackupFile(
+        await FileSystem.readAsStringAsync(asset.uri)
+      );
+      setFileName(asset.name);
+      setFile(parsed);
+      setBackup(null);
+      setSummary([]);
+      if (!parsed.encryption) {
+        await openBackup(parsed);
+      }
+    } catch (error) {
+      console.error("Error reading backup file:", error);
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Could not read the file"
+      );
+    }
+  };
+
+  const restore = async () => {
+    if (!backup) return;
+    setRestoring(true);
+    try {
+      await restoreBackup(backup, mode);
+      Alert.alert("Success", "Backup restored successfully", [
+        {
+          text: "OK",
+          onPress: () => router.back(),
+        },
+      ]);
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      Alert.alert("Error", "Could not restore the backup");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (mode === "merge") {
+      restore();
+      return;
+    }
+    Alert.alert(
+      "Replace All Data",
+      "Everything on this device will be replaced by the backup. This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", style: "destructive", onPress: restore },
+      ]
+    );
+  };
+
+  const describeChange = (item: RestoreSummary) => {
+    if (mode === "replace") {
+      return `${item.device} on this device → ${item.backup} from the backup`;
+    }
+    const kept = item.backup - item.added;
+    return `${item.added} new${kept > 0 ? `, ${kept} already here` : ""}`;
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen options={{ title: "Restore Backup", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        <TouchableOpacity style={styles.fileButton} onPress={pickFile}>
+          <Ionicons name="document-outline" size={20} color="#1E3A8A" />
+          <Text style={styles.fileButtonText}>
+            {fileName ?? "Choose a backup file"}
+          </Text>
+        </TouchableOpacity>
+
+        {file && (
+          <Text style={styles.hintText}>
+            Backup from {formatCalendarDate(new Date(file.createdAt))}
+            {file.encryption ? ", protected with a password" : ""}.
+          </Text>
+        )}
+
+        {file?.encryption && !backup && (
+          <>
+            <Text style={styles.label}>Password</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Backup password"
+              secureTextEntry
+              value={password}
+              onChangeText={setPassword}
+            />
+            <TouchableOpacity
+              style={styles.unlockButton}
+              onPress={() => openBackup(file, password)}
+            >
+              <Text style={styles.unlockText}>Open Backup</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {backup && (
+          <>
+            <Text style={styles.label}>How to Restore</Text>
+            <View style={styles.chipContainer}>
+              {restoreModes.map((option) => (
+                <TouchableOpacity
+                  key={option.mode}
+                  style={[
+                    styles.chip,
+                    mode === option.mode ? styles.selectedChip : null,
+                  ]}
+                  onPress={() => setMode(option.mode)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      mode === option.mode ? styles.selectedChipText : null,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.hintText}>
+              {restoreModes.find((option) => option.mode === mode)?.text}
+            </Text>
+
+            {summary.map((item) => (
+              <View key={item.store} style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>{item.label}</Text>
+                <Text style={styles.summaryText}>{describeChange(item)}</Text>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      {backup && (
+        <View style={styles.submitContainer}>
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              mode === "replace" ? styles.replaceButton : null,
+              restoring ? styles.disabledButton : null,
+            ]}
+            onPress={handleRestore}
+            disabled={restoring}
+          >
+            <Text style={styles.submitText}>
+              {restoring
+                ? "Restoring..."
+                : mode === "replace"
+                ? "Replace with Backup"
+                : "Merge Backup"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  fileButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 20,
+  },
+  fileButtonText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#1E3A8A",
+    marginLeft: 10,
+  },
+  hintText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginVertical: 15,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  unlockButton: {
+    alignItems: "center",
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  unlockText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  summaryItem: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+  },
+  summaryText: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  replaceButton: {
+    backgroundColor: "#EF4444",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,177 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useFocusEffect, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { ruleMatches } from "@/lib/categorization";
+import {
+  CategorizationRule,
+  listCategorizationRules,
+} from "@/lib/categorizationRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+
+export default function RulesScreen() {
+  const router = useRouter();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadRules();
+    }, [])
+  );
+
+  const loadRules = async () => {
+    try {
+      const [storedRules, storedCategories, storedAccounts] = await Promise.all(
+        [listCategorizationRules(), listCategories(), listAccounts()]
+      );
+      setRules(storedRules);
+      setCategories(storedCategories);
+      setAccounts(storedAccounts);
+    } catch (error) {
+      console.error("Error loading rules:", error);
+      Alert.alert("Error", "Could not load rules");
+    }
+  };
+
+  const navigateToEditRule = (rule?: CategorizationRule) => {
+    router.push({
+      pathname: "/edit-rule",
+      params: rule ? { id: rule.id } : {},
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Rules", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        {rules.length === 0 && (
+          <Text style={styles.emptyText}>
+            No rules yet. Add one to pick the category, and optionally the
+            account, from the merchant name when adding or importing
+            transactions.
+          </Text>
+        )}
+
+        {rules.map((rule) => {
+          const category = categories.find((c) => c.id === rule.categoryId);
+          const account = accounts.find((a) => a.id === rule.accountId);
+          const match =
+            ruleMatches.find((m) => m.match === rule.match)?.label ??
+            rule.match;
+
+          return (
+            <TouchableOpacity
+              key={rule.id}
+              style={styles.ruleItem}
+              onPress={() => navigateToEditRule(rule)}
+            >
+              <View style={styles.ruleIcon}>
+                <Ionicons
+                  name={category?.icon ?? "flash-outline"}
+                  size={20}
+                  color="#FFFFFF"
+                />
+              </View>
+              <View style={styles.ruleText}>
+                <Text style={styles.ruleName}>
+                  Merchant {match.toLowerCase()} “{rule.pattern}”
+                </Text>
+                <Text style={styles.ruleMeta}>
+                  {category?.name ?? "Unknown category"}
+                  {account ? ` · ${account.name}` : ""}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity
+          style={styles.submitButton}
+          onPress={() => navigateToEditRule()}
+        >
+          <Text style={styles.submitText}>Add Rule</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginTop: 30,
+  },
+  ruleItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+  },
+  ruleIcon: {
+    backgroundColor: "#4F46E5",
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 15,
+  },
+  ruleText: {
+    flex: 1,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+    marginBottom: 2,
+  },
+  ruleMeta: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
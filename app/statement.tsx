@@ -0,0 +1,344 @@
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Stack,
+  useFocusEffect,
+  useLocalSearchParams,
+  useRouter,
+} from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { accountBalance, monthStatement } from "@/lib/balances";
+import { formatCalendarDate } from "@/lib/dates";
+import { addMonths, formatMonth, getMonth, Month } from "@/lib/insights";
+import { formatMoney } from "@/lib/money";
+import {
+  AccountTotals,
+  getAccountTotals,
+  listTransactions,
+  Transaction,
+} from "@/lib/transactionRepository";
+
+export default function StatementScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const [month, setMonth] = useState<Month>(() => getMonth(new Date()));
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState(
+    typeof params.accountId === "string" ? params.accountId : ""
+  );
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [totals, setTotals] = useState<AccountTotals>({});
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadStatement();
+    }, [])
+  );
+
+  const loadStatement = async () => {
+    try {
+      const [storedAccounts, storedTransactions, storedTotals] =
+        await Promise.all([
+          listAccounts(),
+          listTransactions(),
+          getAccountTotals(),
+        ]);
+      setAccounts(storedAccounts);
+      setTransactions(storedTransactions);
+      setTotals(storedTotals);
+      setAccountId(
+        (current) =>
+          current ||
+          storedAccounts.find((account) => !account.archived)?.id ||
+          ""
+      );
+    } catch (error) {
+      console.error("Error loading statement:", error);
+      Alert.alert("Error", "Could not load the statement");
+    }
+  };
+
+  const account = accounts.find((a) => a.id === accountId);
+  const currency = account?.currency ?? DEFAULT_CURRENCY;
+  const statement = account
+    ? monthStatement(
+        transactions.filter((t) => t.accountId === account.id),
+        accountBalance(account, totals),
+        month
+      )
+    : null;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: "Statement",
+          headerShown: true,
+          headerRight: () =>
+            account ? (
+              <TouchableOpacity
+                onPress={() =>
+                  router.push({
+                    pathname: "/reconcile",
+                    params: { accountId: account.id },
+                  })
+                }
+              >
+                <Text style={styles.headerAction}>Reconcile</Text>
+              </TouchableOpacity>
+            ) : null,
+        }}
+      />
+
+      <ScrollView style={styles.scrollContainer}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.chipContainer}
+        >
+          {accounts
+            .filter((a) => !a.archived || a.id === accountId)
+            .map((a) => (
+              <TouchableOpacity
+                key={a.id}
+                style={[
+                  styles.chip,
+                  a.id === accountId ? styles.selectedChip : null,
+                ]}
+                onPress={() => setAccountId(a.id)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    a.id === accountId ? styles.selectedChipText : null,
+                  ]}
+                >
+                  {a.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+        </ScrollView>
+
+        <View style={styles.monthSelector}>
+          <TouchableOpacity onPress={() => setMonth(addMonths(month, -1))}>
+            <Ionicons name="chevron-back" size={24} color="#1E3A8A" />
+          </TouchableOpacity>
+          <Text style={styles.monthText}>{formatMonth(month)}</Text>
+          <TouchableOpacity onPress={() => setMonth(addMonths(month, 1))}>
+            <Ionicons name="chevron-forward" size={24} color="#1E3A8A" />
+          </TouchableOpacity>
+        </View>
+
+        {statement && (
+          <>
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Opening balance</Text>
+                <Text style={styles.summaryValue}>
+                  {formatMoney(statement.openingBalance, currency)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Money in</Text>
+                <Text style={[styles.summaryValue, styles.positiveAmount]}>
+                  {formatMoney(statement.moneyIn, currency)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Money out</Text>
+                <Text style={[styles.summaryValue, styles.negativeAmount]}>
+                  {formatMoney(-statement.moneyOut, currency)}
+                </Text>
+              </View>
+              <View style={[styles.summaryRow, styles.closingRow]}>
+                <Text style={styles.closingLabel}>Closing balance</Text>
+                <Text style={styles.closingValue}>
+                  {formatMoney(statement.closingBalance, currency)}
+                </Text>
+              </View>
+            </View>
+
+            {statement.lines.length === 0 ? (
+              <Text style={styles.emptyText}>
+                No transactions in {formatMonth(month)}.
+              </Text>
+            ) : (
+              <View style={styles.linesCard}>
+                {statement.lines.map(({ transaction, balance }) => (
+                  <View key={transaction.id} style={styles.line}>
+                    <View style={styles.lineDetails}>
+                      <Text style={styles.lineMerchant}>
+                        {transaction.merchant}
+                      </Text>
+                      <Text style={styles.lineDate}>
+                        {formatCalendarDate(new Date(transaction.date))}
+                      </Text>
+                    </View>
+                    <View style={styles.lineAmounts}>
+                      <Text
+                        style={[
+                          styles.lineAmount,
+                          transaction.amount < 0
+                            ? styles.negativeAmount
+                            : styles.positiveAmount,
+                        ]}
+                      >
+                        {formatMoney(transaction.amount, currency)}
+                      </Text>
+                      <Text style={styles.lineBalance}>
+                        {formatMoney(balance, currency)}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  headerAction: {
+    fontSize: 16,
+    color: "#1E3A8A",
+    fontWeight: "500",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  chipContainer: {
+    marginTop: 15,
+  },
+  chip: {
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  monthSelector: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginVertical: 15,
+  },
+  monthText: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1F2937",
+  },
+  summaryCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  summaryValue: {
+    fontSize: 14,
+    color: "#1F2937",
+  },
+  closingRow: {
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+    marginTop: 6,
+    paddingTop: 10,
+  },
+  closingLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  closingValue: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#1F2937",
+  },
+  linesCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    marginBottom: 20,
+  },
+  line: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  lineDetails: {
+    flex: 1,
+  },
+  lineMerchant: {
+    fontSize: 16,
+    color: "#1F2937",
+  },
+  lineDate: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  lineAmounts: {
+    alignItems: "flex-end",
+  },
+  lineAmount: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  lineBalance: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginTop: 20,
+  },
+});
@@ -0,0 +1,347 @@
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Stack,
+  useFocusEffect,
+  useLocalSearchParams,
+  useRouter,
+} from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { formatCalendarDate, formatTime } from "@/lib/dates";
+import { formatMoney } from "@/lib/money";
+import { receiptUri } from "@/lib/receipts";
+import {
+  categoryLines,
+  getStatus,
+  getTransaction,
+  Transaction,
+} from "@/lib/transactionRepository";
+
+export default function TransactionDetailsScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const [transaction, setTransaction] = useState<Transaction | null>(null);
+  const [account, setAccount] = useState<Account | undefined>();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [openReceipt, setOpenReceipt] = useState<string | null>(null);
+
+  // Reload on focus to show changes made on the edit screen
+  useFocusEffect(
+    React.useCallback(() => {
+      const load = async () => {
+        try {
+          const [storedTransaction, storedAccounts, storedCategories] =
+            await Promise.all([
+              getTransaction(Number(params.id)),
+              listAccounts(),
+              listCategories(),
+            ]);
+          if (!storedTransaction) {
+            Alert.alert("Error", "Transaction not found");
+            router.back();
+            return;
+          }
+          setTransaction(storedTransaction);
+          setAccount(
+            storedAccounts.find((a) => a.id === storedTransaction.accountId)
+          );
+          setCategories(storedCategories);
+        } catch (error) {
+          console.error("Error loading transaction:", error);
+          Alert.alert("Error", "Could not load transaction details");
+          router.back();
+        }
+      };
+      load();
+    }, [params.id, router])
+  );
+
+  if (!transaction) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text>Loading transaction...</Text>
+      </View>
+    );
+  }
+
+  const currency = account?.currency ?? DEFAULT_CURRENCY;
+  const date = new Date(transaction.date);
+  const findCategory = (id: string) => categories.find((c) => c.id === id);
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: "Transaction",
+          headerShown: true,
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={() =>
+                router.push({
+                  pathname: "/edit-transaction",
+                  params: { id: String(transaction.id) },
+                })
+              }
+            >
+              <Text style={styles.editText}>Edit</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.scrollContainer}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.merchant}>{transaction.merchant}</Text>
+          <Text
+            style={[
+              styles.amount,
+              transaction.amount < 0
+                ? styles.negativeAmount
+                : styles.positiveAmount,
+            ]}
+          >
+            {formatMoney(transaction.amount, currency)}
+          </Text>
+          <Text style={styles.meta}>
+            {formatCalendarDate(date)}, {formatTime(date)}
+          </Text>
+          <Text style={styles.meta}>{account?.name ?? "Unknown account"}</Text>
+          {getStatus(transaction) !== "uncleared" && (
+            <Text style={styles.meta}>
+              {getStatus(transaction) === "reconciled"
+                ? "Reconciled"
+                : "Cleared"}
+            </Text>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>
+          {transaction.splits ? "Split" : "Category"}
+        </Text>
+        <View style={styles.card}>
+          {categoryLines(transaction).map((line) => {
+            const category = findCategory(line.categoryId);
+            return (
+              <View key={line.categoryId} style={styles.lineRow}>
+                <Ionicons
+                  name={category?.icon ?? "pricetag-outline"}
+                  size={18}
+                  color="#1E3A8A"
+                />
+                <Text style={styles.lineName}>
+                  {category?.name ?? "Uncategorized"}
+                </Text>
+                {transaction.splits && (
+                  <Text style={styles.lineAmount}>
+                    {formatMoney(line.amount, currency)}
+                  </Text>
+                )}
+              </View>
+            );
+          })}
+        </View>
+
+        {transaction.note ? (
+          <>
+            <Text style={styles.sectionTitle}>Note</Text>
+            <View style={styles.card}>
+              <Text style={styles.noteText}>{transaction.note}</Text>
+            </View>
+          </>
+        ) : null}
+
+        {transaction.tags && (
+          <>
+            <Text style={styles.sectionTitle}>Tags</Text>
+            <View style={styles.tagContainer}>
+              {transaction.tags.map((tag) => (
+                <View key={tag} style={styles.tag}>
+                  <Text style={styles.tagText}>{tag}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {transaction.receipts && (
+          <>
+            <Text style={styles.sectionTitle}>Receipts</Text>
+            <View style={styles.receiptContainer}>
+              {transaction.receipts.map((name) => (
+                <TouchableOpacity
+                  key={name}
+                  onPress={() => setOpenReceipt(receiptUri(name))}
+                >
+                  <Image
+                    source={{ uri: receiptUri(name) }}
+                    style={styles.receipt}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={openReceipt !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setOpenReceipt(null)}
+      >
+        <View style={styles.viewer}>
+          {openReceipt && (
+            <Image
+              source={{ uri: openReceipt }}
+              style={styles.viewerImage}
+              resizeMode="contain"
+            />
+          )}
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={() => setOpenReceipt(null)}
+          >
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F5F7FF",
+  },
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  editText: {
+    fontSize: 16,
+    color: "#1E3A8A",
+    fontWeight: "500",
+  },
+  summaryCard: {
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 20,
+    marginTop: 20,
+  },
+  merchant: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  amount: {
+    fontSize: 28,
+    fontWeight: "bold",
+    marginVertical: 8,
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  meta: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+  },
+  lineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 4,
+  },
+  lineName: {
+    flex: 1,
+    fontSize: 16,
+    color: "#1F2937",
+    marginLeft: 10,
+  },
+  lineAmount: {
+    fontSize: 16,
+    color: "#4B5563",
+  },
+  noteText: {
+    fontSize: 16,
+    color: "#1F2937",
+  },
+  tagContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  tag: {
+    backgroundColor: "#E0E7FF",
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  tagText: {
+    fontSize: 13,
+    color: "#1E3A8A",
+  },
+  receiptContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 20,
+  },
+  receipt: {
+    width: 100,
+    height: 100,
+    borderRadius: 8,
+    backgroundColor: "#E5E7EB",
+    marginRight: 10,
+    marginBottom: 10,
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.9)",
+    justifyContent: "center",
+  },
+  viewerImage: {
+    width: "100%",
+    height: "80%",
+  },
+  closeButton: {
+    position: "absolute",
+    top: 50,
+    right: 20,
+  },
+});
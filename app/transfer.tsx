@@ -0,0 +1,460 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DateTimeField } from "@/components/DateTimeField";
+import { DEFAULT_CURRENCY, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { ExchangeRates, getExchangeRates } from "@/lib/exchangeRateRepository";
+import {
+  convertWithRate,
+  formatRate,
+  getRate,
+  parseRate,
+} from "@/lib/exchangeRates";
+import { formatMoney, formatPlainAmount, parseMoney } from "@/lib/money";
+import {
+  getStatus,
+  getTransfer,
+  saveTransfer,
+} from "@/lib/transactionRepository";
+
+// The rate from the exchange-rate table for the chosen accounts, if any
+const suggestedRate = (
+  fromId: string,
+  toId: string,
+  accountList: Account[],
+  table: ExchangeRates | null
+): string => {
+  const from = accountList.find((a) => a.id === fromId)?.currency;
+  const to = accountList.find((a) => a.id === toId)?.currency;
+  const suggested = from && to && table ? getRate(table, from, to) : null;
+  return suggested !== null ? formatRate(suggested) : "";
+};
+
+export default function TransferScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const transferId = typeof params.id === "string" ? params.id : undefined;
+  const initialFromAccountId =
+    typeof params.fromAccountId === "string" ? params.fromAccountId : "";
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [fromAccountId, setFromAccountId] =
+    useState<string>(initialFromAccountId);
+  const [toAccountId, setToAccountId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [rate, setRate] = useState("");
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates | null>(
+    null
+  );
+  const [date, setDate] = useState(() => new Date());
+  const [loading, setLoading] = useState(transferId !== undefined);
+  const [reconciled, setReconciled] = useState(false);
+
+  // Offers the rate from the exchange-rate table for the chosen accounts
+  const suggestRate = (fromId: string, toId: string) => {
+    setRate(suggestedRate(fromId, toId, accounts, exchangeRates));
+  };
+
+  useEffect(() => {
+    const loadTransfer = async () => {
+      try {
+        const [storedAccounts, storedRates] = await Promise.all([
+          listAccounts(),
+          getExchangeRates(),
+        ]);
+        setAccounts(storedAccounts);
+        setExchangeRates(storedRates);
+
+        if (!transferId) {
+          const openAccounts = storedAccounts.filter((a) => !a.archived);
+          const from = initialFromAccountId || openAccounts[0]?.id || "";
+          const to = openAccounts.find((a) => a.id !== from)?.id ?? "";
+          setFromAccountId(from);
+          setToAccountId(to);
+          setRate(suggestedRate(from, to, storedAccounts, storedRates));
+          return;
+        }
+
+        const transfer = await getTransfer(transferId);
+        if (!transfer) {
+          Alert.alert("Error", "Transfer not found");
+          router.back();
+          return;
+        }
+        setFromAccountId(transfer.from.accountId);
+        setToAccountId(transfer.to.accountId);
+        setAmount(
+          formatPlainAmount(
+            -transfer.from.amount,
+            storedAccounts.find((a) => a.id === transfer.from.accountId)
+              ?.currency ?? DEFAULT_CURRENCY
+          )
+        );
+        if (transfer.from.exchangeRate !== undefined) {
+          setRate(formatRate(transfer.from.exchangeRate));
+        } else {
+          setRate(
+            suggestedRate(
+              transfer.from.accountId,
+              transfer.to.accountId,
+              storedAccounts,
+              storedRates
+            )
+          );
+        }
+        setDate(new Date(transfer.to.date));
+        setReconciled(
+          getStatus(transfer.from) === "reconciled" ||
+            getStatus(transfer.to) === "reconciled"
+        );
+        setLoading(false);
+      } catch (error) {
+        console.error("Error loading transfer:", error);
+        Alert.alert("Error", "Could not load transfer details");
+        router.back();
+      }
+    };
+
+    loadTransfer();
+  }, [transferId, initialFromAccountId, router]);
+
+  const fromAccount = accounts.find((a) => a.id === fromAccountId);
+  const toAccount = accounts.find((a) => a.id === toAccountId);
+  const crossCurrency =
+    fromAccount !== undefined &&
+    toAccount !== undefined &&
+    fromAccount.currency !== toAccount.currency;
+
+  // What the receiving account gets, or null until amount and rate are valid
+  const receivedAmount = (() => {
+    if (!fromAccount || !toAccount) return null;
+    const sent = parseMoney(amount, fromAccount.currency);
+    const parsedRate = parseRate(rate);
+    return sent !== null && parsedRate !== null
+      ? convertWithRate(
+          sent,
+          fromAccount.currency,
+          toAccount.currency,
+          parsedRate
+        )
+      : null;
+  })();
+
+  const selectFromAccount = (id: string) => {
+    setFromAccountId(id);
+    suggestRate(id, toAccountId);
+  };
+
+  const selectToAccount = (id: string) => {
+    setToAccountId(id);
+    suggestRate(fromAccountId, id);
+  };
+
+  const handleSubmit = async () => {
+    if (!fromAccount || !toAccount) {
+      Alert.alert("Error", "Please select both accounts");
+      return;
+    }
+
+    if (fromAccount.id === toAccount.id) {
+      Alert.alert("Error", "Please select two different accounts");
+      return;
+    }
+
+    const minorUnits = parseMoney(amount, fromAccount.currency);
+    if (minorUnits === null || minorUnits <= 0) {
+      Alert.alert("Error", "Please enter a valid amount");
+      return;
+    }
+
+    const exchangeRate = crossCurrency ? parseRate(rate) : null;
+    if (crossCurrency && (exchangeRate === null || !receivedAmount)) {
+      Alert.alert("Error", "Please enter a valid exchange rate");
+      return;
+    }
+
+    const save = async () => {
+      try {
+        await saveTransfer({
+          transferId,
+          fromAccountId: fromAccount.id,
+          toAccountId: toAccount.id,
+          amount: minorUnits,
+          toAmount: crossCurrency ? receivedAmount! : undefined,
+          exchangeRate: exchangeRate ?? undefined,
+          date: date.toISOString(),
+          fromMerchant: `Transfer to ${toAccount.name}`,
+          toMerchant: `Transfer from ${fromAccount.name}`,
+        });
+
+        Alert.alert(
+          "Success",
+          transferId
+            ? "Transfer updated successfully"
+            : "Transfer completed successfully",
+          [
+            {
+              text: "OK",
+              onPress: () => router.back(),
+            },
+          ]
+        );
+      } catch (error) {
+        console.error("Error saving transfer:", error);
+        Alert.alert("Error", "Could not save the transfer");
+      }
+    };
+
+    if (reconciled) {
+      Alert.alert(
+        "Edit Reconciled Transfer",
+        "This transfer has been reconciled against a bank statement. Changing it can put its accounts out of balance with their statements.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Save Changes", style: "destructive", onPress: save },
+        ]
+      );
+      return;
+    }
+    save();
+  };
+
+  const renderAccountOptions = (
+    selectedId: string,
+    onSelect: (id: string) => void
+  ) => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.accountSelectorContainer}
+    >
+      {accounts
+        .filter((account) => !account.archived || account.id === selectedId)
+        .map((account) => (
+          <TouchableOpacity
+            key={account.id}
+            style={[
+              styles.accountOption,
+              selectedId === account.id ? styles.selectedAccountOption : null,
+            ]}
+            onPress={() => onSelect(account.id)}
+          >
+            <Ionicons
+              name={getAccountIcon(account.type)}
+              size={20}
+              color={selectedId === account.id ? "#1E3A8A" : "#6B7280"}
+            />
+            <Text
+              style={[
+                styles.accountOptionText,
+                selectedId === account.id
+                  ? styles.selectedAccountOptionText
+                  : null,
+              ]}
+            >
+              {account.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+    </ScrollView>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text>Loading transfer...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.keyboardAvoid}
+    >
+      <Stack.Screen
+        options={{
+          title: transferId ? "Edit Transfer" : "Transfer",
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView style={styles.scrollContainer}>
+        <View style={styles.formContainer}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>From</Text>
+            {renderAccountOptions(fromAccountId, selectFromAccount)}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>To</Text>
+            {renderAccountOptions(toAccountId, selectToAccount)}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Amount</Text>
+            <TextInput
+              style={styles.textInput}
+              placeholder={formatPlainAmount(
+                0,
+                fromAccount?.currency ?? DEFAULT_CURRENCY
+              )}
+              keyboardType="decimal-pad"
+              value={amount}
+              onChangeText={setAmount}
+            />
+          </View>
+
+          {crossCurrency && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Exchange Rate</Text>
+              <View style={styles.rateRow}>
+                <Text style={styles.rateText}>1 {fromAccount.currency} =</Text>
+                <TextInput
+                  style={[styles.textInput, styles.rateInput]}
+                  placeholder="Rate"
+                  keyboardType="decimal-pad"
+                  value={rate}
+                  onChangeText={setRate}
+                />
+                <Text style={styles.rateText}>{toAccount.currency}</Text>
+              </View>
+              <Text style={styles.hintText}>
+                {receivedAmount !== null
+                  ? `${toAccount.name} receives ${formatMoney(
+                      receivedAmount,
+                      toAccount.currency
+                    )}`
+                  : "Rates can be saved under More → Exchange Rates"}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Date</Text>
+            <DateTimeField value={date} onChange={setDate} />
+          </View>
+        </View>
+      </ScrollView>
+
+      <View style={styles.submitContainer}>
+        <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+          <Text style={styles.submitText}>
+            {transferId ? "Update Transfer" : "Transfer"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F5F7FF",
+  },
+  keyboardAvoid: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  formContainer: {
+    marginTop: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginBottom: 8,
+  },
+  accountSelectorContainer: {
+    marginBottom: 5,
+  },
+  accountOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 10,
+    paddingHorizontal: 15,
+    borderRadius: 8,
+    marginRight: 10,
+  },
+  selectedAccountOption: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  accountOptionText: {
+    fontSize: 14,
+    marginLeft: 8,
+    color: "#4B5563",
+  },
+  selectedAccountOptionText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  textInput: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  rateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  rateText: {
+    fontSize: 16,
+    color: "#1F2937",
+  },
+  rateInput: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 8,
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,319 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useFocusEffect } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { formatCalendarDate } from "@/lib/dates";
+import { formatMoney } from "@/lib/money";
+import { removeUnusedReceipts } from "@/lib/receipts";
+import {
+  isTransfer,
+  listDeletedTransactions,
+  purgeDeletedTransactions,
+  purgeTransaction,
+  restoreTransaction,
+  Transaction,
+  TRASH_RETENTION_DAYS,
+} from "@/lib/transactionRepository";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashScreen() {
+  const [deleted, setDeleted] = useState<Transaction[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadTrash();
+    }, [])
+  );
+
+  const loadTrash = async () => {
+    try {
+      const [storedDeleted, storedCategories, storedAccounts] =
+        await Promise.all([
+          listDeletedTransactions(),
+          listCategories(),
+          listAccounts(),
+        ]);
+      // One row per transfer: the outgoing leg describes the pair
+      setDeleted(storedDeleted.filter((t) => !isTransfer(t) || t.amount < 0));
+      setCategories(storedCategories);
+      setAccounts(storedAccounts);
+    } catch (error) {
+      console.error("Error loading trash:", error);
+      Alert.alert("Error", "Could not load the trash");
+    }
+  };
+
+  const handleRestore = async (transaction: Transaction) => {
+    try {
+      await restoreTransaction(transaction.id);
+      await loadTrash();
+    } catch (error) {
+      console.error("Error restoring transaction:", error);
+      Alert.alert("Error", "Could not restore the transaction");
+    }
+  };
+
+  const handlePurge = (transaction: Transaction) => {
+    Alert.alert(
+      "Delete Forever",
+      `${transaction.merchant} will be deleted permanently.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await purgeTransaction(transaction.id);
+              await removeUnusedReceipts();
+              await loadTrash();
+            } catch (error) {
+              console.error("Error purging transaction:", error);
+              Alert.alert("Error", "Could not delete the transaction");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      "Empty Trash",
+      "Everything in the trash will be deleted permanently.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await purgeDeletedTransactions(new Date(), 0);
+              await removeUnusedReceipts();
+              await loadTrash();
+            } catch (error) {
+              console.error("Error emptying trash:", error);
+              Alert.alert("Error", "Could not empty the trash");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const daysLeft = (transaction: Transaction) =>
+    Math.max(
+      Math.ceil(
+        (new Date(transaction.deletedAt!).getTime() +
+          TRASH_RETENTION_DAYS * DAY_MS -
+          Date.now()) /
+          DAY_MS
+      ),
+      0
+    );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Trash", headerShown: true }} />
+
+      <ScrollView style={styles.scrollContainer}>
+        <Text style={styles.hintText}>
+          Deleted transactions stay here for {TRASH_RETENTION_DAYS} days before
+          they are removed for good.
+        </Text>
+
+        {deleted.length === 0 && (
+          <Text style={styles.emptyText}>The trash is empty.</Text>
+        )}
+
+        {deleted.map((transaction) => {
+          const category = categories.find(
+            (c) => c.id === transaction.categoryId
+          );
+          const currency =
+            accounts.find((a) => a.id === transaction.accountId)?.currency ??
+            DEFAULT_CURRENCY;
+          return (
+            <View key={transaction.id} style={styles.trashItem}>
+              <View style={styles.trashHeader}>
+                <View style={styles.trashIcon}>
+                  <Ionicons
+                    name={
+                      isTransfer(transaction)
+                        ? "swap-horizontal-outline"
+                        : category?.icon ?? "pricetag-outline"
+                    }
+                    size={20}
+                    color="#FFFFFF"
+                  />
+                </View>
+                <View style={styles.trashText}>
+                  <Text style={styles.trashName}>{transaction.merchant}</Text>
+                  <Text style={styles.trashMeta}>
+                    {formatCalendarDate(new Date(transaction.date))} · deleted{" "}
+                    {formatCalendarDate(new Date(transaction.deletedAt!))}
+                  </Text>
+                </View>
+                <Text
+                  style={[
+                    styles.trashAmount,
+                    transaction.amount < 0
+                      ? styles.negativeAmount
+                      : styles.positiveAmount,
+                  ]}
+                >
+                  {formatMoney(transaction.amount, currency)}
+                </Text>
+              </View>
+
+              <View style={styles.actionRow}>
+                <Text style={styles.retentionText}>
+                  {daysLeft(transaction)} days left
+                </Text>
+                <TouchableOpacity onPress={() => handlePurge(transaction)}>
+                  <Text style={styles.purgeText}>Delete Forever</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleRestore(transaction)}>
+                  <Text style={styles.restoreText}>Restore</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {deleted.length > 0 && (
+        <View style={styles.submitContainer}>
+          <TouchableOpacity
+            style={[styles.submitButton, styles.emptyTrashButton]}
+            onPress={handleEmptyTrash}
+          >
+            <Text style={styles.submitText}>Empty Trash</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F7FF",
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  hintText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginVertical: 15,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginTop: 30,
+  },
+  trashItem: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+  },
+  trashHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  trashIcon: {
+    backgroundColor: "#9CA3AF",
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 15,
+  },
+  trashText: {
+    flex: 1,
+  },
+  trashName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#1F2937",
+    marginBottom: 2,
+  },
+  trashMeta: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  trashAmount: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  negativeAmount: {
+    color: "#EF4444",
+  },
+  positiveAmount: {
+    color: "#10B981",
+  },
+  actionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#F3F4F6",
+    paddingTop: 10,
+  },
+  retentionText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#6B7280",
+  },
+  purgeText: {
+    fontSize: 14,
+    color: "#EF4444",
+    fontWeight: "500",
+    marginRight: 20,
+  },
+  restoreText: {
+    fontSize: 14,
+    color: "#1E3A8A",
+    fontWeight: "500",
+  },
+  submitContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  submitButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+  },
+  emptyTrashButton: {
+    backgroundColor: "#EF4444",
+  },
+  submitText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,176 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as SplashScreen from "expo-splash-screen";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  AppState,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { LockScreen } from "@/components/LockScreen";
+import {
+  AppLockSettings,
+  getAppLockSettings,
+  isAppLockEnabled,
+  onAppLockChange,
+  shouldAutoLock,
+} from "@/lib/appLock";
+
+interface AppLockGateProps {
+  children: React.ReactNode;
+  /** Called once stored data can be read: at once, or after the first PIN. */
+  onStorageOpen: () => void;
+}
+
+/**
+ * Covers the app with the PIN screen on cold start and after the chosen
+ * time in the background, and hides it from the app switcher while the
+ * lock is on. After the first unlock, screens stay mounted underneath so
+ * unlocking returns to them. If the settings cannot be read the app stays
+ * covered, with a retry, rather than opening unprotected.
+ */
+export function AppLockGate({ children, onStorageOpen }: AppLockGateProps) {
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  const [locked, setLocked] = useState(false);
+  // Encrypted storage stays unreadable until the first correct PIN
+  const [storageOpen, setStorageOpen] = useState(false);
+  const [appState, setAppState] = useState(AppState.currentState);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const settingsRef = useRef<AppLockSettings | null>(null);
+  const backgroundedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  const loadSettings = useCallback(() => {
+    setLoadFailed(false);
+    getAppLockSettings()
+      .then((stored) => {
+        setSettings(stored);
+        if (isAppLockEnabled(stored)) {
+          setLocked(true);
+          // The splash screen waits for storage, which waits for the PIN
+          SplashScreen.hideAsync();
+        } else {
+          setStorageOpen(true);
+        }
+      })
+      .catch((error) => {
+        // Without the stored hash no PIN can be checked, so nothing opens
+        console.error("Error loading app lock:", error);
+        setLoadFailed(true);
+        SplashScreen.hideAsync();
+      });
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+    return onAppLockChange(setSettings);
+  }, [loadSettings]);
+
+  useEffect(() => {
+    if (storageOpen) {
+      onStorageOpen();
+    }
+  }, [storageOpen, onStorageOpen]);
+
+  const unlock = () => {
+    setLocked(false);
+    setStorageOpen(true);
+  };
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      setAppState(nextState);
+      if (nextState === "active") {
+        const since = backgroundedAt.current;
+        backgroundedAt.current = null;
+        if (
+          since !== null &&
+          settingsRef.current &&
+          shouldAutoLock(settingsRef.current, since, Date.now())
+        ) {
+          setLocked(true);
+        }
+      } else if (backgroundedAt.current === null) {
+        backgroundedAt.current = Date.now();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  if (settings === null) {
+    return loadFailed ? (
+      <View style={styles.errorContainer}>
+        <Ionicons name="lock-closed" size={48} color="#FFFFFF" />
+        <Text style={styles.errorTitle}>Could not check the app lock</Text>
+        <TouchableOpacity style={styles.retryButton} onPress={loadSettings}>
+          <Text style={styles.retryText}>Try Again</Text>
+        </TouchableOpacity>
+      </View>
+    ) : null;
+  }
+
+  const enabled = isAppLockEnabled(settings);
+  const showLock = enabled && locked;
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.container}
+        accessibilityElementsHidden={showLock}
+        importantForAccessibility={showLock ? "no-hide-descendants" : "auto"}
+      >
+        {storageOpen && children}
+      </View>
+
+      {showLock && <LockScreen onUnlock={unlock} />}
+
+      {/* Drawn while inactive so the app switcher snapshot shows no balances */}
+      {enabled && appState !== "active" && (
+        <View style={styles.privacyOverlay}>
+          <Ionicons name="lock-closed" size={48} color="#FFFFFF" />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  errorContainer: {
+    flex: 1,
+    backgroundColor: "#1E3A8A",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginTop: 15,
+  },
+  retryButton: {
+    backgroundColor: "rgba(255, 255, 255, 0.15)",
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    marginTop: 25,
+  },
+  retryText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+  privacyOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "#1E3A8A",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -0,0 +1,95 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { BudgetStatus } from "@/lib/budgets";
+
+type IconName = React.ComponentProps<typeof Ionicons>["name"];
+
+interface BudgetProgressProps {
+  label: string;
+  icon?: IconName;
+  status: BudgetStatus;
+  formatValue: (value: number) => string;
+}
+
+export function BudgetProgress({
+  label,
+  icon,
+  status,
+  formatValue,
+}: BudgetProgressProps) {
+  const ratio =
+    status.available > 0
+      ? status.spent / status.available
+      : status.spent > 0
+      ? 1
+      : 0;
+  const overBudget = status.remaining < 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        {icon && (
+          <Ionicons name={icon} size={16} color="#4B5563" style={styles.icon} />
+        )}
+        <Text style={styles.label}>{label}</Text>
+        <Text style={[styles.value, overBudget ? styles.overValue : null]}>
+          {formatValue(status.spent)} / {formatValue(status.available)}
+        </Text>
+      </View>
+      <View style={styles.track}>
+        <View
+          style={[
+            styles.bar,
+            {
+              width: `${Math.min(ratio, 1) * 100}%`,
+              backgroundColor: overBudget
+                ? "#EF4444"
+                : ratio >= 0.8
+                ? "#F59E0B"
+                : "#10B981",
+            },
+          ]}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  icon: {
+    marginRight: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1F2937",
+  },
+  value: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  overValue: {
+    color: "#EF4444",
+    fontWeight: "600",
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E5E7EB",
+    overflow: "hidden",
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+  },
+});
@@ -0,0 +1,120 @@
+import { Ionicons } from "@expo/vector-icons";
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker";
+import React, { useState } from "react";
+import {
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { formatCalendarDate, formatTime } from "@/lib/dates";
+
+interface DateTimeFieldProps {
+  value: Date;
+  onChange: (date: Date) => void;
+  /** Hide the time button when only the day matters. */
+  dateOnly?: boolean;
+}
+
+type PickerMode = "date" | "time";
+
+export function DateTimeField({
+  value,
+  onChange,
+  dateOnly = false,
+}: DateTimeFieldProps) {
+  const [pickerMode, setPickerMode] = useState<PickerMode | null>(null);
+
+  const handleChange = (event: DateTimePickerEvent, selected?: Date) => {
+    // Android shows a dialog that closes itself on set or dismiss
+    if (Platform.OS === "android") {
+      setPickerMode(null);
+    }
+    if (event.type === "set" && selected) {
+      onChange(selected);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.field, dateOnly ? styles.fullWidth : styles.dateField]}
+          onPress={() => setPickerMode("date")}
+        >
+          <Ionicons name="calendar-outline" size={18} color="#4B5563" />
+          <Text style={styles.fieldText}>{formatCalendarDate(value)}</Text>
+        </TouchableOpacity>
+        {!dateOnly && (
+          <TouchableOpacity
+            style={styles.field}
+            onPress={() => setPickerMode("time")}
+          >
+            <Ionicons name="time-outline" size={18} color="#4B5563" />
+            <Text style={styles.fieldText}>{formatTime(value)}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {pickerMode && (
+        <View>
+          <DateTimePicker
+            value={value}
+            mode={pickerMode}
+            display={Platform.OS === "ios" ? "spinner" : "default"}
+            onChange={handleChange}
+          />
+          {Platform.OS === "ios" && (
+            <TouchableOpacity
+              style={styles.doneButton}
+              onPress={() => setPickerMode(null)}
+            >
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+  },
+  field: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+  },
+  dateField: {
+    flex: 1,
+    marginRight: 10,
+  },
+  fullWidth: {
+    flex: 1,
+  },
+  fieldText: {
+    fontSize: 16,
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  doneButton: {
+    alignSelf: "flex-end",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  doneText: {
+    fontSize: 16,
+    color: "#1E3A8A",
+    fontWeight: "600",
+  },
+});
@@ -1,129 +1,115 @@
 import { Ionicons } from "@expo/vector-icons";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useFocusEffect, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   Alert,
+  AppState,
   Modal,
   SafeAreaView,
   ScrollView,
+  SectionList,
   StatusBar,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
 
-interface AccountData {
-  id: string;
-  name: string;
-  accountNumber: string;
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { TransactionFilterModal } from "@/components/TransactionFilterModal";
+import { UndoSnackbar } from "@/components/UndoSnackbar";
+import { DEFAULT_CURRENCY, getAccountIcon } from "@/constants/Accounts";
+import { Account, listAccounts } from "@/lib/accountRepository";
+import { accountBalance, runningBalances } from "@/lib/balances";
+import { Budget, listBudgets } from "@/lib/budgetRepository";
+import { BudgetStatus, getBudgetStatus } from "@/lib/budgets";
+import { Category, listCategories } from "@/lib/categoryRepository";
+import { formatTime } from "@/lib/dates";
+import { ExchangeRates, getExchangeRates } from "@/lib/exchangeRateRepository";
+import { totalInHomeCurrency } from "@/lib/exchangeRates";
+import { convertTransactions, getMonth } from "@/lib/insights";
+import { formatAmount, formatMoney } from "@/lib/money";
+import { removeUnusedReceipts } from "@/lib/receipts";
+import { applyDueRecurring } from "@/lib/recurringRepository";
+import {
+  describeFilters,
+  emptyFilters,
+  filterTransactions,
+  filtersForCurrency,
+  TransactionFilters,
+} from "@/lib/transactionFilters";
+import {
+  DaySection,
+  groupByDay,
+  TRANSACTION_PAGE_SIZE,
+} from "@/lib/transactionSections";
+import {
+  deleteTransaction as removeTransaction,
+  getAccountTotals,
+  getStatus,
+  getTransfer,
+  isTransfer,
+  listTransactions,
+  purgeDeletedTransactions,
+  restoreTransaction,
+  Transaction,
+} from "@/lib/transactionRepository";
+
+interface AccountData extends Account {
   balance: number;
-  currency: string;
-  type: "chequing" | "savings";
 }
 
 type IconName = React.ComponentProps<typeof Ionicons>["name"];
 
-interface Transaction {
-  id: number;
-  merchant: string;
-  amount: number;
-  date: string;
-  icon: IconName;
-  accountId: string;
-}
-
 interface QuickAction {
   id: number;
   name: string;
   icon: IconName;
 }
 
-const INITIAL_BALANCE = 0;
-
 const HomePage: React.FC = () => {
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<string>("Home");
-
-  const [accounts, setAccounts] = useState<AccountData[]>([
-    {
-      id: "chequing",
-      name: "Chequing Account",
-      accountNumber: "**** **** **** 1234",
-      balance: INITIAL_BALANCE,
-      currency: "CAD",
-      type: "chequing",
-    },
-    {
-      id: "savings",
-      name: "Savings Account",
-      accountNumber: "**** **** **** 5678",
-      balance: INITIAL_BALANCE,
-      currency: "CAD",
-      type: "savings",
-    },
-  ]);
+
+  const [accounts, setAccounts] = useState<AccountData[]>([]);
 
   const [selectedAccountId, setSelectedAccountId] =
     useState<string>("chequing");
 
-  const defaultTransactions: Transaction[] = [
-    {
-      id: 1,
-      merchant: "Coffee Shop",
-      amount: -4.5,
-      date: "Today, 8:30 AM",
-      icon: "cafe-outline" as IconName,
-      accountId: "chequing",
-    },
-    {
-      id: 2,
-      merchant: "Supermarket",
-      amount: -65.2,
-      date: "Yesterday, 6:15 PM",
-      icon: "cart-outline" as IconName,
-      accountId: "chequing",
-    },
-    {
-      id: 3,
-      merchant: "Salary Deposit",
-      amount: 2500.0,
-      date: "Mar 25, 2025",
-      icon: "cash-outline" as IconName,
-      accountId: "chequing",
-    },
-    {
-      id: 4,
-      merchant: "Electricity Bill",
-      amount: -85.75,
-      date: "Mar 23, 2025",
-      icon: "flash-outline" as IconName,
-      accountId: "chequing",
-    },
-    {
-      id: 5,
-      merchant: "Interest Payment",
-      amount: 25.5,
-      date: "Mar 20, 2025",
-      icon: "trending-up-outline" as IconName,
-      accountId: "savings",
-    },
-    {
-      id: 6,
-      merchant: "Savings Deposit",
-      amount: 500.0,
-      date: "Mar 15, 2025",
-      icon: "cash-outline" as IconName,
-      accountId: "savings",
-    },
-  ];
-
+  // Everything outside the trash, newest first, read once per load. The
+  // list and the budgets both work from it.
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  // Day the trash was last emptied of expired entries
+  const purgedOn = useRef<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  // This month's status by category, worked out when the data loads
+  const [budgetStatuses, setBudgetStatuses] = useState<
+    Map<string, BudgetStatus>
+  >(new Map());
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates | null>(
+    null
+  );
   const [selectedTransaction, setSelectedTransaction] =
     useState<Transaction | null>(null);
   const [showActionModal, setShowActionModal] = useState(false);
   const [showAccountModal, setShowAccountModal] = useState(false);
+  // Kept across account switches so a search can be repeated per account
+  const [filters, setFilters] = useState<TransactionFilters>(emptyFilters);
+  const [showFilterModal, setShowFilterModal] = useState(false);
+  // The list grows a page at a time as it is scrolled
+  const [visibleCount, setVisibleCount] = useState(TRANSACTION_PAGE_SIZE);
+  // The last deletion, offered for undo until the snackbar times out
+  const [deleted, setDeleted] = useState<{
+    id: number;
+    message: string;
+  } | null>(null);
 
   const quickActions: QuickAction[] = [
     { id: 1, name: "Send", icon: "arrow-up-outline" },
@@ -132,69 +118,100 @@ const HomePage: React.FC = () => {
     { id: 4, name: "More", icon: "grid-outline" },
   ];
 
-  useEffect(() => {
-    loadTransactions();
-  }, []);
-
-  useFocusEffect(
-    React.useCallback(() => {
-      loadTransactions();
-    }, [])
-  );
-
-  const loadTransactions = async () => {
+  const loadTransactions = useCallback(async () => {
     try {
-      const storedTransactions = await AsyncStorage.getItem("transactions");
-
-      if (storedTransactions) {
-        const parsedTransactions = JSON.parse(
-          storedTransactions
-        ) as Transaction[];
-        setTransactions(parsedTransactions);
-
-        updateBalances(parsedTransactions);
-      } else {
-        // No transactions found, initialize with default data for first launch
-        await AsyncStorage.setItem(
-          "transactions",
-          JSON.stringify(defaultTransactions)
-        );
-        setTransactions(defaultTransactions);
-        updateBalances(defaultTransactions);
+      await applyDueRecurring().catch((error) =>
+        console.error("Error applying recurring transactions:", error)
+      );
+      // Trash entries expire by the day, so this runs on the first load of
+      // each day rather than on every focus
+      const today = new Date().toDateString();
+      if (purgedOn.current !== today) {
+        purgedOn.current = today;
+        await purgeDeletedTransactions()
+          .then(removeUnusedReceipts)
+          .catch((error) => console.error("Error emptying old trash:", error));
       }
+      const [
+        storedCategories,
+        storedAccounts,
+        storedBudgets,
+        storedRates,
+        totals,
+        storedTransactions,
+      ] = await Promise.all([
+        listCategories(),
+        listAccounts(),
+        listBudgets(),
+        getExchangeRates(),
+        getAccountTotals(),
+        listTransactions(),
+      ]);
+      setCategories(storedCategories);
+      setBudgets(storedBudgets);
+      // Budgets are in the default currency, so spending is converted first
+      const budgetTransactions =
+        storedBudgets.length > 0
+          ? convertTransactions(
+              storedTransactions,
+              storedAccounts,
+              DEFAULT_CURRENCY,
+              storedRates
+            ).transactions
+          : [];
+      const month = getMonth(new Date());
+      setBudgetStatuses(
+        new Map(
+          storedBudgets.map((budget) => [
+            budget.categoryId,
+            getBudgetStatus(budget, budgetTransactions, month),
+          ])
+        )
+      );
+      setExchangeRates(storedRates);
+      setTransactions(storedTransactions);
+
+      const updatedAccounts = storedAccounts
+        .filter((account) => !account.archived)
+        .map((account) => ({
+          ...account,
+          balance: accountBalance(account, totals),
+        }));
+      setAccounts(updatedAccounts);
+      // Fall back to the first account if the selected one was archived or
+      // deleted
+      setSelectedAccountId((current) =>
+        updatedAccounts.some((account) => account.id === current)
+          ? current
+          : updatedAccounts[0]?.id ?? ""
+      );
     } catch (error) {
       console.error("Error loading transactions:", error);
-      setTransactions(defaultTransactions);
-      updateBalances(defaultTransactions);
     }
-  };
-
-  const updateBalances = (transArray: Transaction[]) => {
-    const updatedAccounts = accounts.map((account) => {
-      // Calculate balance for this account only
-      const accountTransactions = transArray.filter(
-        (t) => t.accountId === account.id
-      );
-      const accountBalance = accountTransactions.reduce(
-        (sum, transaction) => sum + transaction.amount,
-        INITIAL_BALANCE
-      );
-
-      return {
-        ...account,
-        balance: accountBalance,
-      };
-    });
+  }, []);
 
-    setAccounts(updatedAccounts);
-  };
+  // Recurring occurrences can fall due while the app sits in the
+  // background, so this also reloads when the app returns to the foreground
+  // while the screen is showing.
+  useFocusEffect(
+    useCallback(() => {
+      loadTransactions();
+      const subscription = AppState.addEventListener("change", (state) => {
+        if (state === "active") {
+          loadTransactions();
+        }
+      });
+      return () => subscription.remove();
+    }, [loadTransactions])
+  );
 
-  const formatCurrency = (amount: number): string => {
-    const selectedAccount = accounts.find(
-      (acc) => acc.id === selectedAccountId
+  // Each transaction is shown in the currency of the account it belongs to
+  const formatCurrency = (transaction: Transaction): string => {
+    const account = accounts.find((acc) => acc.id === transaction.accountId);
+    return formatMoney(
+      transaction.amount,
+      account ? account.currency : DEFAULT_CURRENCY
     );
-    const currency = selectedAccount ? selectedAccount.currency : "USD";
-    return `${amount < 0 ? "-" : ""}${currency} ${Math.abs(amount).toFixed(2)}`;
   };
 
   const navigateToAddTransaction = () => {
@@ -204,73 +221,216 @@ const HomePage: React.FC = () => {
     });
   };
 
-  const navigateToEditTransaction = (transaction: Transaction) => {
+  const navigateToTransfer = () => {
     router.push({
-      pathname: "/edit-transaction",
-      params: { transaction: JSON.stringify(transaction) },
+      pathname: "/transfer",
+      params: { fromAccountId: selectedAccountId },
+    });
+  };
+
+  const navigateToDetails = (transaction: Transaction) => {
+    router.push({
+      pathname: "/transaction-details",
+      params: { id: String(transaction.id) },
     });
     setShowActionModal(false);
   };
 
-  const deleteTransaction = async (id: number) => {
-    try {
-      const updatedTransactions = transactions.filter(
-        (transaction) => transaction.id !== id
-      );
-      await AsyncStorage.setItem(
-        "transactions",
-        JSON.stringify(updatedTransactions)
-      );
-      setTransactions(updatedTransactions);
-      updateBalances(updatedTransactions);
-      Alert.alert("Success", "Transaction deleted successfully");
-    } catch (error) {
-      console.error("Error deleting transaction:", error);
-      Alert.alert("Error", "Could not delete the transaction");
+  const navigateToEditTransaction = (transaction: Transaction) => {
+    if (transaction.transferId) {
+      router.push({
+        pathname: "/transfer",
+        params: { id: transaction.transferId },
+      });
+    } else {
+      router.push({
+        pathname: "/edit-transaction",
+        params: { id: String(transaction.id) },
+      });
     }
     setShowActionModal(false);
   };
 
-  const showDeleteConfirmation = (transaction: Transaction) => {
+  const handleQuickAction = (name: string) => {
+    switch (name) {
+      case "Send":
+        navigateToTransfer();
+        break;
+      case "More":
+        navigateToAddTransaction();
+        break;
+    }
+  };
+
+  const confirmDeleteTransaction = async (transaction: Transaction) => {
+    // The other leg of a transfer is in another account, so not on the page
+    const transfer = transaction.transferId
+      ? await getTransfer(transaction.transferId)
+      : undefined;
+    const reconciled = [transaction, transfer?.from, transfer?.to].some(
+      (t) => t && getStatus(t) === "reconciled"
+    );
+    if (!reconciled) {
+      deleteTransaction(transaction);
+      return;
+    }
+    setShowActionModal(false);
     Alert.alert(
-      "Delete Transaction",
-      `Are you sure you want to delete ${transaction.merchant}?`,
+      "Delete Reconciled Transaction",
+      "This transaction has been reconciled against a bank statement. Deleting it can put the account out of balance with that statement.",
       [
-        {
-          text: "Cancel",
-          style: "cancel",
-        },
+        { text: "Cancel", style: "cancel" },
         {
           text: "Delete",
-          onPress: () => deleteTransaction(transaction.id),
           style: "destructive",
+          onPress: () => deleteTransaction(transaction),
         },
       ]
     );
+  };
+
+  const deleteTransaction = async (transaction: Transaction) => {
     setShowActionModal(false);
+    try {
+      await removeTransaction(transaction.id);
+      await loadTransactions();
+      setDeleted({
+        id: transaction.id,
+        message: isTransfer(transaction)
+          ? "Transfer moved to trash"
+          : `${transaction.merchant} moved to trash`,
+      });
+    } catch (error) {
+      console.error("Error deleting transaction:", error);
+      Alert.alert("Error", "Could not delete the transaction");
+    }
   };
 
-  const getTabIconName = (tab: string, isActive: boolean): IconName => {
-    switch (tab) {
-      case "Home":
-        return isActive ? "home" : "home-outline";
-      case "Cards":
-        return isActive ? "card" : "card-outline";
-      case "Payments":
-        return isActive ? "cash" : "cash-outline";
-      case "Insights":
-        return isActive ? "bar-chart" : "bar-chart-outline";
-      case "More":
-        return isActive ? "menu" : "menu-outline";
-      default:
-        return "at-circle-outline";
+  const undoDelete = async () => {
+    if (!deleted) return;
+    setDeleted(null);
+    try {
+      await restoreTransaction(deleted.id);
+      await loadTransactions();
+    } catch (error) {
+      console.error("Error restoring transaction:", error);
+      Alert.alert("Error", "Could not restore the transaction");
     }
   };
 
-  const selectedAccount =
+  const getCategoryIcon = (categoryId: string): IconName =>
+    categories.find((category) => category.id === categoryId)?.icon ??
+    "pricetag-outline";
+
+  const selectedAccount: AccountData | undefined =
     accounts.find((acc) => acc.id === selectedAccountId) || accounts[0];
-  const filteredTransactions = transactions.filter(
-    (transaction) => transaction.accountId === selectedAccountId
+  const currency = selectedAccount?.currency ?? DEFAULT_CURRENCY;
+  // Amount bounds stay with their currency when switching accounts
+  const activeFilters = useMemo(
+    () => filtersForCurrency(filters, currency),
+    [filters, currency]
+  );
+  const listAccountId = selectedAccount?.id;
+  const selectedBalance = selectedAccount?.balance ?? 0;
+  // Worked out once per account, filter or load; scrolling only shows more
+  // of it
+  const accountHistory = useMemo(() => {
+    const own = transactions.filter(
+      (transaction) => transaction.accountId === listAccountId
+    );
+    return {
+      // Before filtering, so hidden transactions still count
+      balancesAfter: runningBalances(own, selectedBalance),
+      matching: filterTransactions(own, activeFilters),
+    };
+  }, [transactions, listAccountId, selectedBalance, activeFilters]);
+  const hasMore = accountHistory.matching.length > visibleCount;
+  const sections = useMemo(
+    () => groupByDay(accountHistory.matching.slice(0, visibleCount)),
+    [accountHistory, visibleCount]
+  );
+  useEffect(() => {
+    setVisibleCount(TRANSACTION_PAGE_SIZE);
+  }, [selectedAccountId, filters]);
+
+  const totalBalance =
+    exchangeRates && accounts.length > 1
+      ? totalInHomeCurrency(accounts, exchangeRates)
+      : null;
+  const filterChips = describeFilters(activeFilters, categories, currency);
+
+  const renderDayHeader = (section: DaySection) => (
+    <View style={styles.dayHeader}>
+      <Text style={styles.dayTitle}>{section.title}</Text>
+      <Text style={styles.dayTotal}>
+        {formatMoney(section.total, currency)}
+      </Text>
+    </View>
+  );
+
+  const renderTransaction = (transaction: Transaction) => (
+    <TouchableOpacity
+      style={styles.transactionItem}
+      onPress={() => {
+        setSelectedTransaction(transaction);
+        setShowActionModal(true);
+      }}
+    >
+      <View style={styles.transactionIconContainer}>
+        <Ionicons
+          name={
+            isTransfer(transaction)
+              ? "swap-horizontal-outline"
+              : transaction.splits
+              ? "pie-chart-outline"
+              : getCategoryIcon(transaction.categoryId)
+          }
+          size={20}
+          color="#ffffff"
+        />
+      </View>
+      <View style={styles.transactionDetails}>
+        <Text style={styles.merchantName}>{transaction.merchant}</Text>
+        <Text style={styles.transactionDate}>
+          {formatTime(new Date(transaction.date))}
+          {transaction.splits
+            ? ` · Split across ${transaction.splits.length} categories`
+            : ""}
+        </Text>
+      </View>
+      <View style={styles.amountColumn}>
+        <View style={styles.amountRow}>
+          {getStatus(transaction) !== "uncleared" && (
+            <Ionicons
+              name={
+                getStatus(transaction) === "reconciled"
+                  ? "lock-closed"
+                  : "checkmark-circle"
+              }
+              size={14}
+              color="#6B7280"
+              style={styles.statusIcon}
+            />
+          )}
+          <Text
+            style={[
+              styles.transactionAmount,
+              transaction.amount < 0
+                ? styles.negativeAmount
+                : styles.positiveAmount,
+            ]}
+          >
+            {formatCurrency(transaction)}
+          </Text>
+        </View>
+        <Text style={styles.runningBalance}>
+          {formatMoney(
+            accountHistory.balancesAfter.get(transaction.id) ?? 0,
+            currency
+          )}
+        </Text>
+      </View>
+    </TouchableOpacity>
   );
 
   return (
@@ -292,29 +452,46 @@ const HomePage: React.FC = () => {
           style={styles.accountSelector}
           onPress={() => setShowAccountModal(true)}
         >
-          <Text style={styles.accountName}>{selectedAccount.name}</Text>
+          <Text style={styles.accountName}>
+            {selectedAccount ? selectedAccount.name : "No accounts yet"}
+          </Text>
           <Ionicons name="chevron-down" size={20} color="#FFFFFF" />
         </TouchableOpacity>
 
-        <Text style={styles.balanceTitle}>Available Balance</Text>
-        <Text style={styles.balanceAmount}>
-          {selectedAccount.currency}{" "}
-          {selectedAccount.balance.toLocaleString(undefined, {
-            minimumFractionDigits: 2,
-          })}
-        </Text>
-        <Text style={styles.accountNumber}>
-          {selectedAccount.accountNumber}
-        </Text>
+        {selectedAccount && (
+          <>
+            <Text style={styles.balanceTitle}>Available Balance</Text>
+            <Text style={styles.balanceAmount}>
+              {formatMoney(selectedAccount.balance, selectedAccount.currency)}
+            </Text>
+            <Text style={styles.accountNumber}>
+              {selectedAccount.accountNumber
+                ? `**** ${selectedAccount.accountNumber}`
+                : " "}
+            </Text>
+            {totalBalance && exchangeRates && (
+              <TouchableOpacity
+                onPress={() => router.push("/exchange-rates")}
+                style={styles.totalBalance}
+              >
+                <Text style={styles.totalBalanceText}>
+                  All accounts:{" "}
+                  {formatMoney(totalBalance.total, exchangeRates.homeCurrency)}
+                  {totalBalance.missing.length > 0
+                    ? ` (no rate for ${totalBalance.missing.join(", ")})`
+                    : ""}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
 
         <View style={styles.quickActionsContainer}>
           {quickActions.map((action) => (
             <TouchableOpacity
               key={action.id}
               style={styles.quickActionButton}
-              onPress={
-                action.name === "More" ? navigateToAddTransaction : undefined
-              }
+              onPress={() => handleQuickAction(action.name)}
             >
               <View style={styles.actionIconContainer}>
                 <Ionicons name={action.icon} size={22} color="#ffffff" />
@@ -325,77 +502,135 @@ const HomePage: React.FC = () => {
         </View>
       </View>
 
+      {budgets.length > 0 && (
+        <View style={styles.budgetsContainer}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Budgets</Text>
+            <TouchableOpacity onPress={() => router.push("/budgets")}>
+              <Text style={styles.seeAllText}>Edit</Text>
+            </TouchableOpacity>
+          </View>
+          {budgets.map((budget) => {
+            const category = categories.find((c) => c.id === budget.categoryId);
+            const status = budgetStatuses.get(budget.categoryId);
+            if (!status) return null;
+            return (
+              <BudgetProgress
+                key={budget.categoryId}
+                label={category?.name ?? "Uncategorized"}
+                icon={category?.icon}
+                status={status}
+                formatValue={(value) => formatAmount(value, DEFAULT_CURRENCY)}
+              />
+            );
+          })}
+        </View>
+      )}
+
       <View style={styles.transactionsContainer}>
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>Recent Transactions</Text>
-          <TouchableOpacity onPress={navigateToAddTransaction}>
-            <Text style={styles.seeAllText}>Add New</Text>
+          <View style={styles.sectionActions}>
+            <TouchableOpacity
+              onPress={() =>
+                router.push({
+                  pathname: "/statement",
+                  params: { accountId: selectedAccountId },
+                })
+              }
+            >
+              <Text style={styles.seeAllText}>Statement</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={navigateToAddTransaction}>
+              <Text style={[styles.seeAllText, styles.sectionAction]}>
+                Add New
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.searchRow}>
+          <View style={styles.searchBox}>
+            <Ionicons name="search-outline" size={18} color="#9CA3AF" />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search merchants"
+              value={filters.query}
+              onChangeText={(query) => setFilters({ ...filters, query })}
+              returnKeyType="search"
+              clearButtonMode="while-editing"
+            />
+          </View>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setShowFilterModal(true)}
+          >
+            <Ionicons name="options-outline" size={22} color="#1E3A8A" />
           </TouchableOpacity>
         </View>
 
-        <ScrollView style={styles.transactionsList}>
-          {filteredTransactions.length > 0 ? (
-            filteredTransactions.map((transaction) => (
+        {filterChips.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.filterChips}
+          >
+            {filterChips.map((chip) => (
               <TouchableOpacity
-                key={transaction.id}
-                style={styles.transactionItem}
-                onPress={() => {
-                  setSelectedTransaction(transaction);
-                  setShowActionModal(true);
-                }}
+                key={chip.key}
+                style={styles.filterChip}
+                onPress={() => setFilters(chip.clear(filters))}
               >
-                <View style={styles.transactionIconContainer}>
-                  <Ionicons name={transaction.icon} size={20} color="#ffffff" />
-                </View>
-                <View style={styles.transactionDetails}>
-                  <Text style={styles.merchantName}>
-                    {transaction.merchant}
-                  </Text>
-                  <Text style={styles.transactionDate}>{transaction.date}</Text>
-                </View>
-                <Text
-                  style={[
-                    styles.transactionAmount,
-                    transaction.amount < 0
-                      ? styles.negativeAmount
-                      : styles.positiveAmount,
-                  ]}
-                >
-                  {formatCurrency(transaction.amount)}
-                </Text>
+                <Text style={styles.filterChipText}>{chip.label}</Text>
+                <Ionicons name="close" size={14} color="#1E3A8A" />
               </TouchableOpacity>
-            ))
-          ) : (
+            ))}
+            <TouchableOpacity
+              style={styles.clearChip}
+              onPress={() => setFilters(emptyFilters)}
+            >
+              <Text style={styles.clearChipText}>Clear all</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+
+        <SectionList
+          style={styles.transactionsList}
+          sections={sections}
+          keyExtractor={(transaction) => String(transaction.id)}
+          renderSectionHeader={({ section }) =>
+            renderDayHeader(section as DaySection)
+          }
+          renderItem={({ item }) => renderTransaction(item)}
+          stickySectionHeadersEnabled
+          initialNumToRender={20}
+          onEndReachedThreshold={0.5}
+          onEndReached={() => {
+            if (hasMore) {
+              setVisibleCount(visibleCount + TRANSACTION_PAGE_SIZE);
+            }
+          }}
+          ListEmptyComponent={
             <Text style={styles.emptyText}>
-              No transactions in this account yet. Add one to get started!
+              {filterChips.length > 0
+                ? "No transactions match these filters."
+                : "No transactions in this account yet. Add one to get started!"}
             </Text>
-          )}
-        </ScrollView>
+          }
+        />
       </View>
 
-      <View style={styles.bottomNav}>
-        {["Home", "Cards", "Payments", "Insights", "More"].map((tab) => (
-          <TouchableOpacity
-            key={tab}
-            style={styles.navItem}
-            onPress={() => setActiveTab(tab)}
-          >
-            <Ionicons
-              name={getTabIconName(tab, activeTab === tab)}
-              size={22}
-              color={activeTab === tab ? "#1E3A8A" : "#9CA3AF"}
-            />
-            <Text
-              style={[
-                styles.navText,
-                activeTab === tab ? styles.activeNavText : null,
-              ]}
-            >
-              {tab}
-            </Text>
-          </TouchableOpacity>
-        ))}
-      </View>
+      <TransactionFilterModal
+        visible={showFilterModal}
+        filters={activeFilters}
+        categories={categories}
+        currency={currency}
+        onApply={(applied) => {
+          setFilters(applied);
+          setShowFilterModal(false);
+        }}
+        onClose={() => setShowFilterModal(false)}
+      />
 
       {/* Transaction Actions Modal */}
       <Modal
@@ -411,6 +646,20 @@ const HomePage: React.FC = () => {
         >
           <View style={styles.modalContainer}>
             <View style={styles.modalContent}>
+              {selectedTransaction && !isTransfer(selectedTransaction) && (
+                <TouchableOpacity
+                  style={styles.modalOption}
+                  onPress={() => navigateToDetails(selectedTransaction)}
+                >
+                  <Ionicons
+                    name="document-text-outline"
+                    size={24}
+                    color="#1E3A8A"
+                  />
+                  <Text style={styles.modalOptionText}>View Details</Text>
+                </TouchableOpacity>
+              )}
+
               <TouchableOpacity
                 style={styles.modalOption}
                 onPress={() =>
@@ -426,7 +675,7 @@ const HomePage: React.FC = () => {
                 style={[styles.modalOption, styles.deleteOption]}
                 onPress={() =>
                   selectedTransaction &&
-                  showDeleteConfirmation(selectedTransaction)
+                  confirmDeleteTransaction(selectedTransaction)
                 }
               >
                 <Ionicons name="trash-outline" size={24} color="#EF4444" />
@@ -475,11 +724,7 @@ const HomePage: React.FC = () => {
                 >
                   <View style={styles.accountOptionIconContainer}>
                     <Ionicons
-                      name={
-                        account.type === "chequing"
-                          ? "wallet-outline"
-                          : "save-outline"
-                      }
+                      name={getAccountIcon(account.type)}
                       size={24}
                       color={
                         selectedAccountId === account.id ? "#1E3A8A" : "#6B7280"
@@ -497,10 +742,7 @@ const HomePage: React.FC = () => {
                       {account.name}
                     </Text>
                     <Text style={styles.accountOptionBalance}>
-                      {account.currency}{" "}
-                      {account.balance.toLocaleString(undefined, {
-                        minimumFractionDigits: 2,
-                      })}
+                      {formatMoney(account.balance, account.currency)}
                     </Text>
                   </View>
                   {selectedAccountId === account.id && (
@@ -513,6 +755,17 @@ const HomePage: React.FC = () => {
                 </TouchableOpacity>
               ))}
 
+              <TouchableOpacity
+                style={styles.modalOption}
+                onPress={() => {
+                  setShowAccountModal(false);
+                  router.push("/accounts");
+                }}
+              >
+                <Ionicons name="settings-outline" size={24} color="#1E3A8A" />
+                <Text style={styles.modalOptionText}>Manage Accounts</Text>
+              </TouchableOpacity>
+
               <TouchableOpacity
                 style={[styles.modalOption, styles.cancelOption]}
                 onPress={() => setShowAccountModal(false)}
@@ -523,6 +776,13 @@ const HomePage: React.FC = () => {
           </View>
         </TouchableOpacity>
       </Modal>
+
+      <UndoSnackbar
+        key={deleted?.id}
+        message={deleted?.message ?? null}
+        onUndo={undoDelete}
+        onDismiss={() => setDeleted(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -592,6 +852,14 @@ const styles = StyleSheet.create({
     color: "#9CA3AF",
     marginBottom: 20,
   },
+  totalBalance: {
+    marginTop: -12,
+    marginBottom: 20,
+  },
+  totalBalanceText: {
+    fontSize: 13,
+    color: "#E0E7FF",
+  },
   quickActionsContainer: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -610,6 +878,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: "#FFFFFF",
   },
+  budgetsContainer: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    marginHorizontal: 20,
+    marginBottom: 15,
+    padding: 15,
+  },
   transactionsContainer: {
     flex: 1,
     backgroundColor: "#FFFFFF",
@@ -634,9 +909,83 @@ const styles = StyleSheet.create({
     color: "#1E3A8A",
     fontWeight: "500",
   },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    marginLeft: 8,
+    fontSize: 15,
+    color: "#1F2937",
+  },
+  filterButton: {
+    marginLeft: 10,
+    padding: 8,
+  },
+  filterChips: {
+    flexGrow: 0,
+    marginBottom: 10,
+  },
+  filterChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#E0E7FF",
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: "#1E3A8A",
+    marginRight: 4,
+  },
+  clearChip: {
+    justifyContent: "center",
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  clearChipText: {
+    fontSize: 13,
+    color: "#EF4444",
+    fontWeight: "500",
+  },
   transactionsList: {
     flex: 1,
   },
+  sectionActions: {
+    flexDirection: "row",
+  },
+  sectionAction: {
+    marginLeft: 16,
+  },
+  dayHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    backgroundColor: "#FFFFFF",
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  dayTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6B7280",
+  },
+  dayTotal: {
+    fontSize: 13,
+    color: "#6B7280",
+  },
   transactionItem: {
     flexDirection: "row",
     alignItems: "center",
@@ -663,38 +1012,31 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: "#6B7280",
   },
+  amountColumn: {
+    alignItems: "flex-end",
+  },
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  statusIcon: {
+    marginRight: 4,
+  },
   transactionAmount: {
     fontSize: 16,
     fontWeight: "600",
   },
+  runningBalance: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
   negativeAmount: {
     color: "#EF4444",
   },
   positiveAmount: {
     color: "#10B981",
   },
-  bottomNav: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    backgroundColor: "#FFFFFF",
-    paddingVertical: 12,
-    paddingHorizontal: 15,
-    borderTopWidth: 1,
-    borderTopColor: "#F3F4F6",
-  },
-  navItem: {
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  navText: {
-    fontSize: 12,
-    marginTop: 2,
-    color: "#9CA3AF",
-  },
-  activeNavText: {
-    color: "#1E3A8A",
-    fontWeight: "500",
-  },
   emptyText: {
     textAlign: "center",
     color: "#6B7280",
@@ -0,0 +1,207 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { getAppLockSettings, verifyPin } from "@/lib/appLock";
+
+const MAX_PIN_LENGTH = 8;
+const keys = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "back", "0", "ok"];
+
+interface LockScreenProps {
+  onUnlock: () => void;
+}
+
+export function LockScreen({ onUnlock }: LockScreenProps) {
+  const [pin, setPin] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    // A lockout outlives restarts, so pick up one that is still running
+    getAppLockSettings()
+      .then((settings) => {
+        if (
+          settings.lockedUntil &&
+          new Date(settings.lockedUntil) > new Date()
+        ) {
+          setNow(Date.now());
+          setLockedUntil(new Date(settings.lockedUntil));
+        }
+      })
+      .catch((error) => console.error("Error loading app lock:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil.getTime()) {
+        setLockedUntil(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const submit = async () => {
+    if (pin.length === 0 || checking) return;
+    setChecking(true);
+    try {
+      const result = await verifyPin(pin);
+      setPin("");
+      if (result.status === "unlocked") {
+        onUnlock();
+      } else if (result.status === "lockedOut") {
+        setMessage(null);
+        setNow(Date.now());
+        setLockedUntil(result.until);
+      } else {
+        setMessage(
+          `Incorrect PIN. ${result.attemptsLeft} ${
+            result.attemptsLeft === 1 ? "attempt" : "attempts"
+          } left.`
+        );
+      }
+    } catch (error) {
+      console.error("Error checking PIN:", error);
+      Alert.alert("Error", "Could not check the PIN");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const pressKey = (key: string) => {
+    if (key === "ok") {
+      submit();
+    } else if (key === "back") {
+      setPin((current) => current.slice(0, -1));
+    } else if (pin.length < MAX_PIN_LENGTH) {
+      setPin((current) => current + key);
+      setMessage(null);
+    }
+  };
+
+  const secondsLeft = lockedUntil
+    ? Math.max(Math.ceil((lockedUntil.getTime() - now) / 1000), 0)
+    : 0;
+  const disabled = checking || lockedUntil !== null;
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="lock-closed" size={40} color="#FFFFFF" />
+      <Text style={styles.title}>Enter PIN</Text>
+
+      <View style={styles.dots}>
+        {Array.from({ length: Math.max(pin.length, 4) }, (_, i) => (
+          <View
+            key={i}
+            style={[styles.dot, i < pin.length ? styles.filledDot : null]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.messageRow}>
+        {checking ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.message}>
+            {lockedUntil
+              ? `Too many attempts. Try again in ${secondsLeft}s.`
+              : message}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.keypad}>
+        {keys.map((key) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.key, disabled ? styles.disabledKey : null]}
+            disabled={disabled}
+            onPress={() => pressKey(key)}
+            accessibilityLabel={
+              key === "back" ? "Delete" : key === "ok" ? "Unlock" : key
+            }
+          >
+            {key === "back" ? (
+              <Ionicons name="backspace-outline" size={26} color="#FFFFFF" />
+            ) : key === "ok" ? (
+              <Ionicons name="checkmark" size={28} color="#FFFFFF" />
+            ) : (
+              <Text style={styles.keyText}>{key}</Text>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "#1E3A8A",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginTop: 15,
+  },
+  dots: {
+    flexDirection: "row",
+    marginTop: 25,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: "#FFFFFF",
+    marginHorizontal: 8,
+  },
+  filledDot: {
+    backgroundColor: "#FFFFFF",
+  },
+  messageRow: {
+    height: 40,
+    justifyContent: "center",
+  },
+  message: {
+    fontSize: 14,
+    color: "#FCA5A5",
+  },
+  keypad: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    width: 270,
+  },
+  key: {
+    width: 70,
+    height: 70,
+    borderRadius: 35,
+    backgroundColor: "rgba(255, 255, 255, 0.15)",
+    justifyContent: "center",
+    alignItems: "center",
+    margin: 10,
+  },
+  disabledKey: {
+    opacity: 0.4,
+  },
+  keyText: {
+    fontSize: 26,
+    color: "#FFFFFF",
+  },
+});
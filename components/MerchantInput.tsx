@@ -0,0 +1,107 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useRef, useState } from "react";
+import {
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextInput,
+  TextStyle,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { suggestMerchants } from "@/lib/merchants";
+
+interface MerchantInputProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  /**
+   * Called once a suggestion is picked or typing ends, and only when the
+   * name changed since the last call, so choices made after it are kept.
+   */
+  onSubmit?: (merchant: string) => void;
+  /** Known merchant names, most used first. */
+  merchants: string[];
+  placeholder?: string;
+  style?: StyleProp<TextStyle>;
+}
+
+export function MerchantInput({
+  value,
+  onChangeText,
+  onSubmit,
+  merchants,
+  placeholder,
+  style,
+}: MerchantInputProps) {
+  const [focused, setFocused] = useState(false);
+  const submitted = useRef(value);
+  const suggestions = focused ? suggestMerchants(merchants, value) : [];
+
+  const submit = (merchant: string) => {
+    if (merchant.trim() !== submitted.current.trim()) {
+      submitted.current = merchant;
+      onSubmit?.(merchant);
+    }
+  };
+
+  // The parent's ScrollView needs keyboardShouldPersistTaps="handled" so a
+  // tap on a suggestion is not swallowed by dismissing the keyboard.
+  const pick = (merchant: string) => {
+    onChangeText(merchant);
+    submit(merchant);
+  };
+
+  return (
+    <View>
+      <TextInput
+        style={style}
+        placeholder={placeholder}
+        value={value}
+        onChangeText={onChangeText}
+        onFocus={() => setFocused(true)}
+        onEndEditing={() => {
+          setFocused(false);
+          submit(value);
+        }}
+      />
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map((merchant) => (
+            <TouchableOpacity
+              key={merchant}
+              style={styles.suggestion}
+              onPress={() => pick(merchant)}
+            >
+              <Ionicons name="time-outline" size={16} color="#6B7280" />
+              <Text style={styles.suggestionText}>{merchant}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  suggestions: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  suggestion: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  suggestionText: {
+    fontSize: 15,
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+});
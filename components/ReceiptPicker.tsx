@@ -0,0 +1,108 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import React from "react";
+import {
+  Alert,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+/** A receipt on the edit screen; `name` is unset until it has been saved. */
+export interface ReceiptDraft {
+  name?: string;
+  uri: string;
+}
+
+interface ReceiptPickerProps {
+  receipts: ReceiptDraft[];
+  onChange: (receipts: ReceiptDraft[]) => void;
+}
+
+export function ReceiptPicker({ receipts, onChange }: ReceiptPickerProps) {
+  const pickImages = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ["images"],
+        allowsMultipleSelection: true,
+        quality: 0.7,
+      });
+      if (result.canceled) return;
+      onChange([
+        ...receipts,
+        ...result.assets.map((asset) => ({ uri: asset.uri })),
+      ]);
+    } catch (error) {
+      console.error("Error picking receipt:", error);
+      Alert.alert("Error", "Could not open your photos");
+    }
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {receipts.map((receipt) => (
+        <View key={receipt.uri} style={styles.thumbnail}>
+          <Image source={{ uri: receipt.uri }} style={styles.image} />
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() =>
+              onChange(receipts.filter((other) => other.uri !== receipt.uri))
+            }
+          >
+            <Ionicons name="close-circle" size={22} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity style={styles.addButton} onPress={pickImages}>
+        <Ionicons name="camera-outline" size={24} color="#1E3A8A" />
+        <Text style={styles.addText}>Add Photo</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    // Leaves room for the remove buttons that overhang the thumbnails
+    paddingTop: 6,
+    paddingRight: 6,
+  },
+  thumbnail: {
+    marginRight: 10,
+  },
+  image: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: "#E5E7EB",
+  },
+  removeButton: {
+    position: "absolute",
+    top: -6,
+    right: -6,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 11,
+  },
+  addButton: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "#1E3A8A",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  addText: {
+    fontSize: 12,
+    color: "#1E3A8A",
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,259 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Category } from "@/lib/categoryRepository";
+import { formatMoney, formatPlainAmount, parseMoney } from "@/lib/money";
+import { TransactionSplit } from "@/lib/transactionRepository";
+
+/** A split line as typed, before it is checked. */
+export interface SplitDraft {
+  key: number;
+  categoryId: string | null;
+  amount: string;
+}
+
+interface SplitEditorProps {
+  lines: SplitDraft[];
+  onChange: (lines: SplitDraft[]) => void;
+  categories: Category[];
+  currency: string;
+  /** The transaction's amount in minor units, or null while it is invalid. */
+  total: number | null;
+}
+
+let nextKey = 1;
+
+export const createSplitDraft = (
+  categoryId: string | null = null,
+  amount = ""
+): SplitDraft => ({ key: nextKey++, categoryId, amount });
+
+/** Drafts for the lines of a stored split, shown as positive amounts. */
+export const splitDraftsFrom = (
+  splits: TransactionSplit[],
+  currency: string
+): SplitDraft[] =>
+  splits.map((split) =>
+    createSplitDraft(
+      split.categoryId,
+      formatPlainAmount(Math.abs(split.amount), currency)
+    )
+  );
+
+/**
+ * The drafts as split lines with the sign of `sign`, or null when a line is
+ * missing its category or amount.
+ */
+export const readSplitDrafts = (
+  lines: SplitDraft[],
+  currency: string,
+  sign: 1 | -1
+): TransactionSplit[] | null => {
+  const splits: TransactionSplit[] = [];
+  for (const line of lines) {
+    const amount = parseMoney(line.amount, currency);
+    if (!line.categoryId || amount === null) {
+      return null;
+    }
+    splits.push({
+      categoryId: line.categoryId,
+      amount: sign * Math.abs(amount),
+    });
+  }
+  return splits;
+};
+
+export function SplitEditor({
+  lines,
+  onChange,
+  categories,
+  currency,
+  total,
+}: SplitEditorProps) {
+  const updateLine = (key: number, changes: Partial<SplitDraft>) =>
+    onChange(
+      lines.map((line) => (line.key === key ? { ...line, ...changes } : line))
+    );
+
+  const assigned = lines.reduce(
+    (sum, line) => sum + Math.abs(parseMoney(line.amount, currency) ?? 0),
+    0
+  );
+  const remaining = total === null ? null : Math.abs(total) - assigned;
+
+  return (
+    <View>
+      {lines.map((line, index) => (
+        <View key={line.key} style={styles.line}>
+          <View style={styles.lineHeader}>
+            <Text style={styles.lineTitle}>Line {index + 1}</Text>
+            {lines.length > 2 && (
+              <TouchableOpacity
+                onPress={() =>
+                  onChange(lines.filter((other) => other.key !== line.key))
+                }
+              >
+                <Ionicons name="close-circle" size={20} color="#EF4444" />
+              </TouchableOpacity>
+            )}
+          </View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.chipContainer}
+          >
+            {categories.map((category) => (
+              <TouchableOpacity
+                key={category.id}
+                style={[
+                  styles.chip,
+                  line.categoryId === category.id ? styles.selectedChip : null,
+                ]}
+                onPress={() =>
+                  updateLine(line.key, { categoryId: category.id })
+                }
+              >
+                <Ionicons
+                  name={category.icon}
+                  size={16}
+                  color={
+                    line.categoryId === category.id ? "#1E3A8A" : "#6B7280"
+                  }
+                />
+                <Text
+                  style={[
+                    styles.chipText,
+                    line.categoryId === category.id
+                      ? styles.selectedChipText
+                      : null,
+                  ]}
+                >
+                  {category.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          <TextInput
+            style={styles.input}
+            placeholder={formatPlainAmount(0, currency)}
+            keyboardType="decimal-pad"
+            value={line.amount}
+            onChangeText={(amount) => updateLine(line.key, { amount })}
+          />
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addButton}
+        onPress={() =>
+          onChange([
+            ...lines,
+            createSplitDraft(
+              null,
+              remaining !== null && remaining > 0
+                ? formatPlainAmount(remaining, currency)
+                : ""
+            ),
+          ])
+        }
+      >
+        <Ionicons name="add-circle-outline" size={18} color="#1E3A8A" />
+        <Text style={styles.addText}>Add Line</Text>
+      </TouchableOpacity>
+
+      {remaining !== null && (
+        <Text
+          style={[styles.hintText, remaining !== 0 ? styles.errorText : null]}
+        >
+          {remaining === 0
+            ? "The lines add up to the total."
+            : remaining > 0
+            ? `${formatMoney(remaining, currency)} left to assign.`
+            : `${formatMoney(-remaining, currency)} more than the total.`}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  line: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  lineHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  lineTitle: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+  },
+  chipContainer: {
+    marginBottom: 8,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginLeft: 6,
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  input: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    paddingVertical: 8,
+  },
+  addText: {
+    fontSize: 14,
+    color: "#1E3A8A",
+    fontWeight: "500",
+    marginLeft: 6,
+  },
+  hintText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginVertical: 10,
+  },
+  errorText: {
+    color: "#EF4444",
+  },
+});
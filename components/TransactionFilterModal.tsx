@@ -0,0 +1,401 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DateTimeField } from "@/components/DateTimeField";
+import { Category } from "@/constants/Categories";
+import { formatPlainAmount, parseMoney } from "@/lib/money";
+import {
+  emptyFilters,
+  TransactionFilters,
+  TransactionKind,
+} from "@/lib/transactionFilters";
+
+interface TransactionFilterModalProps {
+  visible: boolean;
+  filters: TransactionFilters;
+  categories: Category[];
+  /** Currency the amount bounds are typed in. */
+  currency: string;
+  onApply: (filters: TransactionFilters) => void;
+  onClose: () => void;
+}
+
+const kinds: { kind: TransactionKind; label: string }[] = [
+  { kind: "all", label: "All" },
+  { kind: "income", label: "Income" },
+  { kind: "expense", label: "Expenses" },
+];
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const endOfDay = (date: Date) =>
+  new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    23,
+    59,
+    59,
+    999
+  );
+
+export function TransactionFilterModal({
+  visible,
+  filters,
+  categories,
+  currency,
+  onApply,
+  onClose,
+}: TransactionFilterModalProps) {
+  const amountText = (amount?: number) =>
+    amount === undefined ? "" : formatPlainAmount(amount, currency);
+
+  const [kind, setKind] = useState(filters.kind);
+  const [categoryIds, setCategoryIds] = useState(filters.categoryIds);
+  const [fromDate, setFromDate] = useState(filters.fromDate);
+  const [toDate, setToDate] = useState(filters.toDate);
+  const [minAmount, setMinAmount] = useState(amountText(filters.minAmount));
+  const [maxAmount, setMaxAmount] = useState(amountText(filters.maxAmount));
+
+  // Start from the applied filters every time the sheet opens. Done while
+  // rendering, so the sheet never shows the previous draft first.
+  const [wasVisible, setWasVisible] = useState(visible);
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setKind(filters.kind);
+      setCategoryIds(filters.categoryIds);
+      setFromDate(filters.fromDate);
+      setToDate(filters.toDate);
+      setMinAmount(amountText(filters.minAmount));
+      setMaxAmount(amountText(filters.maxAmount));
+    }
+  }
+
+  const visibleCategories = categories.filter(
+    (category) =>
+      (kind === "all" || category.type === kind) &&
+      (!category.archived || categoryIds.includes(category.id))
+  );
+
+  const toggleCategory = (id: string) => {
+    setCategoryIds((current) =>
+      current.includes(id)
+        ? current.filter((categoryId) => categoryId !== id)
+        : [...current, id]
+    );
+  };
+
+  const parseAmount = (text: string) =>
+    text.trim() ? parseMoney(text, currency) : undefined;
+
+  const handleApply = () => {
+    const min = parseAmount(minAmount);
+    const max = parseAmount(maxAmount);
+    if (min === null || max === null) {
+      Alert.alert("Error", "Please enter valid amounts");
+      return;
+    }
+    if (min !== undefined && max !== undefined && min > max) {
+      Alert.alert("Error", "The minimum amount is larger than the maximum");
+      return;
+    }
+    if (fromDate && toDate && fromDate > toDate) {
+      Alert.alert("Error", "The start date is after the end date");
+      return;
+    }
+
+    onApply({
+      ...filters,
+      kind,
+      // Drop categories hidden by switching between income and expenses
+      categoryIds: categoryIds.filter((id) =>
+        visibleCategories.some((category) => category.id === id)
+      ),
+      fromDate,
+      toDate,
+      minAmount: min === undefined ? undefined : Math.abs(min),
+      maxAmount: max === undefined ? undefined : Math.abs(max),
+      amountCurrency:
+        min === undefined && max === undefined ? undefined : currency,
+    });
+  };
+
+  const renderDateRow = (
+    label: string,
+    value: string | undefined,
+    onChange: (value: string | undefined) => void,
+    toBound: (date: Date) => Date
+  ) => (
+    <View style={styles.dateRow}>
+      <Text style={styles.dateLabel}>{label}</Text>
+      {value ? (
+        <>
+          <View style={styles.dateField}>
+            <DateTimeField
+              dateOnly
+              value={new Date(value)}
+              onChange={(date) => onChange(toBound(date).toISOString())}
+            />
+          </View>
+          <TouchableOpacity onPress={() => onChange(undefined)}>
+            <Ionicons name="close-circle" size={22} color="#9CA3AF" />
+          </TouchableOpacity>
+        </>
+      ) : (
+        <TouchableOpacity
+          style={styles.anyDate}
+          onPress={() => onChange(toBound(new Date()).toISOString())}
+        >
+          <Text style={styles.anyDateText}>Any date</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              onPress={() => onApply({ ...emptyFilters, query: filters.query })}
+            >
+              <Text style={styles.resetText}>Reset</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Filters</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#4B5563" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body}>
+            <Text style={styles.label}>Type</Text>
+            <View style={styles.chipContainer}>
+              {kinds.map((option) => (
+                <TouchableOpacity
+                  key={option.kind}
+                  style={[
+                    styles.chip,
+                    kind === option.kind ? styles.selectedChip : null,
+                  ]}
+                  onPress={() => setKind(option.kind)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      kind === option.kind ? styles.selectedChipText : null,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Categories</Text>
+            <View style={styles.chipContainer}>
+              {visibleCategories.map((category) => {
+                const selected = categoryIds.includes(category.id);
+                return (
+                  <TouchableOpacity
+                    key={category.id}
+                    style={[styles.chip, selected ? styles.selectedChip : null]}
+                    onPress={() => toggleCategory(category.id)}
+                  >
+                    <Ionicons
+                      name={category.icon}
+                      size={16}
+                      color={selected ? "#1E3A8A" : "#6B7280"}
+                    />
+                    <Text
+                      style={[
+                        styles.chipText,
+                        styles.iconChipText,
+                        selected ? styles.selectedChipText : null,
+                      ]}
+                    >
+                      {category.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>Date Range</Text>
+            {renderDateRow("From", fromDate, setFromDate, startOfDay)}
+            {renderDateRow("To", toDate, setToDate, endOfDay)}
+
+            <Text style={styles.label}>Amount</Text>
+            <View style={styles.amountRow}>
+              <TextInput
+                style={[styles.textInput, styles.amountInput]}
+                placeholder="Min"
+                keyboardType="decimal-pad"
+                value={minAmount}
+                onChangeText={setMinAmount}
+              />
+              <Text style={styles.amountSeparator}>–</Text>
+              <TextInput
+                style={[styles.textInput, styles.amountInput]}
+                placeholder="Max"
+                keyboardType="decimal-pad"
+                value={maxAmount}
+                onChangeText={setMaxAmount}
+              />
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity style={styles.applyButton} onPress={handleApply}>
+            <Text style={styles.applyText}>Apply Filters</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: "#FFFFFF",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingVertical: 20,
+    maxHeight: "85%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    marginBottom: 10,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1F2937",
+  },
+  resetText: {
+    fontSize: 14,
+    color: "#1E3A8A",
+    fontWeight: "500",
+  },
+  body: {
+    paddingHorizontal: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#E0E7FF",
+    borderColor: "#1E3A8A",
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  iconChipText: {
+    marginLeft: 4,
+  },
+  selectedChipText: {
+    color: "#1E3A8A",
+    fontWeight: "bold",
+  },
+  dateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  dateLabel: {
+    width: 50,
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  dateField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  anyDate: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+  },
+  anyDateText: {
+    fontSize: 16,
+    color: "#9CA3AF",
+  },
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  textInput: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  amountInput: {
+    flex: 1,
+  },
+  amountSeparator: {
+    marginHorizontal: 10,
+    color: "#6B7280",
+  },
+  applyButton: {
+    backgroundColor: "#1E3A8A",
+    borderRadius: 8,
+    paddingVertical: 15,
+    alignItems: "center",
+    marginHorizontal: 20,
+    marginTop: 15,
+  },
+  applyText: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+interface UndoSnackbarProps {
+  /** Nothing is shown while this is null. */
+  message: string | null;
+  onUndo: () => void;
+  /** Called when the time runs out without an undo. */
+  onDismiss: () => void;
+  duration?: number;
+}
+
+export function UndoSnackbar({
+  message,
+  onUndo,
+  onDismiss,
+  duration = 5000,
+}: UndoSnackbarProps) {
+  // The latest callback, so a parent re-render does not restart the timer
+  const dismiss = useRef(onDismiss);
+  useEffect(() => {
+    dismiss.current = onDismiss;
+  }, [onDismiss]);
+
+  useEffect(() => {
+    if (message === null) return;
+    const timer = setTimeout(() => dismiss.current(), duration);
+    return () => clearTimeout(timer);
+  }, [message, duration]);
+
+  if (message === null) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message} numberOfLines={1}>
+        {message}
+      </Text>
+      <TouchableOpacity onPress={onUndo} style={styles.undoButton}>
+        <Text style={styles.undoText}>Undo</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 20,
+    right: 20,
+    bottom: 20,
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1F2937",
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 15,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: "#FFFFFF",
+  },
+  undoButton: {
+    marginLeft: 15,
+  },
+  undoText: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#A5B4FC",
+  },
+});
@@ -0,0 +1,23 @@
+import * as React from "react";
+import renderer from "react-test-renderer";
+
+import { HorizontalBarChart } from "../charts/HorizontalBarChart";
+
+// Icon fonts cannot load under Jest
+jest.mock("@expo/vector-icons", () => ({ Ionicons: "Ionicons" }));
+
+it(`renders correctly`, () => {
+  const tree = renderer
+    .create(
+      <HorizontalBarChart
+        items={[
+          { key: "food", label: "Food", value: 80, icon: "restaurant-outline" },
+          { key: "bills", label: "Bills", value: 40 },
+        ]}
+        formatValue={(value) => value.toFixed(2)}
+      />
+    )
+    .toJSON();
+
+  expect(tree).toMatchSnapshot();
+});
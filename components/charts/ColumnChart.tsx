@@ -0,0 +1,101 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+export interface ColumnItem {
+  key: string;
+  label: string;
+  value: number;
+}
+
+interface ColumnChartProps {
+  items: ColumnItem[];
+  height?: number;
+}
+
+/**
+ * Columns around a zero baseline: positive values rise in green, negative
+ * ones drop in red. Built from plain views.
+ */
+export function ColumnChart({ items, height = 120 }: ColumnChartProps) {
+  const max = Math.max(0, ...items.map((item) => Math.abs(item.value)));
+  const hasNegative = items.some((item) => item.value < 0);
+  const hasPositive = items.some((item) => item.value > 0);
+  // Only split the space when values fall on both sides of zero
+  const halfHeight = hasNegative && hasPositive ? height / 2 : height;
+
+  const columnHeight = (value: number) =>
+    max > 0 ? (Math.abs(value) / max) * halfHeight : 0;
+
+  return (
+    <View style={styles.chart}>
+      {items.map((item) => (
+        <View key={item.key} style={styles.column}>
+          {(hasPositive || !hasNegative) && (
+            <View style={[styles.half, { height: halfHeight }]}>
+              {item.value > 0 && (
+                <View
+                  style={[
+                    styles.bar,
+                    styles.positiveBar,
+                    { height: columnHeight(item.value) },
+                  ]}
+                />
+              )}
+            </View>
+          )}
+          {hasNegative && (
+            <View
+              style={[styles.half, styles.negativeHalf, { height: halfHeight }]}
+            >
+              {item.value < 0 && (
+                <View
+                  style={[
+                    styles.bar,
+                    styles.negativeBar,
+                    { height: columnHeight(item.value) },
+                  ]}
+                />
+              )}
+            </View>
+          )}
+          <Text style={styles.label}>{item.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  column: {
+    flex: 1,
+    alignItems: "center",
+  },
+  half: {
+    width: "60%",
+    justifyContent: "flex-end",
+  },
+  negativeHalf: {
+    justifyContent: "flex-start",
+    borderTopWidth: 1,
+    borderTopColor: "#D1D5DB",
+  },
+  bar: {
+    width: "100%",
+    borderRadius: 3,
+  },
+  positiveBar: {
+    backgroundColor: "#10B981",
+  },
+  negativeBar: {
+    backgroundColor: "#EF4444",
+  },
+  label: {
+    fontSize: 11,
+    color: "#6B7280",
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,103 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+type IconName = React.ComponentProps<typeof Ionicons>["name"];
+
+export interface BarItem {
+  key: string;
+  label: string;
+  value: number;
+  icon?: IconName;
+  color?: string;
+}
+
+interface HorizontalBarChartProps {
+  items: BarItem[];
+  formatValue: (value: number) => string;
+  emptyText?: string;
+}
+
+/** Labelled bars scaled against the largest value. Built from plain views. */
+export function HorizontalBarChart({
+  items,
+  formatValue,
+  emptyText = "Nothing to show yet.",
+}: HorizontalBarChartProps) {
+  if (items.length === 0) {
+    return <Text style={styles.emptyText}>{emptyText}</Text>;
+  }
+
+  const max = Math.max(...items.map((item) => item.value));
+
+  return (
+    <View>
+      {items.map((item) => (
+        <View key={item.key} style={styles.row}>
+          <View style={styles.labelRow}>
+            {item.icon && (
+              <Ionicons
+                name={item.icon}
+                size={16}
+                color="#4B5563"
+                style={styles.icon}
+              />
+            )}
+            <Text style={styles.label}>{item.label}</Text>
+            <Text style={styles.value}>{formatValue(item.value)}</Text>
+          </View>
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.bar,
+                {
+                  width: `${max > 0 ? (item.value / max) * 100 : 0}%`,
+                  backgroundColor: item.color ?? "#4F46E5",
+                },
+              ]}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  icon: {
+    marginRight: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1F2937",
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#1F2937",
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E5E7EB",
+    overflow: "hidden",
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+    marginVertical: 10,
+  },
+});
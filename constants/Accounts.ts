@@ -0,0 +1,62 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+type IconName = React.ComponentProps<typeof Ionicons>["name"];
+
+export type AccountType =
+  | "chequing"
+  | "savings"
+  | "credit"
+  | "cash"
+  | "investment";
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  /** Integer minor units of `currency`. */
+  openingBalance: number;
+  /** Last digits shown on the balance card; optional and user entered. */
+  accountNumber?: string;
+  archived?: boolean;
+}
+
+export const accountTypes: {
+  type: AccountType;
+  label: string;
+  icon: IconName;
+}[] = [
+  { type: "chequing", label: "Chequing", icon: "wallet-outline" },
+  { type: "savings", label: "Savings", icon: "save-outline" },
+  { type: "credit", label: "Credit Card", icon: "card-outline" },
+  { type: "cash", label: "Cash", icon: "cash-outline" },
+  { type: "investment", label: "Investment", icon: "trending-up-outline" },
+];
+
+export const getAccountIcon = (type: AccountType): IconName =>
+  accountTypes.find((option) => option.type === type)?.icon ?? "wallet-outline";
+
+export const currencies = ["CAD", "USD", "EUR", "GBP", "AUD", "JPY"];
+
+/** Currency of the sample accounts, also used for budget limits. */
+export const DEFAULT_CURRENCY = "CAD";
+
+// Ids match the accounts older versions hardcoded, so their transactions
+// keep pointing at the right place.
+export const defaultAccounts: Account[] = [
+  {
+    id: "chequing",
+    name: "Chequing Account",
+    type: "chequing",
+    currency: DEFAULT_CURRENCY,
+    openingBalance: 0,
+  },
+  {
+    id: "savings",
+    name: "Savings Account",
+    type: "savings",
+    currency: DEFAULT_CURRENCY,
+    openingBalance: 0,
+  },
+];
@@ -0,0 +1,96 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+
+type IconName = React.ComponentProps<typeof Ionicons>["name"];
+
+export type CategoryType = "income" | "expense";
+
+export interface Category {
+  id: string;
+  name: string;
+  icon: IconName;
+  type: CategoryType;
+  archived?: boolean;
+}
+
+export const OTHER_INCOME_CATEGORY_ID = "other-income";
+export const OTHER_EXPENSE_CATEGORY_ID = "other-expense";
+
+export const defaultCategories: Category[] = [
+  { id: "salary", name: "Salary", icon: "cash-outline", type: "income" },
+  {
+    id: "freelance",
+    name: "Freelance",
+    icon: "briefcase-outline",
+    type: "income",
+  },
+  {
+    id: "investment",
+    name: "Investment",
+    icon: "trending-up-outline",
+    type: "income",
+  },
+  {
+    id: "interest",
+    name: "Interest",
+    icon: "analytics-outline",
+    type: "income",
+  },
+  { id: "gift", name: "Gift", icon: "gift-outline", type: "income" },
+  {
+    id: OTHER_INCOME_CATEGORY_ID,
+    name: "Other",
+    icon: "ellipsis-horizontal-circle-outline",
+    type: "income",
+  },
+  { id: "food", name: "Food", icon: "restaurant-outline", type: "expense" },
+  { id: "transport", name: "Transport", icon: "car-outline", type: "expense" },
+  { id: "shopping", name: "Shopping", icon: "cart-outline", type: "expense" },
+  {
+    id: "bills",
+    name: "Bills",
+    icon: "document-text-outline",
+    type: "expense",
+  },
+  {
+    id: "entertainment",
+    name: "Entertainment",
+    icon: "film-outline",
+    type: "expense",
+  },
+  { id: "health", name: "Health", icon: "medical-outline", type: "expense" },
+  {
+    id: OTHER_EXPENSE_CATEGORY_ID,
+    name: "Other",
+    icon: "ellipsis-horizontal-circle-outline",
+    type: "expense",
+  },
+];
+
+// Icons offered when creating or re-iconing a category
+export const categoryIcons: IconName[] = [
+  "cash-outline",
+  "briefcase-outline",
+  "trending-up-outline",
+  "analytics-outline",
+  "gift-outline",
+  "restaurant-outline",
+  "cafe-outline",
+  "car-outline",
+  "bus-outline",
+  "cart-outline",
+  "basket-outline",
+  "document-text-outline",
+  "flash-outline",
+  "home-outline",
+  "film-outline",
+  "game-controller-outline",
+  "medical-outline",
+  "fitness-outline",
+  "school-outline",
+  "airplane-outline",
+  "paw-outline",
+  "shirt-outline",
+  "phone-portrait-outline",
+  "ellipsis-horizontal-circle-outline",
+];
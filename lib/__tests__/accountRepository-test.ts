@@ -0,0 +1,158 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  ACCOUNTS_KEY,
+  addAccount,
+  getAccount,
+  listAccounts,
+  moveAccount,
+  removeAccount,
+  updateAccount,
+} from "../accountRepository";
+import { CATEGORIZATION_RULES_KEY } from "../categorizationRepository";
+import { RECURRING_KEY } from "../recurringRepository";
+import {
+  addTransaction,
+  listTransactions,
+  resetTransactionsForTesting,
+  saveTransfer,
+  TRANSACTIONS_KEY,
+} from "../transactionRepository";
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  resetTransactionsForTesting();
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  await addTransaction({
+    id: 1,
+    merchant: "Interest",
+    amount: 5,
+    date: new Date(2025, 2, 1).toISOString(),
+    categoryId: "interest",
+    accountId: "savings",
+  });
+});
+
+it("reorders accounts", async () => {
+  await moveAccount("savings", -1);
+
+  expect((await listAccounts()).map((a) => a.id)).toEqual([
+    "savings",
+    "chequing",
+  ]);
+});
+
+it("moves transactions to another account on delete", async () => {
+  await removeAccount("savings", "chequing");
+
+  expect((await listAccounts()).map((a) => a.id)).toEqual(["chequing"]);
+  expect((await listTransactions())[0].accountId).toBe("chequing");
+});
+
+it("deletes transactions with the account when no replacement is given", async () => {
+  await removeAccount("savings");
+
+  expect(await listTransactions()).toEqual([]);
+});
+
+it("turns the other side of a deleted account's transfers into plain transactions", async () => {
+  const [from] = await saveTransfer({
+    fromAccountId: "chequing",
+    toAccountId: "savings",
+    amount: 7300,
+    toAmount: 10000,
+    exchangeRate: 1.37,
+    date: new Date(2025, 2, 2).toISOString(),
+    fromMerchant: "Transfer to Savings",
+    toMerchant: "Transfer from Chequing",
+  });
+
+  await removeAccount("savings");
+
+  expect(await listTransactions()).toEqual([
+    {
+      id: from.id,
+      merchant: "Transfer to Savings",
+      amount: -7300,
+      date: from.date,
+      categoryId: "other-expense",
+      accountId: "chequing",
+    },
+  ]);
+});
+
+it("turns transfers between the two accounts into plain transactions when moving", async () => {
+  const [from, to] = await saveTransfer({
+    fromAccountId: "chequing",
+    toAccountId: "savings",
+    amount: 2000,
+    date: new Date(2025, 2, 2).toISOString(),
+    fromMerchant: "Transfer to Savings",
+    toMerchant: "Transfer from Chequing",
+  });
+
+  await removeAccount("savings", "chequing");
+
+  const transactions = await listTransactions();
+  expect(transactions.find((t) => t.id === from.id)).toEqual({
+    id: from.id,
+    merchant: "Transfer to Savings",
+    amount: -2000,
+    date: from.date,
+    categoryId: "other-expense",
+    accountId: "chequing",
+  });
+  expect(transactions.find((t) => t.id === to.id)).toMatchObject({
+    categoryId: "other-income",
+    accountId: "chequing",
+  });
+  expect(transactions.some((t) => t.transferId)).toBe(false);
+});
+
+it("removes an account in a single write", async () => {
+  await listAccounts();
+  // The storage mock's functions record every call
+  const multiSet = jest.mocked(AsyncStorage.multiSet);
+  const setItem = jest.mocked(AsyncStorage.setItem);
+  multiSet.mockClear();
+  setItem.mockClear();
+
+  await removeAccount("savings", "chequing");
+
+  expect(setItem).not.toHaveBeenCalled();
+  expect(multiSet).toHaveBeenCalledTimes(1);
+  expect(multiSet.mock.calls[0][0].map(([key]) => key)).toEqual(
+    expect.arrayContaining([
+      ACCOUNTS_KEY,
+      TRANSACTIONS_KEY,
+      RECURRING_KEY,
+      CATEGORIZATION_RULES_KEY,
+    ])
+  );
+});
+
+it("only moves transactions to an account in the same currency", async () => {
+  const travel = await addAccount({
+    name: "Travel",
+    type: "chequing",
+    currency: "USD",
+    openingBalance: 0,
+  });
+
+  await expect(removeAccount("savings", travel.id)).rejects.toThrow(
+    "same currency"
+  );
+  expect((await listTransactions())[0].accountId).toBe("savings");
+});
+
+it("fixes the currency of an account with transactions", async () => {
+  const savings = (await getAccount("savings"))!;
+  const chequing = (await getAccount("chequing"))!;
+
+  await expect(updateAccount({ ...savings, currency: "USD" })).rejects.toThrow(
+    "currency"
+  );
+  await updateAccount({ ...chequing, currency: "USD" });
+
+  expect((await getAccount("chequing"))?.currency).toBe("USD");
+});
@@ -0,0 +1,66 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  APP_LOCK_KEY,
+  disableAppLock,
+  getAppLockSettings,
+  isAppLockEnabled,
+  MAX_PIN_ATTEMPTS,
+  setPin,
+  shouldAutoLock,
+  verifyPin,
+} from "../appLock";
+import { resetStorageKeyForTesting } from "../storage";
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  resetStorageKeyForTesting();
+});
+
+it("stores only a salted hash of the PIN", async () => {
+  await setPin("482913");
+
+  const stored = (await AsyncStorage.getItem(APP_LOCK_KEY))!;
+  expect(stored).not.toContain("482913");
+  expect(isAppLockEnabled(await getAppLockSettings())).toBe(true);
+  expect(await verifyPin("482913")).toEqual({ status: "unlocked" });
+  await expect(setPin("12a4")).rejects.toThrow(/4 to 8 digits/);
+});
+
+it("locks out after repeated wrong PINs", async () => {
+  const now = new Date(2025, 3, 1, 12, 0);
+  await setPin("1234");
+
+  for (let attempt = 1; attempt < MAX_PIN_ATTEMPTS; attempt++) {
+    expect(await verifyPin("0000", now)).toEqual({
+      status: "incorrect",
+      attemptsLeft: MAX_PIN_ATTEMPTS - attempt,
+    });
+  }
+  const lockout = await verifyPin("0000", now);
+  expect(lockout).toEqual({
+    status: "lockedOut",
+    until: new Date(now.getTime() + 30 * 1000),
+  });
+
+  // Even the right PIN is refused until the lockout ends
+  expect((await verifyPin("1234", now)).status).toBe("lockedOut");
+
+  const later = new Date(now.getTime() + 31 * 1000);
+  expect((await verifyPin("0000", later)).status).toBe("lockedOut");
+  expect((await getAppLockSettings()).lockedUntil).toBe(
+    new Date(later.getTime() + 60 * 1000).toISOString()
+  );
+
+  const muchLater = new Date(later.getTime() + 61 * 1000);
+  expect(await verifyPin("1234", muchLater)).toEqual({ status: "unlocked" });
+  expect((await getAppLockSettings()).failedAttempts).toBe(0);
+});
+
+it("relocks after the chosen time in the background", async () => {
+  const settings = await setPin("1234");
+
+  expect(shouldAutoLock(settings, 0, 59 * 1000)).toBe(false);
+  expect(shouldAutoLock(settings, 0, 60 * 1000)).toBe(true);
+  expect(shouldAutoLock(await disableAppLock(), 0, 60 * 1000)).toBe(false);
+});
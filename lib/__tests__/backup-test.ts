@@ -0,0 +1,261 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { addAccount, listAccounts } from "../accountRepository";
+import {
+  BACKUP_FORMAT,
+  createBackup,
+  parseBackupFile,
+  readAppData,
+  readBackup,
+  restoreBackup,
+  summarizeRestore,
+} from "../backup";
+import { sha256, toHex, utf8Encode } from "../crypto";
+import { dismissDuplicatePair } from "../duplicates";
+import { resetStorageKeyForTesting } from "../storage";
+import {
+  addTransaction,
+  deleteTransaction,
+  listDeletedTransactions,
+  listTransactions,
+  resetTransactionsForTesting,
+  Transaction,
+  TRANSACTIONS_KEY,
+} from "../transactionRepository";
+
+// Receipt images by file name, standing in for the documents directory
+let mockReceiptFiles: Record<string, string> = {};
+jest.mock("../receipts", () => ({
+  readReceiptImage: async (name: string) => mockReceiptFiles[name] ?? null,
+  writeReceiptImage: async (name: string, data: string) => {
+    mockReceiptFiles = { [name]: data, ...mockReceiptFiles };
+  },
+  removeUnusedReceipts: async () => {},
+}));
+
+const bakery: Transaction = {
+  id: 42,
+  merchant: "Bakery",
+  amount: -325,
+  date: new Date(2025, 2, 1).toISOString(),
+  categoryId: "food",
+  accountId: "chequing",
+};
+
+const clearDevice = async () => {
+  mockReceiptFiles = {};
+  await AsyncStorage.clear();
+  resetStorageKeyForTesting();
+  resetTransactionsForTesting();
+};
+
+beforeEach(clearDevice);
+
+it("restores everything, including the trash, onto an empty device", async () => {
+  await addTransaction(bakery);
+  await deleteTransaction(1);
+  await dismissDuplicatePair("2:42");
+  await addAccount({
+    name: "Travel Card",
+    type: "credit",
+    currency: "USD",
+    openingBalance: -2000,
+  });
+  const before = await readAppData();
+  const backup = await createBackup();
+
+  await clearDevice();
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  await restoreBackup(readBackup(await parseBackupFile(backup)), "replace");
+
+  expect(await readAppData()).toEqual(before);
+  expect(await listDeletedTransactions()).toHaveLength(1);
+});
+
+it("keeps a password-protected backup unreadable without the password", async () => {
+  await addTransaction(bakery);
+  const backup = await createBackup("correct horse");
+
+  expect(backup).not.toContain("Bakery");
+  const file = await parseBackupFile(backup);
+  expect(() => readBackup(file)).toThrow(/needs its password/);
+  expect(() => readBackup(file, "wrong")).toThrow(/password is incorrect/);
+  expect(readBackup(file, "correct horse").transactions).toContainEqual(bakery);
+});
+
+it("carries the receipt images its transactions use", async () => {
+  mockReceiptFiles = { "receipt-1.jpg": "aW1hZ2U=", "unused.jpg": "b2xk" };
+  await addTransaction({ ...bakery, receipts: ["receipt-1.jpg"] });
+  const backup = await createBackup();
+
+  await clearDevice();
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  await restoreBackup(readBackup(await parseBackupFile(backup)), "replace");
+
+  expect(mockReceiptFiles).toEqual({ "receipt-1.jpg": "aW1hZ2U=" });
+  expect(await listTransactions()).toContainEqual({
+    ...bakery,
+    receipts: ["receipt-1.jpg"],
+  });
+});
+
+it("refuses receipt names that could leave the receipts folder", async () => {
+  mockReceiptFiles = { "receipt-1.jpg": "aW1hZ2U=" };
+  await addTransaction({ ...bakery, receipts: ["receipt-1.jpg"] });
+  const backup = JSON.parse(await createBackup());
+  const [receipt] = backup.receipts;
+  await expect(
+    parseBackupFile(
+      JSON.stringify({
+        ...backup,
+        receipts: [{ ...receipt, name: "../appLock" }],
+      })
+    )
+  ).rejects.toThrow(/invalid receipt images/);
+
+  // Version 1 files keep the images inside the payload
+  const payload = JSON.stringify({
+    ...JSON.parse(backup.payload),
+    receiptImages: { "../appLock": "aW1hZ2U=" },
+  });
+  const file = await parseBackupFile(
+    JSON.stringify({
+      ...backup,
+      version: 1,
+      payload,
+      checksum: toHex(sha256(utf8Encode(payload))),
+      receipts: undefined,
+    })
+  );
+  expect(() => readBackup(file)).toThrow(/invalid receipt images/);
+});
+
+it("encrypts and checksums each receipt image on its own", async () => {
+  mockReceiptFiles = { "receipt-1.jpg": "aW1hZ2U=" };
+  await addTransaction({ ...bakery, receipts: ["receipt-1.jpg"] });
+  const backup = JSON.parse(await createBackup("correct horse"));
+
+  expect(backup.payload).not.toContain("aW1hZ2U=");
+  expect(backup.receipts).toHaveLength(1);
+  expect(backup.receipts[0].data).not.toBe("aW1hZ2U=");
+  await expect(
+    parseBackupFile(
+      JSON.stringify({
+        ...backup,
+        receipts: [{ ...backup.receipts[0], data: "b2xk" }],
+      })
+    )
+  ).rejects.toThrow(/checksum/);
+
+  await clearDevice();
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  await restoreBackup(
+    readBackup(await parseBackupFile(JSON.stringify(backup)), "correct horse"),
+    "replace"
+  );
+  expect(mockReceiptFiles).toEqual({ "receipt-1.jpg": "aW1hZ2U=" });
+});
+
+it("rejects encryption settings it did not write", async () => {
+  const backup = JSON.parse(await createBackup("correct horse"));
+  const withEncryption = (encryption: unknown) =>
+    JSON.stringify({ ...backup, encryption });
+
+  await expect(
+    parseBackupFile(withEncryption({ ...backup.encryption, salt: 7 }))
+  ).rejects.toThrow(/encryption settings/);
+  await expect(
+    parseBackupFile(withEncryption({ ...backup.encryption, salt: "zz" }))
+  ).rejects.toThrow(/encryption settings/);
+  await expect(
+    parseBackupFile(withEncryption({ ...backup.encryption, iterations: 1e9 }))
+  ).rejects.toThrow(/encryption settings/);
+  await expect(
+    parseBackupFile(withEncryption({ ...backup.encryption, iterations: "10" }))
+  ).rejects.toThrow(/encryption settings/);
+});
+
+it("rejects files that are damaged or not backups", async () => {
+  const backup = JSON.parse(await createBackup());
+
+  await expect(parseBackupFile("Date,Amount\n")).rejects.toThrow(
+    /not a backup/
+  );
+  await expect(
+    parseBackupFile(
+      JSON.stringify({
+        ...backup,
+        payload: backup.payload.replace("Coffee Shop", "Tea Shop"),
+      })
+    )
+  ).rejects.toThrow(/checksum/);
+  await expect(
+    parseBackupFile(JSON.stringify({ ...backup, version: 99 }))
+  ).rejects.toThrow(/newer version/);
+
+  const payload = JSON.stringify({ ...JSON.parse(backup.payload), budgets: 5 });
+  const invalid = {
+    ...backup,
+    payload,
+    checksum: toHex(sha256(utf8Encode(payload))),
+  };
+  const file = await parseBackupFile(JSON.stringify(invalid));
+  expect(() => readBackup(file)).toThrow(/invalid budgets/);
+});
+
+it("migrates backups made before amounts were stored in minor units", async () => {
+  const payload = JSON.stringify({
+    accounts: [
+      {
+        id: "chequing",
+        name: "Chequing",
+        type: "chequing",
+        currency: "CAD",
+        openingBalance: 10.5,
+      },
+    ],
+    transactions: [{ ...bakery, amount: -3.25 }],
+    categories: [],
+    budgets: [],
+    recurring: [],
+    exchangeRates: { homeCurrency: "CAD", rates: {} },
+  });
+  const file = await parseBackupFile(
+    JSON.stringify({
+      format: BACKUP_FORMAT,
+      version: 1,
+      createdAt: new Date(2025, 0, 1).toISOString(),
+      schemaVersion: 3,
+      checksum: toHex(sha256(utf8Encode(payload))),
+      payload,
+    })
+  );
+
+  const data = readBackup(file);
+
+  expect(data.transactions).toEqual([bakery]);
+  expect(data.accounts[0].openingBalance).toBe(1050);
+});
+
+it("merges by adding only what the device does not have", async () => {
+  await addTransaction(bakery);
+  const backup = readBackup(await parseBackupFile(await createBackup()));
+
+  await clearDevice();
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  await addTransaction({ ...bakery, merchant: "Bakery (edited)" });
+  await addTransaction({ ...bakery, id: 43, merchant: "Florist" });
+
+  const device = await readAppData();
+  expect(
+    summarizeRestore(device, backup).find((s) => s.store === "transactions")
+  ).toMatchObject({ backup: 7, device: 2, added: 6 });
+
+  await restoreBackup(backup, "merge");
+
+  const merchants = (await listTransactions()).map((t) => t.merchant);
+  expect(merchants).toHaveLength(8);
+  expect(merchants).toContain("Bakery (edited)");
+  expect(merchants).not.toContain("Bakery");
+  expect(await listAccounts()).toHaveLength(device.accounts.length);
+});
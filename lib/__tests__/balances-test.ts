@@ -0,0 +1,52 @@
+import { transaction } from "@/test/factories";
+
+import { monthStatement, runningBalances } from "../balances";
+
+// Newest first, as listTransactions returns them
+const transactions = [
+  transaction(5, -2000, new Date(2025, 3, 2)),
+  transaction(4, -1500, new Date(2025, 2, 30)),
+  transaction(3, 50000, new Date(2025, 2, 15)),
+  transaction(2, -4000, new Date(2025, 2, 1)),
+  transaction(1, -500, new Date(2025, 1, 20)),
+];
+const balance = 100000;
+
+it("shows the balance after each transaction", () => {
+  expect(Array.from(runningBalances(transactions, balance))).toEqual([
+    [5, 100000],
+    [4, 102000],
+    [3, 103500],
+    [2, 53500],
+    [1, 57500],
+  ]);
+});
+
+it("builds a month's statement from the current balance", () => {
+  expect(
+    monthStatement(transactions, balance, { year: 2025, month: 2 })
+  ).toEqual({
+    openingBalance: 57500,
+    closingBalance: 102000,
+    moneyIn: 50000,
+    moneyOut: 5500,
+    lines: [
+      { transaction: transactions[3], balance: 53500 },
+      { transaction: transactions[2], balance: 103500 },
+      { transaction: transactions[1], balance: 102000 },
+    ],
+  });
+});
+
+it("carries the balance through a month without transactions", () => {
+  const january = monthStatement(transactions, balance, {
+    year: 2025,
+    month: 0,
+  });
+
+  expect(january).toMatchObject({
+    openingBalance: 58000,
+    closingBalance: 58000,
+    lines: [],
+  });
+});
@@ -0,0 +1,94 @@
+import { transaction } from "@/test/factories";
+
+import { Budget } from "../budgetRepository";
+import { getBudgetStatus, getBudgetStatusWith } from "../budgets";
+
+const budget: Budget = {
+  categoryId: "food",
+  limit: 100,
+  rollover: false,
+  startMonth: { year: 2025, month: 0 },
+};
+
+const march = { year: 2025, month: 2 };
+
+const transactions = [
+  transaction(1, -60, new Date(2025, 0, 10)),
+  transaction(2, -130, new Date(2025, 1, 10)),
+  transaction(3, -30, new Date(2025, 2, 10)),
+  transaction(4, -500, new Date(2025, 2, 11), { categoryId: "bills" }),
+  transaction(5, -200, new Date(2025, 2, 12), { transferId: "t1" }),
+];
+
+it("resets the limit each month without rollover", () => {
+  expect(getBudgetStatus(budget, transactions, march)).toEqual({
+    spent: 30,
+    carryover: 0,
+    available: 100,
+    remaining: 70,
+  });
+});
+
+it("carries unspent money and overspending forward with rollover", () => {
+  expect(
+    getBudgetStatus({ ...budget, rollover: true }, transactions, march)
+  ).toEqual({
+    spent: 30,
+    carryover: 10,
+    available: 110,
+    remaining: 80,
+  });
+});
+
+it("only rolls over from the budget's start month", () => {
+  expect(
+    getBudgetStatus(
+      { ...budget, rollover: true, startMonth: { year: 2025, month: 1 } },
+      transactions,
+      march
+    ).carryover
+  ).toBe(-30);
+});
+
+it("previews the status a new expense would leave", () => {
+  const expense = transaction(6, -75, new Date(2025, 2, 20));
+
+  expect(getBudgetStatusWith([budget], transactions, expense)?.remaining).toBe(
+    -5
+  );
+  expect(
+    getBudgetStatusWith([budget], transactions, { ...expense, amount: 75 })
+  ).toBeUndefined();
+  expect(
+    getBudgetStatusWith([budget], transactions, {
+      ...expense,
+      categoryId: "bills",
+    })
+  ).toBeUndefined();
+});
+
+it("checks the budget of each split line's category", () => {
+  const receipt = transaction(7, -50, new Date(2025, 2, 20), {
+    categoryId: "bills",
+    splits: [
+      { categoryId: "bills", amount: -30 },
+      { categoryId: "food", amount: -20 },
+    ],
+  });
+
+  expect(
+    getBudgetStatusWith([budget], transactions, receipt, "food")
+  ).toMatchObject({ spent: 50, remaining: 50 });
+  expect(getBudgetStatusWith([budget], transactions, receipt)).toBeUndefined();
+  expect(
+    getBudgetStatusWith(
+      [budget],
+      transactions,
+      {
+        ...receipt,
+        splits: undefined,
+      },
+      "food"
+    )
+  ).toBeUndefined();
+});
@@ -0,0 +1,142 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { transaction } from "@/test/factories";
+
+import { defaultCategories } from "../../constants/Categories";
+import { removeAccount } from "../accountRepository";
+import {
+  categorizeImport,
+  CategorizationRule,
+  findRule,
+} from "../categorization";
+import {
+  listCategorizationRules,
+  saveCategorizationRule,
+} from "../categorizationRepository";
+import { removeCategory } from "../categoryRepository";
+import { merchantsInUse, suggestMerchants } from "../merchants";
+import {
+  resetTransactionsForTesting,
+  Transaction,
+  TRANSACTIONS_KEY,
+} from "../transactionRepository";
+
+const hydro: CategorizationRule = {
+  id: "hydro",
+  pattern: "hydro",
+  match: "contains",
+  categoryId: "bills",
+};
+const hydroOttawa: CategorizationRule = {
+  id: "hydro-ottawa",
+  pattern: "Hydro  Ottawa",
+  match: "startsWith",
+  categoryId: "health",
+  accountId: "chequing",
+};
+const payroll: CategorizationRule = {
+  id: "payroll",
+  pattern: "ACME PAYROLL",
+  match: "is",
+  categoryId: "salary",
+};
+const rules = [hydro, hydroOttawa, payroll];
+
+const purchase = (
+  id: number,
+  merchant: string,
+  extra: Partial<Transaction> = {}
+): Transaction =>
+  transaction(id, -100, new Date(2025, 2, id), { merchant, ...extra });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  resetTransactionsForTesting();
+});
+
+it("picks the matching rule with the longest text", () => {
+  expect(findRule(rules, "Toronto Hydro")).toBe(hydro);
+  expect(findRule(rules, "hydro ottawa #123")).toBe(hydroOttawa);
+  expect(findRule(rules, "Acme Payroll")).toBe(payroll);
+  expect(findRule(rules, "Acme Payroll Bonus")).toBeUndefined();
+});
+
+it("only replaces the fallback category on imports", () => {
+  const imported = { merchant: "Toronto Hydro", amount: -8000 };
+  expect(
+    categorizeImport(
+      {
+        ...imported,
+        date: "2025-03-01",
+        categoryId: "other-expense",
+        accountId: "savings",
+      },
+      rules,
+      defaultCategories
+    )
+  ).toMatchObject({ categoryId: "bills", accountId: "savings" });
+  expect(
+    categorizeImport(
+      {
+        ...imported,
+        date: "2025-03-01",
+        categoryId: "shopping",
+        accountId: "savings",
+      },
+      rules,
+      defaultCategories
+    ).categoryId
+  ).toBe("shopping");
+  // A refund from Hydro is income, so the expense category doesn't apply
+  expect(
+    categorizeImport(
+      {
+        ...imported,
+        amount: 8000,
+        date: "2025-03-01",
+        categoryId: "other-income",
+        accountId: "savings",
+      },
+      rules,
+      defaultCategories
+    ).categoryId
+  ).toBe("other-income");
+});
+
+it("follows category merges and account deletions", async () => {
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  await saveCategorizationRule(hydro);
+  await saveCategorizationRule(hydroOttawa);
+
+  await removeCategory("bills", "shopping");
+  await removeAccount("chequing");
+
+  expect(await listCategorizationRules()).toEqual([
+    { ...hydro, categoryId: "shopping" },
+    {
+      id: "hydro-ottawa",
+      pattern: "Hydro  Ottawa",
+      match: "startsWith",
+      categoryId: "health",
+    },
+  ]);
+});
+
+it("suggests past merchants, most used and best matching first", () => {
+  const merchants = merchantsInUse([
+    purchase(1, "Metro"),
+    purchase(2, "Petro-Canada"),
+    purchase(3, "metro "),
+    purchase(4, "Metropolis Books"),
+    purchase(5, "Savings", { transferId: "t1" }),
+  ]);
+  expect(merchants).toEqual(["Metro", "Metropolis Books", "Petro-Canada"]);
+  expect(suggestMerchants(merchants, "etro")).toEqual([
+    "Metro",
+    "Metropolis Books",
+    "Petro-Canada",
+  ]);
+  expect(suggestMerchants(merchants, "pe")).toEqual(["Petro-Canada"]);
+  expect(suggestMerchants(merchants, "METRO")).toEqual([]);
+  expect(suggestMerchants(merchants, " ")).toEqual([]);
+});
@@ -0,0 +1,64 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  addCategory,
+  listCategories,
+  removeCategory,
+} from "../categoryRepository";
+import {
+  addTransaction,
+  listTransactions,
+  resetTransactionsForTesting,
+  TRANSACTIONS_KEY,
+} from "../transactionRepository";
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  resetTransactionsForTesting();
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+});
+
+it("moves transactions when a category is merged away", async () => {
+  const categories = await addCategory({
+    name: "Groceries",
+    icon: "basket-outline",
+    type: "expense",
+  });
+  const groceries = categories[categories.length - 1];
+  await addTransaction({
+    id: 1,
+    merchant: "Market",
+    amount: -20,
+    date: new Date(2025, 2, 1).toISOString(),
+    categoryId: groceries.id,
+    accountId: "chequing",
+  });
+
+  await removeCategory(groceries.id, "food");
+
+  expect((await listTransactions())[0].categoryId).toBe("food");
+  expect((await listCategories()).map((c) => c.id)).not.toContain(groceries.id);
+});
+
+it("only merges categories of the same type", async () => {
+  await expect(removeCategory("food", "salary")).rejects.toThrow(/same type/);
+});
+
+it("keeps the built-in fallback categories", async () => {
+  const categories = await addCategory({
+    name: "Misc",
+    icon: "basket-outline",
+    type: "expense",
+  });
+  const misc = categories[categories.length - 1];
+
+  await expect(removeCategory("other-expense", misc.id)).rejects.toThrow(
+    /built in/
+  );
+  await expect(removeCategory("other-income", "salary")).rejects.toThrow(
+    /built in/
+  );
+  expect((await listCategories()).map((c) => c.id)).toEqual(
+    expect.arrayContaining(["other-expense", "other-income"])
+  );
+});
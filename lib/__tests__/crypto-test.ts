@@ -0,0 +1,99 @@
+import {
+  constantTimeEqual,
+  decryptText,
+  deriveCipherKey,
+  encryptText,
+  fromBase64,
+  fromHex,
+  hmacSha256,
+  pbkdf2Sha256,
+  sha256,
+  toBase64,
+  toHex,
+  utf8Decode,
+  utf8Encode,
+} from "../crypto";
+
+it("hashes known SHA-256 test vectors", () => {
+  expect(toHex(sha256(utf8Encode("")))).toBe(
+    "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+  );
+  expect(toHex(sha256(utf8Encode("abc")))).toBe(
+    "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+  );
+  expect(
+    toHex(
+      sha256(
+        utf8Encode("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")
+      )
+    )
+  ).toBe("248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1");
+});
+
+it("computes HMAC-SHA256 with short and long keys", () => {
+  expect(
+    toHex(
+      hmacSha256(utf8Encode("Jefe"), utf8Encode("what do ya want for nothing?"))
+    )
+  ).toBe("5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843");
+  expect(
+    toHex(
+      hmacSha256(
+        new Uint8Array(131).fill(0xaa),
+        utf8Encode("Test Using Larger Than Block-Size Key - Hash Key First")
+      )
+    )
+  ).toBe("60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54");
+});
+
+it("derives keys with PBKDF2", () => {
+  expect(
+    toHex(pbkdf2Sha256(utf8Encode("passwd"), utf8Encode("salt"), 1, 64))
+  ).toBe(
+    "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc" +
+      "49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783"
+  );
+  expect(
+    toHex(pbkdf2Sha256(utf8Encode("password"), utf8Encode("salt"), 4096, 32))
+  ).toBe("c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a");
+});
+
+it("round-trips hex and compares byte arrays", () => {
+  const bytes = fromHex("00ff10");
+
+  expect(toHex(bytes)).toBe("00ff10");
+  expect(constantTimeEqual(bytes, fromHex("00FF10"))).toBe(true);
+  expect(constantTimeEqual(bytes, fromHex("00ff11"))).toBe(false);
+  expect(() => fromHex("abc")).toThrow();
+});
+
+it("round-trips UTF-8 and base64", () => {
+  const text = "Café 🍰 ¥500";
+
+  expect(utf8Decode(utf8Encode(text))).toBe(text);
+  expect(toBase64(utf8Encode("ab"))).toBe("YWI=");
+  expect(utf8Decode(fromBase64("YWJj"))).toBe("abc");
+});
+
+describe("encryptText", () => {
+  const key = deriveCipherKey("1234", utf8Encode("salt"), 10);
+
+  it("hides the text and decrypts it again", () => {
+    const text = JSON.stringify({ merchant: "Bakery", amount: -325 });
+    const encrypted = encryptText(text, key);
+
+    expect(encrypted).not.toContain("Bakery");
+    expect(encryptText(text, key)).not.toBe(encrypted);
+    expect(decryptText(encrypted, key)).toBe(text);
+  });
+
+  it("rejects a wrong key or altered data", () => {
+    const encrypted = encryptText("secret", key);
+    const otherKey = deriveCipherKey("4321", utf8Encode("salt"), 10);
+    const bytes = fromBase64(encrypted.slice("enc:v1:".length));
+    bytes[20] ^= 1;
+
+    expect(() => decryptText(encrypted, otherKey)).toThrow();
+    expect(() => decryptText("enc:v1:" + toBase64(bytes), key)).toThrow();
+  });
+});
@@ -0,0 +1,26 @@
+import { parseCsv, toCsv } from "../csv";
+
+it("parses quoted fields, doubled quotes and CRLF line endings", () => {
+  expect(
+    parseCsv('\uFEFFDate,Merchant\r\n2025-03-01,"Smith, ""Bob"""\r\n\r\n')
+  ).toEqual([
+    ["Date", "Merchant"],
+    ["2025-03-01", 'Smith, "Bob"'],
+  ]);
+});
+
+it("keeps line breaks inside quoted fields", () => {
+  expect(parseCsv('a,"line 1\nline 2"\nb,c')).toEqual([
+    ["a", "line 1\nline 2"],
+    ["b", "c"],
+  ]);
+});
+
+it("round-trips fields that need escaping", () => {
+  const rows = [
+    ["Merchant", "Amount"],
+    ['Café "Central", Downtown', "-4.50"],
+  ];
+
+  expect(parseCsv(toCsv(rows))).toEqual(rows);
+});
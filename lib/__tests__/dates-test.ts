@@ -0,0 +1,45 @@
+import {
+  formatDayTitle,
+  formatTransactionDate,
+  parseLegacyDate,
+} from "../dates";
+
+const now = new Date(2025, 2, 28, 15, 0);
+
+it("labels recent timestamps relative to now", () => {
+  expect(
+    formatTransactionDate(new Date(2025, 2, 28, 8, 30).toISOString(), now)
+  ).toBe("Today, 8:30 AM");
+  expect(
+    formatTransactionDate(new Date(2025, 2, 27, 18, 15).toISOString(), now)
+  ).toBe("Yesterday, 6:15 PM");
+  expect(
+    formatTransactionDate(new Date(2025, 2, 25, 9, 0).toISOString(), now)
+  ).toBe("Mar 25, 2025");
+});
+
+it("titles days relative to now, with the year only when it differs", () => {
+  expect(formatDayTitle(new Date(2025, 2, 28, 23, 59), now)).toBe("Today");
+  expect(formatDayTitle(new Date(2025, 2, 27, 0, 0), now)).toBe("Yesterday");
+  expect(formatDayTitle(new Date(2025, 2, 3), now)).toBe("Monday, March 3");
+  expect(formatDayTitle(new Date(2024, 2, 3), now)).toBe(
+    "Sunday, March 3, 2024"
+  );
+});
+
+it("parses legacy display labels", () => {
+  expect(parseLegacyDate("Today, 8:30 AM", now)).toBe(
+    new Date(2025, 2, 28, 8, 30).toISOString()
+  );
+  expect(parseLegacyDate("Yesterday, 6:15 PM", now)).toBe(
+    new Date(2025, 2, 27, 18, 15).toISOString()
+  );
+  // Older builds wrote 24-hour values with a meridiem suffix
+  expect(parseLegacyDate("Today, 14:05 PM", now)).toBe(
+    new Date(2025, 2, 28, 14, 5).toISOString()
+  );
+  expect(parseLegacyDate("Mar 25, 2025", now)).toBe(
+    new Date(2025, 2, 25).toISOString()
+  );
+  expect(parseLegacyDate("sometime", now)).toBeNull();
+});
@@ -0,0 +1,76 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { transaction } from "@/test/factories";
+
+import {
+  dismissDuplicatePair,
+  duplicatePairs,
+  findDuplicates,
+  listDismissedDuplicates,
+  similarMerchants,
+} from "../duplicates";
+import { Transaction } from "../transactionRepository";
+
+const purchase = (
+  id: number,
+  merchant: string,
+  day: number,
+  extra: Partial<Transaction> = {}
+): Transaction =>
+  transaction(id, -4250, new Date(2025, 2, day, 12), { merchant, ...extra });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+it("treats bank spellings and small typos as the same merchant", () => {
+  expect(similarMerchants("Metro", "METRO #123 TORONTO")).toBe(true);
+  expect(similarMerchants("Starbucks", "Starbuck's")).toBe(true);
+  expect(similarMerchants("Metro", "Metropolis Books")).toBe(false);
+  expect(similarMerchants("Shell", "Sobeys")).toBe(false);
+});
+
+it("flags the same amount in the same account within a few days", () => {
+  const stored = [
+    purchase(1, "Metro", 10),
+    purchase(2, "Metro", 10, { accountId: "savings" }),
+    purchase(3, "Metro", 10, { amount: -4200 }),
+    purchase(4, "Metro", 20),
+    purchase(5, "Metro", 11, { transferId: "t1" }),
+  ];
+
+  expect(
+    findDuplicates(purchase(9, "METRO 123", 12), stored).map((t) => t.id)
+  ).toEqual([1]);
+  expect(findDuplicates(purchase(9, "METRO 123", 14), stored)).toEqual([]);
+});
+
+it("trusts the bank when two records have different ids", () => {
+  expect(
+    findDuplicates(purchase(9, "Metro", 10, { fitId: "A" }), [
+      purchase(1, "Metro", 10, { fitId: "B" }),
+      purchase(2, "Metro", 10),
+    ]).map((t) => t.id)
+  ).toEqual([2]);
+});
+
+it("lists stored pairs until they are dismissed", async () => {
+  const stored = [
+    purchase(1, "Metro", 10),
+    purchase(2, "Cafe", 11),
+    purchase(3, "METRO STORE", 12),
+    purchase(4, "Café", 12),
+  ];
+
+  const pairs = duplicatePairs(stored, []);
+  expect(pairs.map((pair) => pair.key)).toEqual(["1:3", "2:4"]);
+  expect(pairs[0].first.id).toBe(1);
+
+  await dismissDuplicatePair("1:3");
+  await dismissDuplicatePair("1:3");
+  const dismissed = await listDismissedDuplicates();
+  expect(dismissed).toEqual(["1:3"]);
+  expect(duplicatePairs(stored, dismissed).map((pair) => pair.key)).toEqual([
+    "2:4",
+  ]);
+});
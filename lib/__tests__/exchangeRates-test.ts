@@ -0,0 +1,53 @@
+import {
+  convertAmount,
+  ExchangeRates,
+  formatRate,
+  getRate,
+  parseRate,
+  rebaseRates,
+  totalInHomeCurrency,
+} from "../exchangeRates";
+
+const exchangeRates: ExchangeRates = {
+  homeCurrency: "CAD",
+  rates: { USD: 1.25, JPY: 0.01 },
+};
+
+it("converts between any two currencies through the home currency", () => {
+  expect(getRate(exchangeRates, "CAD", "CAD")).toBe(1);
+  expect(convertAmount(10000, "USD", "CAD", exchangeRates)).toBe(12500);
+  expect(convertAmount(12500, "CAD", "USD", exchangeRates)).toBe(10000);
+  expect(convertAmount(10000, "USD", "JPY", exchangeRates)).toBe(12500);
+  expect(convertAmount(10000, "EUR", "CAD", exchangeRates)).toBeNull();
+});
+
+it("totals balances in the home currency and lists missing rates", () => {
+  expect(
+    totalInHomeCurrency(
+      [
+        { currency: "CAD", balance: 5000 },
+        { currency: "USD", balance: 10000 },
+        { currency: "EUR", balance: 700 },
+      ],
+      exchangeRates
+    )
+  ).toEqual({ total: 17500, missing: ["EUR"] });
+});
+
+it("rebases the table on a new home currency", () => {
+  const rebased = rebaseRates(exchangeRates, "USD");
+
+  expect(rebased.homeCurrency).toBe("USD");
+  expect(rebased.rates.CAD).toBeCloseTo(0.8);
+  expect(rebased.rates.JPY).toBeCloseTo(0.008);
+  expect(rebased.rates).not.toHaveProperty("USD");
+  expect(rebaseRates(exchangeRates, "EUR").rates).toEqual({});
+});
+
+it("reads rates typed with either decimal separator", () => {
+  expect(parseRate("1,3625")).toBe(1.3625);
+  expect(parseRate(" 0.73 ")).toBe(0.73);
+  expect(parseRate("0")).toBeNull();
+  expect(parseRate("1.2.3")).toBeNull();
+  expect(formatRate(1 / 3, ".")).toBe("0.333333");
+});
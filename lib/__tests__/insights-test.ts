@@ -0,0 +1,100 @@
+import { transaction } from "@/test/factories";
+
+import {
+  convertTransactions,
+  monthlyTrend,
+  monthTotals,
+  spendingByCategory,
+} from "../insights";
+
+const march = { year: 2025, month: 2 };
+
+const transactions = [
+  transaction(1, -20, new Date(2025, 2, 3)),
+  transaction(2, -50, new Date(2025, 2, 4), { categoryId: "bills" }),
+  transaction(3, -5, new Date(2025, 2, 9)),
+  transaction(4, 1000, new Date(2025, 2, 25), { categoryId: "salary" }),
+  transaction(5, -300, new Date(2025, 2, 26), { transferId: "t1" }),
+  transaction(6, -40, new Date(2025, 1, 12)),
+];
+
+it("totals spending per category, largest first, without transfers", () => {
+  expect(spendingByCategory(transactions, march)).toEqual([
+    { categoryId: "bills", total: 50 },
+    { categoryId: "food", total: 25 },
+  ]);
+});
+
+it("counts each line of a split transaction under its own category", () => {
+  const receipt = transaction(7, -90, new Date(2025, 2, 14), {
+    categoryId: "food",
+    splits: [
+      { categoryId: "food", amount: -60 },
+      { categoryId: "health", amount: -30 },
+    ],
+  });
+
+  expect(spendingByCategory([...transactions, receipt], march)).toEqual([
+    { categoryId: "food", total: 85 },
+    { categoryId: "bills", total: 50 },
+    { categoryId: "health", total: 30 },
+  ]);
+  expect(monthTotals([receipt], march).expenses).toBe(90);
+});
+
+it("compares income with expenses", () => {
+  expect(monthTotals(transactions, march)).toEqual({
+    ...march,
+    income: 1000,
+    expenses: 75,
+    net: 925,
+  });
+});
+
+it("builds a month-over-month trend ending with the chosen month", () => {
+  expect(
+    monthlyTrend(transactions, march, 3).map(({ month, net }) => [month, net])
+  ).toEqual([
+    [0, 0],
+    [1, -40],
+    [2, 925],
+  ]);
+});
+
+it("converts amounts into one currency, leaving out those without a rate", () => {
+  const accounts = [
+    { id: "chequing", currency: "USD" },
+    { id: "travel", currency: "EUR" },
+    { id: "savings", currency: "GBP" },
+  ];
+  const lunch = transaction(7, -1000, new Date(2025, 2, 5), {
+    accountId: "travel",
+    splits: [
+      { categoryId: "food", amount: -600 },
+      { categoryId: "health", amount: -400 },
+    ],
+  });
+  const deposit = transaction(8, 5000, new Date(2025, 2, 6), {
+    accountId: "savings",
+  });
+
+  const converted = convertTransactions(
+    [transactions[0], lunch, deposit],
+    accounts,
+    "USD",
+    { homeCurrency: "USD", rates: { EUR: 1.1 } }
+  );
+
+  expect(converted.missing).toEqual(["GBP"]);
+  expect(converted.transactions).toEqual([
+    transactions[0],
+    {
+      ...lunch,
+      amount: -1100,
+      splits: [
+        { categoryId: "food", amount: -660 },
+        { categoryId: "health", amount: -440 },
+      ],
+    },
+  ]);
+});
@@ -0,0 +1,43 @@
+import {
+  formatAmount,
+  formatMoney,
+  formatPlainAmount,
+  parseMoney,
+  toMinorUnits,
+} from "../money";
+
+it("parses grouped amounts in either convention", () => {
+  expect(parseMoney("1,234.56", "CAD", ".")).toBe(123456);
+  expect(parseMoney("1 234,56", "EUR", ",")).toBe(123456);
+  expect(parseMoney("1.234,56", "EUR", ",")).toBe(123456);
+  expect(parseMoney("1 234,5", "EUR", ".")).toBe(123450);
+  expect(parseMoney("-12", "CAD", ".")).toBe(-1200);
+  expect(parseMoney(" 0.1 ", "CAD", ".")).toBe(10);
+});
+
+it("uses the locale to read a lone separator", () => {
+  expect(parseMoney("1,234", "CAD", ".")).toBe(123400);
+  expect(parseMoney("1.234", "EUR", ",")).toBe(123400);
+  expect(parseMoney("4,25", "CAD", ".")).toBe(425);
+  expect(parseMoney("1.234", "CAD", ".")).toBeNull();
+});
+
+it("rejects anything that is not a plain amount", () => {
+  ["", "-", "abc", "12abc", "1,23,4", "12,34.5.6", "1.", ".5", "1.234"].forEach(
+    (text) => expect(parseMoney(text, "CAD", ".")).toBeNull()
+  );
+  expect(parseMoney("1500.5", "JPY", ".")).toBeNull();
+  expect(parseMoney("1500.00", "JPY", ".")).toBe(1500);
+});
+
+it("formats minor units the same way everywhere", () => {
+  expect(toMinorUnits(0.1 + 0.2, "CAD")).toBe(30);
+  expect(formatAmount(123456, "CAD")).toBe("1,234.56");
+  expect(formatAmount(-450, "CAD")).toBe("-4.50");
+  expect(formatAmount(450, "CAD", { signed: true })).toBe("+4.50");
+  expect(formatMoney(1500, "JPY")).toBe("JPY 1,500");
+  expect(formatPlainAmount(-123456, "CAD", ",")).toBe("-1234,56");
+  expect(parseMoney(formatPlainAmount(123456, "CAD", ","), "CAD", ",")).toBe(
+    123456
+  );
+});
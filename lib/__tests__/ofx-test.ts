@@ -0,0 +1,156 @@
+import { ofxToTransactions, parseOfx, parseOfxDate } from "../ofx";
+import { Transaction } from "../transactionRepository";
+
+// OFX 1.x: SGML header, unclosed leaf elements
+const sgmlStatement = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>CAD
+<BANKACCTFROM><BANKID>003<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250302120000[-5:EST]
+<TRNAMT>-45.50
+<FITID>90001
+<NAME>GROCERY STORE &amp; DELI
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250303
+<TRNAMT>1200.00
+<FITID>90002
+<MEMO>PAYROLL DEPOSIT
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+// OFX 2.x: XML with closed elements
+const xmlStatement = `<?xml version="1.0"?>
+<?OFX OFXHEADER="200" VERSION="211"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>POS</TRNTYPE><DTPOSTED>20250304083000.000</DTPOSTED><TRNAMT>-4.25</TRNAMT><FITID>A1</FITID><NAME>Coffee</NAME></STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+it("reads records and account details from SGML statements", () => {
+  const [statement] = parseOfx(sgmlStatement);
+
+  expect(statement.accountNumber).toBe("000123456789");
+  expect(statement.currency).toBe("CAD");
+  expect(statement.transactions).toEqual([
+    {
+      fitId: "90001",
+      type: "DEBIT",
+      date: "2025-03-02T17:00:00.000Z",
+      amount: -45.5,
+      name: "GROCERY STORE & DELI",
+      memo: undefined,
+    },
+    {
+      fitId: "90002",
+      type: "CREDIT",
+      date: new Date(2025, 2, 3).toISOString(),
+      amount: 1200,
+      name: "PAYROLL DEPOSIT",
+      memo: "PAYROLL DEPOSIT",
+    },
+  ]);
+});
+
+it("reads XML statements", () => {
+  expect(parseOfx(xmlStatement)[0].transactions).toEqual([
+    {
+      fitId: "A1",
+      type: "POS",
+      date: new Date(2025, 2, 4, 8, 30).toISOString(),
+      amount: -4.25,
+      name: "Coffee",
+      memo: undefined,
+    },
+  ]);
+});
+
+it("rejects files that are not OFX and unreadable dates", () => {
+  expect(() => parseOfx("Date,Amount\n")).toThrow();
+  expect(parseOfxDate("2025-03-02")).toBeNull();
+  expect(parseOfxDate("20250302000000[+1:CET]")).toBe(
+    "2025-03-01T23:00:00.000Z"
+  );
+});
+
+it("skips records already imported into the same account", () => {
+  const [statement] = parseOfx(sgmlStatement);
+  const existing: Transaction[] = [
+    {
+      id: 1,
+      merchant: "GROCERY STORE & DELI",
+      amount: -4550,
+      date: "2025-03-02T17:00:00.000Z",
+      categoryId: "other-expense",
+      accountId: "chequing",
+      fitId: "90001",
+    },
+  ];
+
+  const forChequing = ofxToTransactions(statement, "chequing", "CAD", existing);
+  expect(forChequing.duplicates).toBe(1);
+  expect(forChequing.transactions).toEqual([
+    {
+      merchant: "PAYROLL DEPOSIT",
+      amount: 120000,
+      date: new Date(2025, 2, 3).toISOString(),
+      categoryId: "other-income",
+      accountId: "chequing",
+      fitId: "90002",
+    },
+  ]);
+  expect(
+    ofxToTransactions(statement, "savings", "CAD", existing).transactions
+  ).toHaveLength(2);
+});
+
+it("reports records with malformed amounts instead of guessing", () => {
+  const [statement] = parseOfx(
+    sgmlStatement
+      .replace("<TRNAMT>-45.50", "<TRNAMT>-1,234.50")
+      .replace("<TRNAMT>1200.00", "<TRNAMT>1200,00")
+  );
+
+  expect(statement.transactions.map((t) => t.amount)).toEqual([1200]);
+  expect(statement.errors).toEqual([
+    'Record 90001: Unrecognized amount "-1,234.50"',
+  ]);
+});
+
+it("reads each statement in a file on its own", () => {
+  const savings = `<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>003<ACCTID>000987654321<ACCTTYPE>SAVINGS</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>INT
+<DTPOSTED>20250331
+<TRNAMT>2.10
+<FITID>S1
+<NAME>INTEREST
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>`;
+  const statements = parseOfx(
+    sgmlStatement.replace("</STMTRS>", `</STMTRS>\n${savings}`)
+  );
+
+  expect(
+    statements.map((s) => [s.accountNumber, s.currency, s.transactions.length])
+  ).toEqual([
+    ["000123456789", "CAD", 2],
+    ["000987654321", "USD", 1],
+  ]);
+});
@@ -0,0 +1,62 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { transaction } from "@/test/factories";
+
+import { Account } from "../accountRepository";
+import { clearedBalance, transactionsToReconcile } from "../reconciliation";
+import {
+  addTransaction,
+  listTransactions,
+  resetTransactionsForTesting,
+  setTransactionStatus,
+  TRANSACTIONS_KEY,
+} from "../transactionRepository";
+
+const account: Account = {
+  id: "chequing",
+  name: "Chequing",
+  type: "chequing",
+  currency: "CAD",
+  openingBalance: 10000,
+};
+
+const statementDate = new Date(2025, 2, 31);
+
+const transactions = [
+  transaction(1, -2000, new Date(2025, 1, 10), { status: "reconciled" }),
+  transaction(2, -500, new Date(2025, 2, 31, 22, 0), { status: "cleared" }),
+  transaction(3, 30000, new Date(2025, 2, 3)),
+  transaction(4, -700, new Date(2025, 3, 1), { status: "cleared" }),
+  transaction(5, -900, new Date(2025, 2, 5), { accountId: "savings" }),
+];
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  resetTransactionsForTesting();
+});
+
+it("lists what is left to tick off up to the statement date", () => {
+  expect(
+    transactionsToReconcile(transactions, "chequing", statementDate).map(
+      (t) => t.id
+    )
+  ).toEqual([3, 2]);
+});
+
+it("counts reconciled items and those cleared by the statement date", () => {
+  expect(clearedBalance(account, transactions, statementDate)).toBe(7500);
+});
+
+it("stores statuses per transaction, leaving uncleared unset", async () => {
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  await addTransaction(transactions[2]);
+  await addTransaction(transactions[1]);
+
+  await setTransactionStatus([3], "cleared");
+  await setTransactionStatus([2], "uncleared");
+  await setTransactionStatus([3], "reconciled");
+
+  const stored = await listTransactions();
+  expect(stored.find((t) => t.id === 3)?.status).toBe("reconciled");
+  expect(stored.find((t) => t.id === 2)).not.toHaveProperty("status");
+});
@@ -0,0 +1,51 @@
+import {
+  dueOccurrences,
+  occurrenceDate,
+  Schedule,
+  upcomingOccurrences,
+} from "../recurrence";
+
+const schedule = (extra: Partial<Schedule> = {}): Schedule => ({
+  frequency: "monthly",
+  startDate: new Date(2025, 0, 31, 9, 0).toISOString(),
+  ...extra,
+});
+
+it("keeps monthly occurrences on the start day, clamped to short months", () => {
+  expect(
+    [0, 1, 2, 3].map((index) => occurrenceDate(schedule(), index))
+  ).toEqual([
+    new Date(2025, 0, 31, 9, 0),
+    new Date(2025, 1, 28, 9, 0),
+    new Date(2025, 2, 31, 9, 0),
+    new Date(2025, 3, 30, 9, 0),
+  ]);
+});
+
+it("steps daily, weekly, bi-weekly and yearly occurrences", () => {
+  const start = new Date(2024, 1, 29, 9, 0);
+  const dateFor = (frequency: Schedule["frequency"]) =>
+    occurrenceDate(schedule({ frequency, startDate: start.toISOString() }), 1);
+
+  expect(dateFor("daily")).toEqual(new Date(2024, 2, 1, 9, 0));
+  expect(dateFor("weekly")).toEqual(new Date(2024, 2, 7, 9, 0));
+  expect(dateFor("biweekly")).toEqual(new Date(2024, 2, 14, 9, 0));
+  expect(dateFor("yearly")).toEqual(new Date(2025, 1, 28, 9, 0));
+});
+
+it("lists due occurrences up to now from the next index", () => {
+  expect(dueOccurrences(schedule(), 1, new Date(2025, 3, 30, 8, 0))).toEqual([
+    1, 2,
+  ]);
+});
+
+it("stops after the count or the end date", () => {
+  expect(upcomingOccurrences(schedule({ count: 2 }), 0, 5)).toHaveLength(2);
+  expect(
+    upcomingOccurrences(
+      schedule({ endDate: new Date(2025, 2, 31, 9, 0).toISOString() }),
+      1,
+      5
+    ).map(({ index }) => index)
+  ).toEqual([1, 2]);
+});
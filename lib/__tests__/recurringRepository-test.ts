@@ -0,0 +1,94 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  applyDueRecurring,
+  listRecurringRules,
+  RECURRING_KEY,
+  RecurringRule,
+  saveRecurringRule,
+  setRecurringRulePaused,
+  skipNextOccurrence,
+} from "../recurringRepository";
+import {
+  listTransactions,
+  resetTransactionsForTesting,
+  TRANSACTIONS_KEY,
+} from "../transactionRepository";
+
+const rent: RecurringRule = {
+  id: "rent",
+  merchant: "Rent",
+  amount: -1200,
+  categoryId: "bills",
+  accountId: "chequing",
+  frequency: "monthly",
+  startDate: new Date(2025, 0, 1, 9, 0).toISOString(),
+  nextIndex: 0,
+  paused: false,
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  resetTransactionsForTesting();
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  await saveRecurringRule(rent);
+});
+
+it("creates every due occurrence once, even when runs overlap", async () => {
+  const now = new Date(2025, 2, 15);
+  await Promise.all([applyDueRecurring(now), applyDueRecurring(now)]);
+  await applyDueRecurring(now);
+
+  const transactions = await listTransactions();
+  expect(transactions.map((t) => t.date)).toEqual([
+    new Date(2025, 2, 1, 9, 0).toISOString(),
+    new Date(2025, 1, 1, 9, 0).toISOString(),
+    new Date(2025, 0, 1, 9, 0).toISOString(),
+  ]);
+  expect(transactions[0]).toMatchObject({
+    merchant: "Rent",
+    amount: -1200,
+    recurringId: "rent",
+  });
+  expect(new Set(transactions.map((t) => t.id)).size).toBe(3);
+  expect((await listRecurringRules())[0].nextIndex).toBe(3);
+});
+
+it("saves the occurrences and the advanced rule in one write", async () => {
+  await listTransactions();
+  // The storage mock's functions record every call
+  const multiSet = jest.mocked(AsyncStorage.multiSet);
+  const setItem = jest.mocked(AsyncStorage.setItem);
+  multiSet.mockClear();
+  setItem.mockClear();
+
+  await applyDueRecurring(new Date(2025, 1, 15));
+
+  expect(setItem).not.toHaveBeenCalled();
+  expect(multiSet).toHaveBeenCalledTimes(1);
+  expect(multiSet.mock.calls[0][0].map(([key]) => key)).toEqual(
+    expect.arrayContaining([TRANSACTIONS_KEY, RECURRING_KEY])
+  );
+});
+
+it("skips the next occurrence", async () => {
+  await skipNextOccurrence("rent");
+  await applyDueRecurring(new Date(2025, 1, 15));
+
+  expect((await listTransactions()).map((t) => t.date)).toEqual([
+    new Date(2025, 1, 1, 9, 0).toISOString(),
+  ]);
+});
+
+it("creates nothing while paused and drops missed occurrences on resume", async () => {
+  await setRecurringRulePaused("rent", true);
+  await applyDueRecurring(new Date(2025, 2, 15));
+  expect(await listTransactions()).toEqual([]);
+
+  await setRecurringRulePaused("rent", false, new Date(2025, 2, 15));
+  await applyDueRecurring(new Date(2025, 3, 15));
+
+  expect((await listTransactions()).map((t) => t.date)).toEqual([
+    new Date(2025, 3, 1, 9, 0).toISOString(),
+  ]);
+});
@@ -0,0 +1,169 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+
+import { listAccounts } from "../accountRepository";
+import { APP_LOCK_KEY, disableAppLock, setPin, verifyPin } from "../appLock";
+import { saveBudget } from "../budgetRepository";
+import * as crypto from "../crypto";
+import {
+  ENCRYPTION_INFO_KEY,
+  resetStorageKeyForTesting,
+  unlockStorage,
+} from "../storage";
+import {
+  addTransaction,
+  listTransactions,
+  resetTransactionsForTesting,
+  TRANSACTIONS_KEY,
+} from "../transactionRepository";
+
+// Words that appear in the sample data or in what the tests write
+const readableWords = [
+  "Coffee Shop",
+  "Salary",
+  "Chequing Account",
+  "chequing",
+  "CAD",
+  "250000",
+  "merchant",
+  "Secret Bakery",
+];
+
+const dumpStorage = async () =>
+  AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+
+// Everything except the lock settings and the key salt, which hold no data
+const expectNothingReadable = async () => {
+  const entries = await dumpStorage();
+  const dataEntries = entries.filter(
+    ([key]) => key !== APP_LOCK_KEY && key !== ENCRYPTION_INFO_KEY
+  );
+
+  expect(dataEntries.length).toBeGreaterThan(0);
+  dataEntries.forEach(([, value]) => expect(value).toMatch(/^enc:v1:/));
+  const dump = JSON.stringify(entries);
+  readableWords.forEach((word) => expect(dump).not.toContain(word));
+};
+
+// As if the app had been closed and opened again
+const restart = () => {
+  resetStorageKeyForTesting();
+  resetTransactionsForTesting();
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  restart();
+  await listTransactions();
+  await listAccounts();
+  await saveBudget({
+    categoryId: "food",
+    limit: 40000,
+    rollover: false,
+    startMonth: { year: 2025, month: 2 },
+  });
+});
+
+it("encrypts existing plaintext data when a PIN is set", async () => {
+  await setPin("482913");
+
+  await expectNothingReadable();
+  expect(await listTransactions()).toHaveLength(6);
+});
+
+it("keeps new writes encrypted", async () => {
+  await setPin("482913");
+
+  await addTransaction({
+    id: 99,
+    merchant: "Secret Bakery",
+    amount: -1250,
+    date: new Date(2025, 3, 1).toISOString(),
+    categoryId: "food",
+    accountId: "chequing",
+  });
+
+  await expectNothingReadable();
+  expect((await listTransactions()).map((t) => t.merchant)).toContain(
+    "Secret Bakery"
+  );
+});
+
+it("cannot read anything after a restart until the PIN is entered", async () => {
+  await setPin("482913");
+  restart();
+
+  await expect(listTransactions()).rejects.toThrow(/locked/);
+  expect(await verifyPin("000000")).toMatchObject({ status: "incorrect" });
+  await expect(listTransactions()).rejects.toThrow(/locked/);
+
+  expect(await verifyPin("482913")).toEqual({ status: "unlocked" });
+  expect(await listTransactions()).toHaveLength(6);
+});
+
+it("decrypts a stored value once until it changes", async () => {
+  await setPin("482913");
+  restart();
+  await unlockStorage();
+  const decrypt = jest.spyOn(crypto, "decryptText");
+
+  await listTransactions();
+  const decrypted = decrypt.mock.calls.length;
+  await listTransactions();
+  expect(decrypted).toBeGreaterThan(0);
+  expect(decrypt).toHaveBeenCalledTimes(decrypted);
+
+  // A value written elsewhere, e.g. by a restore, is decrypted again
+  const before = await AsyncStorage.getItem(TRANSACTIONS_KEY);
+  await addTransaction({
+    id: 99,
+    merchant: "Secret Bakery",
+    amount: -1250,
+    date: new Date(2025, 3, 1).toISOString(),
+    categoryId: "food",
+    accountId: "chequing",
+  });
+  expect(await listTransactions()).toHaveLength(7);
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, before!);
+  expect(await listTransactions()).toHaveLength(6);
+  expect(decrypt).toHaveBeenCalledTimes(decrypted + 1);
+  decrypt.mockRestore();
+});
+
+it("keeps the data as it is when the PIN changes", async () => {
+  await setPin("482913");
+  const before = await AsyncStorage.getItem(TRANSACTIONS_KEY);
+
+  await setPin("175046");
+
+  expect(await AsyncStorage.getItem(TRANSACTIONS_KEY)).toBe(before);
+  restart();
+  expect(await verifyPin("482913")).toMatchObject({ status: "incorrect" });
+  expect(await verifyPin("175046")).toEqual({ status: "unlocked" });
+  expect(await listTransactions()).toHaveLength(6);
+});
+
+it("keeps the storage key and the PIN hash out of the app's files", async () => {
+  await setPin("482913");
+
+  const { keyId } = JSON.parse(
+    (await AsyncStorage.getItem(ENCRYPTION_INFO_KEY))!
+  );
+  const key = await SecureStore.getItemAsync(keyId);
+  expect(key).toMatch(/^[0-9a-f]{128}$/);
+  const dump = JSON.stringify(await dumpStorage());
+  expect(dump).not.toContain(key);
+  expect(dump).not.toMatch(/hash|salt/);
+});
+
+it("goes back to plaintext when the lock is turned off", async () => {
+  await setPin("482913");
+
+  await disableAppLock();
+
+  expect(await AsyncStorage.getItem(ENCRYPTION_INFO_KEY)).toBeNull();
+  const stored = JSON.parse((await AsyncStorage.getItem(TRANSACTIONS_KEY))!);
+  expect(stored).toHaveLength(6);
+  restart();
+  expect(await listTransactions()).toHaveLength(6);
+});
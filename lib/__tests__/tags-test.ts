@@ -0,0 +1,34 @@
+import { formatTags, parseTags, tagsInUse } from "../tags";
+import { Transaction } from "../transactionRepository";
+
+const tagged = (id: number, tags: string[]): Transaction => ({
+  id,
+  merchant: `Merchant ${id}`,
+  amount: -100,
+  date: new Date(2025, 2, id).toISOString(),
+  categoryId: "food",
+  accountId: "chequing",
+  tags,
+});
+
+it("reads comma-separated tags without blanks or repeats", () => {
+  expect(parseTags(" Work trip,, tax   deductible ,work TRIP, ")).toEqual([
+    "Work trip",
+    "tax deductible",
+  ]);
+  expect(parseTags("")).toEqual([]);
+  expect(formatTags(["Work trip", "tax deductible"])).toBe(
+    "Work trip, tax deductible"
+  );
+});
+
+it("suggests the most used tags first", () => {
+  expect(
+    tagsInUse([
+      tagged(1, ["holiday"]),
+      tagged(2, ["Work", "holiday"]),
+      tagged(3, ["work"]),
+      tagged(4, ["gift"]),
+    ])
+  ).toEqual(["holiday", "Work", "gift"]);
+});
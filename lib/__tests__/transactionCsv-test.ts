@@ -0,0 +1,130 @@
+import { defaultAccounts } from "../../constants/Accounts";
+import { defaultCategories } from "../../constants/Categories";
+
+import { parseCsv } from "../csv";
+import {
+  exportTransactionsCsv,
+  guessColumnMapping,
+  parseImportRows,
+} from "../transactionCsv";
+import { Transaction } from "../transactionRepository";
+
+const transactions: Transaction[] = [
+  {
+    id: 1,
+    merchant: "Grocery Store",
+    amount: -4550,
+    date: "2025-03-02T15:00:00.000Z",
+    categoryId: "food",
+    accountId: "chequing",
+  },
+];
+
+it("exports transactions with category and account names", () => {
+  expect(
+    parseCsv(
+      exportTransactionsCsv(transactions, defaultCategories, defaultAccounts)
+    )
+  ).toEqual([
+    ["Date", "Merchant", "Amount", "Category", "Account", "Currency"],
+    [
+      "2025-03-02T15:00:00.000Z",
+      "Grocery Store",
+      "-45.50",
+      "Food",
+      "Chequing Account",
+      "CAD",
+    ],
+  ]);
+});
+
+it("re-imports its own export", () => {
+  const [headers, ...rows] = parseCsv(
+    exportTransactionsCsv(transactions, defaultCategories, defaultAccounts)
+  );
+
+  expect(
+    parseImportRows(
+      rows,
+      guessColumnMapping(headers),
+      "savings",
+      "CAD",
+      defaultCategories
+    )
+  ).toEqual([
+    {
+      line: 2,
+      transaction: {
+        merchant: "Grocery Store",
+        amount: -4550,
+        date: "2025-03-02T15:00:00.000Z",
+        categoryId: "food",
+        accountId: "savings",
+      },
+    },
+  ]);
+});
+
+it("reports an error for each unreadable row", () => {
+  const rows = [
+    ["2025-03-01", "Coffee", "(4.25)", ""],
+    ["yesterday-ish", "Coffee", "-4.25", ""],
+    ["2025-03-01", "Coffee", "four", ""],
+    ["2025-03-01", "", "-4.25", ""],
+    ["2025-03-01", "Paycheque", "$1,200.00", "Salary"],
+  ];
+  const result = parseImportRows(
+    rows,
+    { date: 0, merchant: 1, amount: 2, category: 3 },
+    "chequing",
+    "CAD",
+    defaultCategories
+  );
+
+  expect(result.map((row) => row.error)).toEqual([
+    undefined,
+    'Unrecognized date "yesterday-ish"',
+    'Unrecognized amount "four"',
+    "Missing merchant",
+    undefined,
+  ]);
+  expect(result[0].transaction).toMatchObject({
+    amount: -425,
+    date: new Date(2025, 2, 1).toISOString(),
+    categoryId: "other-expense",
+  });
+  expect(result[4].transaction).toMatchObject({
+    amount: 120000,
+    categoryId: "salary",
+  });
+});
+
+it("only reads ISO dates and timestamps with an offset", () => {
+  const dates = [
+    "2025-03-01",
+    "2025-03-01T14:30:00.000Z",
+    "2025-03-01T09:30-05:00",
+    "03/01/2025",
+    "Mar 1, 2025",
+    "2025-02-30",
+    "2025-03-01T14:30:00",
+  ];
+  const result = parseImportRows(
+    dates.map((date) => [date, "Coffee", "-4.25"]),
+    { date: 0, merchant: 1, amount: 2 },
+    "chequing",
+    "CAD",
+    defaultCategories
+  );
+
+  expect(result.map((row) => row.transaction?.date)).toEqual([
+    new Date(2025, 2, 1).toISOString(),
+    "2025-03-01T14:30:00.000Z",
+    "2025-03-01T14:30:00.000Z",
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+  ]);
+  expect(result[3].error).toBe('Unrecognized date "03/01/2025"');
+});
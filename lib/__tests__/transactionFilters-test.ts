@@ -0,0 +1,112 @@
+import { transaction } from "@/test/factories";
+
+import { defaultCategories } from "../../constants/Categories";
+import {
+  describeFilters,
+  emptyFilters,
+  filtersForCurrency,
+  filterTransactions,
+} from "../transactionFilters";
+import { Transaction } from "../transactionRepository";
+
+const purchase = (
+  id: number,
+  merchant: string,
+  amount: number,
+  day: number,
+  categoryId: string
+): Transaction =>
+  transaction(id, amount, new Date(2025, 2, day, 12), { merchant, categoryId });
+
+const transactions = [
+  purchase(1, "Corner Grocery", -4500, 2, "food"),
+  purchase(2, "Payroll", 200000, 3, "salary"),
+  purchase(3, "City Transit", -325, 5, "transport"),
+  purchase(4, "Grocery Outlet", -12000, 9, "food"),
+];
+
+const ids = (filtered: Transaction[]) => filtered.map((t) => t.id);
+
+it("returns everything without filters", () => {
+  expect(ids(filterTransactions(transactions, emptyFilters))).toEqual([
+    1, 2, 3, 4,
+  ]);
+});
+
+it("combines merchant text, type, category, date and amount filters", () => {
+  const filters = { ...emptyFilters, query: "  GROCERY " };
+  expect(ids(filterTransactions(transactions, filters))).toEqual([1, 4]);
+
+  expect(
+    ids(filterTransactions(transactions, { ...emptyFilters, kind: "income" }))
+  ).toEqual([2]);
+  expect(
+    ids(
+      filterTransactions(transactions, {
+        ...emptyFilters,
+        categoryIds: ["food", "transport"],
+        fromDate: new Date(2025, 2, 5).toISOString(),
+        toDate: new Date(2025, 2, 9, 23, 59, 59, 999).toISOString(),
+      })
+    )
+  ).toEqual([3, 4]);
+  expect(
+    ids(
+      filterTransactions(transactions, {
+        ...emptyFilters,
+        minAmount: 4000,
+        maxAmount: 20000,
+      })
+    )
+  ).toEqual([1, 4]);
+});
+
+it("matches a split transaction by any of its categories", () => {
+  const receipt: Transaction = {
+    ...purchase(5, "Superstore", -6000, 10, "food"),
+    splits: [
+      { categoryId: "food", amount: -4000 },
+      { categoryId: "health", amount: -2000 },
+    ],
+  };
+  const filters = { ...emptyFilters, categoryIds: ["health"] };
+
+  expect(ids(filterTransactions([...transactions, receipt], filters))).toEqual([
+    5,
+  ]);
+});
+
+it("describes each active filter as a removable chip", () => {
+  const filters = {
+    ...emptyFilters,
+    query: "grocery",
+    kind: "expense" as const,
+    categoryIds: ["food"],
+    minAmount: 1000,
+  };
+  const chips = describeFilters(filters, defaultCategories, "CAD");
+
+  expect(chips.map((chip) => chip.label)).toEqual([
+    '"grocery"',
+    "Expenses",
+    "Food",
+    "≥ 10.00",
+  ]);
+  expect(chips[2].clear(filters).categoryIds).toEqual([]);
+  expect(describeFilters(emptyFilters, defaultCategories, "CAD")).toEqual([]);
+});
+
+it("only applies amount bounds to accounts in their currency", () => {
+  const filters = {
+    ...emptyFilters,
+    query: "grocery",
+    minAmount: 5000,
+    amountCurrency: "CAD",
+  };
+
+  expect(filtersForCurrency(filters, "CAD")).toBe(filters);
+  expect(filtersForCurrency(filters, "JPY")).toEqual({
+    ...emptyFilters,
+    query: "grocery",
+  });
+});
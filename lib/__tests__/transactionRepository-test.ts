@@ -0,0 +1,445 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  addTransaction,
+  applyEdits,
+  applySplits,
+  BALANCES_KEY,
+  deleteTransaction,
+  getAccountTotals,
+  getTransfer,
+  listDeletedTransactions,
+  listTransactions,
+  mergeTransactions,
+  purgeDeletedTransactions,
+  purgeTransaction,
+  reassignCategory,
+  resetTransactionsForTesting,
+  restoreTransaction,
+  saveTransfer,
+  SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  setTransactionStatus,
+  Transaction,
+  TRANSACTIONS_KEY,
+  updateTransaction,
+} from "../transactionRepository";
+
+const legacyTransaction: Transaction = {
+  id: 42,
+  merchant: "Bakery",
+  amount: -325,
+  date: new Date(2025, 2, 1).toISOString(),
+  categoryId: "food",
+  accountId: "chequing",
+};
+
+// Shape written before schema versioning existed
+const { categoryId, ...legacyFields } = legacyTransaction;
+const legacyV0Transaction = {
+  ...legacyFields,
+  amount: -3.25,
+  icon: "cafe-outline",
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  resetTransactionsForTesting();
+});
+
+it("seeds sample data on first launch", async () => {
+  const transactions = await listTransactions();
+
+  expect(transactions.length).toBeGreaterThan(0);
+  expect(await AsyncStorage.getItem(SCHEMA_VERSION_KEY)).toBe(
+    String(SCHEMA_VERSION)
+  );
+});
+
+it("migrates unversioned data without losing it", async () => {
+  const createdAt = new Date(2025, 2, 28, 9, 45);
+  await AsyncStorage.setItem(
+    TRANSACTIONS_KEY,
+    JSON.stringify([
+      { ...legacyV0Transaction, date: "Mar 1, 2025" },
+      {
+        ...legacyV0Transaction,
+        id: createdAt.getTime(),
+        date: "Today, 9:45 AM",
+      },
+    ])
+  );
+
+  const transactions = await listTransactions();
+
+  expect(transactions.map((t) => t.date)).toEqual([
+    createdAt.toISOString(),
+    new Date(2025, 2, 1).toISOString(),
+  ]);
+  expect(await AsyncStorage.getItem(SCHEMA_VERSION_KEY)).toBe(
+    String(SCHEMA_VERSION)
+  );
+});
+
+it("infers categories from the icons older versions stored", async () => {
+  await AsyncStorage.setItem(
+    TRANSACTIONS_KEY,
+    JSON.stringify([
+      { ...legacyV0Transaction, id: 1, icon: "cart-outline" },
+      { ...legacyV0Transaction, id: 2, amount: 10, icon: "cash-outline" },
+      { ...legacyV0Transaction, id: 3, icon: "help-outline" },
+    ])
+  );
+
+  const transactions = await listTransactions();
+
+  expect(transactions.map((t) => [t.id, t.categoryId])).toEqual([
+    [1, "shopping"],
+    [2, "salary"],
+    [3, "other-expense"],
+  ]);
+  expect(transactions[0]).not.toHaveProperty("icon");
+});
+
+it("converts amounts in every store to minor units", async () => {
+  await AsyncStorage.multiSet([
+    [
+      TRANSACTIONS_KEY,
+      JSON.stringify([
+        { ...legacyTransaction, amount: -0.1 - 0.2 },
+        { ...legacyTransaction, id: 43, amount: -1500, accountId: "yen" },
+      ]),
+    ],
+    [SCHEMA_VERSION_KEY, "3"],
+    [
+      "accounts",
+      JSON.stringify([
+        { id: "chequing", currency: "CAD", openingBalance: 10.1 },
+        { id: "yen", currency: "JPY", openingBalance: 2000 },
+      ]),
+    ],
+    ["budgets", JSON.stringify([{ categoryId: "food", limit: 250.5 }])],
+    [
+      "recurring",
+      JSON.stringify([{ id: "rent", accountId: "chequing", amount: -1200 }]),
+    ],
+  ]);
+
+  const transactions = await listTransactions();
+
+  expect(transactions.map((t) => t.amount)).toEqual([-30, -1500]);
+  const stored = async (key: string) =>
+    JSON.parse((await AsyncStorage.getItem(key))!);
+  expect((await stored("accounts")).map((a: any) => a.openingBalance)).toEqual([
+    1010, 2000,
+  ]);
+  expect((await stored("budgets"))[0].limit).toBe(25050);
+  expect((await stored("recurring"))[0].amount).toBe(-120000);
+});
+
+it("refuses data written by a newer schema", async () => {
+  await AsyncStorage.multiSet([
+    [TRANSACTIONS_KEY, "[]"],
+    [SCHEMA_VERSION_KEY, String(SCHEMA_VERSION + 1)],
+  ]);
+
+  await expect(listTransactions()).rejects.toThrow(/newer than supported/);
+});
+
+it("adds, updates and deletes transactions", async () => {
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+
+  await addTransaction(legacyTransaction);
+  await updateTransaction({ ...legacyTransaction, merchant: "Patisserie" });
+  expect((await listTransactions())[0].merchant).toBe("Patisserie");
+
+  await deleteTransaction(legacyTransaction.id);
+  expect(await listTransactions()).toEqual([]);
+});
+
+it("keeps the balance index in step with every write", async () => {
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+
+  await addTransaction(legacyTransaction);
+  await addTransaction({ ...legacyTransaction, id: 43, amount: 10000 });
+  await saveTransfer({
+    fromAccountId: "chequing",
+    toAccountId: "savings",
+    amount: 2500,
+    date: legacyTransaction.date,
+    fromMerchant: "To Savings",
+    toMerchant: "From Chequing",
+  });
+  expect(await getAccountTotals()).toEqual({ chequing: 7175, savings: 2500 });
+
+  await deleteTransaction(43);
+  expect(await getAccountTotals()).toEqual({ chequing: -2825, savings: 2500 });
+
+  // Data saved before the index existed gets it built on first use
+  await AsyncStorage.removeItem(BALANCES_KEY);
+  expect(await getAccountTotals()).toEqual({ chequing: -2825, savings: 2500 });
+  expect(await AsyncStorage.getItem(BALANCES_KEY)).not.toBeNull();
+});
+
+it("keeps every change when several run at once", async () => {
+  await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  const ids = [1, 2, 3, 4, 5];
+  for (const id of ids) {
+    await addTransaction({ ...legacyTransaction, id });
+  }
+
+  // As when several rows are ticked quickly on the reconcile screen
+  await Promise.all(ids.map((id) => setTransactionStatus([id], "cleared")));
+
+  expect((await listTransactions()).map((t) => t.status)).toEqual(
+    ids.map(() => "cleared")
+  );
+});
+
+describe("editing", () => {
+  const imported: Transaction = {
+    ...legacyTransaction,
+    fitId: "20250301-1",
+    recurringId: "rent",
+    status: "cleared",
+    note: "Croissants",
+    tags: ["breakfast"],
+  };
+  const edits = {
+    merchant: "Patisserie",
+    amount: -450,
+    date: imported.date,
+    categoryId: "food",
+    accountId: "chequing",
+  };
+
+  it("keeps the fields the edit screen does not show", async () => {
+    await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+    await addTransaction(imported);
+
+    await updateTransaction(applyEdits(imported, { ...edits, note: "Tarts" }));
+
+    expect(await listTransactions()).toEqual([
+      { ...imported, ...edits, note: "Tarts", tags: undefined },
+    ]);
+  });
+
+  it("clears editable fields that were emptied", () => {
+    const edited = applyEdits(
+      applySplits(imported, [
+        { categoryId: "food", amount: -200 },
+        { categoryId: "shopping", amount: -125 },
+      ]),
+      edits
+    );
+
+    expect(edited).not.toHaveProperty("note");
+    expect(edited).not.toHaveProperty("tags");
+    expect(edited).not.toHaveProperty("splits");
+    expect(edited.fitId).toBe("20250301-1");
+  });
+});
+
+describe("splits", () => {
+  const receipt = applySplits({ ...legacyTransaction, amount: -9000 }, [
+    { categoryId: "food", amount: -5000 },
+    { categoryId: "shopping", amount: -2500 },
+    { categoryId: "health", amount: -1500 },
+  ]);
+
+  beforeEach(() => AsyncStorage.setItem(TRANSACTIONS_KEY, "[]"));
+
+  it("files a split under its largest line", () => {
+    expect(receipt.categoryId).toBe("food");
+    expect(
+      applySplits(receipt, [
+        { categoryId: "health", amount: -4000 },
+        { categoryId: "health", amount: -5000 },
+      ])
+    ).toEqual({ ...legacyTransaction, amount: -9000, categoryId: "health" });
+  });
+
+  it("only saves lines that add up to the total", async () => {
+    await expect(addTransaction({ ...receipt, amount: -8000 })).rejects.toThrow(
+      /add up to the total/
+    );
+    await expect(
+      addTransaction({
+        ...receipt,
+        splits: [{ categoryId: "food", amount: -9000 }],
+      })
+    ).rejects.toThrow(/at least two lines/);
+
+    await addTransaction(receipt);
+    expect(await listTransactions()).toEqual([receipt]);
+  });
+
+  it("moves split lines when a category is merged away", async () => {
+    await addTransaction(receipt);
+
+    await reassignCategory("health", "shopping");
+
+    expect((await listTransactions())[0].splits).toEqual([
+      { categoryId: "food", amount: -5000 },
+      { categoryId: "shopping", amount: -4000 },
+    ]);
+  });
+});
+
+describe("transfers", () => {
+  const transferDetails = {
+    fromAccountId: "chequing",
+    toAccountId: "savings",
+    amount: 10000,
+    date: new Date(2025, 2, 2).toISOString(),
+    fromMerchant: "Transfer to Savings",
+    toMerchant: "Transfer from Chequing",
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+  });
+
+  it("creates a linked debit and credit", async () => {
+    const [from, to] = await saveTransfer(transferDetails);
+
+    expect(from.amount).toBe(-10000);
+    expect(to.amount).toBe(10000);
+    expect(from.transferId).toBeDefined();
+    expect(to.transferId).toBe(from.transferId);
+  });
+
+  it("keeps both sides in step when one is edited", async () => {
+    const [from] = await saveTransfer(transferDetails);
+
+    await updateTransaction({ ...from, amount: -4000 });
+
+    const transfer = await getTransfer(from.transferId!);
+    expect(transfer?.to.amount).toBe(4000);
+  });
+
+  it("records the rate between accounts in different currencies", async () => {
+    const [from, to] = await saveTransfer({
+      ...transferDetails,
+      toAmount: 7300,
+      exchangeRate: 0.73,
+    });
+    expect([from.amount, to.amount]).toEqual([-10000, 7300]);
+    expect(to.exchangeRate).toBe(0.73);
+
+    await updateTransaction({ ...from, amount: -20000 });
+
+    const transfer = await getTransfer(from.transferId!);
+    expect(transfer?.to.amount).toBe(14600);
+  });
+
+  it("keeps notes and statuses when the transfer is saved again", async () => {
+    const [from, to] = await saveTransfer(transferDetails);
+    await updateTransaction({ ...from, note: "Rainy day fund" });
+    await setTransactionStatus([to.id], "cleared");
+
+    await saveTransfer({
+      ...transferDetails,
+      transferId: from.transferId,
+      amount: 12000,
+    });
+
+    const transfer = await getTransfer(from.transferId!);
+    expect(transfer?.from).toMatchObject({
+      amount: -12000,
+      note: "Rainy day fund",
+    });
+    expect(transfer?.to).toMatchObject({ amount: 12000, status: "cleared" });
+  });
+
+  it("deletes both sides together", async () => {
+    const [, to] = await saveTransfer(transferDetails);
+
+    await deleteTransaction(to.id);
+
+    expect(await listTransactions()).toEqual([]);
+  });
+});
+
+describe("trash", () => {
+  const deletedAt = new Date(2025, 3, 1);
+
+  beforeEach(async () => {
+    await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+    await addTransaction(legacyTransaction);
+  });
+
+  it("keeps deleted transactions until they are restored", async () => {
+    await deleteTransaction(legacyTransaction.id, deletedAt);
+
+    expect(await listTransactions()).toEqual([]);
+    expect(await listDeletedTransactions()).toEqual([
+      { ...legacyTransaction, deletedAt: deletedAt.toISOString() },
+    ]);
+
+    await restoreTransaction(legacyTransaction.id);
+
+    expect(await listTransactions()).toEqual([legacyTransaction]);
+    expect(await listDeletedTransactions()).toEqual([]);
+  });
+
+  it("purges only what is in the trash", async () => {
+    await purgeTransaction(legacyTransaction.id);
+    expect(await listTransactions()).toEqual([legacyTransaction]);
+
+    await deleteTransaction(legacyTransaction.id, deletedAt);
+    await purgeTransaction(legacyTransaction.id);
+
+    expect(await listDeletedTransactions()).toEqual([]);
+  });
+
+  it("empties the trash after the retention period", async () => {
+    await deleteTransaction(legacyTransaction.id, deletedAt);
+
+    await purgeDeletedTransactions(new Date(2025, 3, 20));
+    expect(await listDeletedTransactions()).toHaveLength(1);
+
+    await purgeDeletedTransactions(new Date(2025, 4, 2));
+    expect(await listDeletedTransactions()).toEqual([]);
+  });
+});
+
+describe("merging duplicates", () => {
+  const deletedAt = new Date(2025, 3, 1);
+  const imported: Transaction = {
+    ...legacyTransaction,
+    id: 43,
+    merchant: "BAKERY #12",
+    fitId: "FIT-1",
+    status: "cleared",
+    tags: ["Weekend", "treats"],
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.setItem(TRANSACTIONS_KEY, "[]");
+    await addTransaction({
+      ...legacyTransaction,
+      note: "Birthday cake",
+      tags: ["weekend"],
+    });
+    await addTransaction(imported);
+  });
+
+  it("keeps one and folds in what only the other had", async () => {
+    const remaining = await mergeTransactions(42, 43, deletedAt);
+
+    expect(remaining).toEqual([
+      {
+        ...legacyTransaction,
+        note: "Birthday cake",
+        tags: ["weekend", "treats"],
+        fitId: "FIT-1",
+        status: "cleared",
+      },
+    ]);
+    expect(await listDeletedTransactions()).toEqual([
+      { ...imported, deletedAt: deletedAt.toISOString() },
+    ]);
+    expect(await getAccountTotals()).toEqual({ chequing: -325 });
+  });
+});
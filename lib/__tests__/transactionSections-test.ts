@@ -0,0 +1,31 @@
+import { transaction } from "@/test/factories";
+
+import { groupByDay } from "../transactionSections";
+
+const now = new Date(2025, 2, 28, 15, 0);
+
+it("groups newest-first transactions into one section per day", () => {
+  const sections = groupByDay(
+    [
+      transaction(1, -450, new Date(2025, 2, 28, 8, 30)),
+      transaction(2, 250000, new Date(2025, 2, 28, 0, 5)),
+      transaction(3, -6520, new Date(2025, 2, 27, 23, 55)),
+      transaction(4, -8575, new Date(2025, 2, 25, 12, 0)),
+      transaction(5, -1000, new Date(2024, 11, 31, 9, 0)),
+    ],
+    now
+  );
+
+  expect(
+    sections.map(({ title, total, data }) => [
+      title,
+      total,
+      data.map((t) => t.id),
+    ])
+  ).toEqual([
+    ["Today", 249550, [1, 2]],
+    ["Yesterday", -6520, [3]],
+    ["Tuesday, March 25", -8575, [4]],
+    ["Tuesday, December 31, 2024", -1000, [5]],
+  ]);
+});
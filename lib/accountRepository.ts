@@ -0,0 +1,135 @@
+import { Account, defaultAccounts } from "@/constants/Accounts";
+import { ruleEntryWithoutAccount } from "@/lib/categorizationRepository";
+import { recurringEntryWithoutAccount } from "@/lib/recurringRepository";
+import { readJSON, writeJSON } from "@/lib/storage";
+import {
+  deleteTransactionsForAccount,
+  listDeletedTransactions,
+  listTransactions,
+  reassignAccount,
+} from "@/lib/transactionRepository";
+
+export type { Account, AccountType } from "@/constants/Accounts";
+
+export const ACCOUNTS_KEY = "accounts";
+
+const readAccounts = async (): Promise<Account[]> => {
+  const stored = await readJSON<Account[] | null>(ACCOUNTS_KEY, null);
+  if (stored) {
+    return stored;
+  }
+  // First launch: start with the accounts older versions hardcoded
+  await writeJSON(ACCOUNTS_KEY, defaultAccounts);
+  return defaultAccounts;
+};
+
+/** All accounts, including archived ones, in the user's chosen order. */
+export const listAccounts = (): Promise<Account[]> => readAccounts();
+
+/** Whether any transaction, including those in the trash, uses the account. */
+export const hasTransactions = async (id: string): Promise<boolean> => {
+  const [transactions, deleted] = await Promise.all([
+    listTransactions(),
+    listDeletedTransactions(),
+  ]);
+  return [...transactions, ...deleted].some((t) => t.accountId === id);
+};
+
+export const getAccount = async (id: string): Promise<Account | undefined> => {
+  const accounts = await readAccounts();
+  return accounts.find((account) => account.id === id);
+};
+
+export const addAccount = async (
+  account: Omit<Account, "id">
+): Promise<Account> => {
+  const accounts = await readAccounts();
+  const newAccount = { ...account, id: `account-${Date.now()}` };
+  await writeJSON(ACCOUNTS_KEY, [...accounts, newAccount]);
+  return newAccount;
+};
+
+/**
+ * Saves changes to an account. Its currency is fixed once it has
+ * transactions, since their amounts are in that currency's minor units.
+ */
+export const updateAccount = async (account: Account): Promise<Account[]> => {
+  const accounts = await readAccounts();
+  const existing = accounts.find((a) => a.id === account.id);
+  if (!existing) {
+    throw new Error(`Account ${account.id} not found`);
+  }
+  if (
+    existing.currency !== account.currency &&
+    (await hasTransactions(account.id))
+  ) {
+    throw new Error("The currency of an account with transactions is fixed");
+  }
+  const updatedAccounts = accounts.map((a) =>
+    a.id === account.id ? account : a
+  );
+  await writeJSON(ACCOUNTS_KEY, updatedAccounts);
+  return updatedAccounts;
+};
+
+/** Moves an account one place up (-1) or down (1) in the list. */
+export const moveAccount = async (
+  id: string,
+  direction: -1 | 1
+): Promise<Account[]> => {
+  const accounts = await readAccounts();
+  const index = accounts.findIndex((account) => account.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= accounts.length) {
+    return accounts;
+  }
+  const updatedAccounts = [...accounts];
+  [updatedAccounts[index], updatedAccounts[target]] = [
+    updatedAccounts[target],
+    updatedAccounts[index],
+  ];
+  await writeJSON(ACCOUNTS_KEY, updatedAccounts);
+  return updatedAccounts;
+};
+
+/**
+ * Deletes an account. Its transactions move to `replacementId`, which must
+ * be in the same currency, when given; otherwise they are deleted with it,
+ * so callers must confirm that first.
+ */
+export const removeAccount = async (
+  id: string,
+  replacementId?: string
+): Promise<Account[]> => {
+  const accounts = await readAccounts();
+  const account = accounts.find((a) => a.id === id);
+  if (!account) {
+    throw new Error(`Account ${id} not found`);
+  }
+  if (replacementId !== undefined) {
+    const replacement = accounts.find((a) => a.id === replacementId);
+    if (replacementId === id || !replacement) {
+      throw new Error("Transactions must move to a different account");
+    }
+    if (replacement.currency !== account.currency) {
+      throw new Error(
+        "Transactions must move to an account in the same currency"
+      );
+    }
+  }
+
+  // Everything the account touches changes in one write, so an interrupted
+  // removal cannot leave transactions or rules pointing at a missing account
+  const updatedAccounts = accounts.filter((account) => account.id !== id);
+  const alongside: [string, unknown][] = [
+    await recurringEntryWithoutAccount(id, replacementId),
+    await ruleEntryWithoutAccount(id, replacementId),
+    [ACCOUNTS_KEY, updatedAccounts],
+  ];
+  if (replacementId !== undefined) {
+    await reassignAccount(id, replacementId, alongside);
+  } else {
+    await deleteTransactionsForAccount(id, alongside);
+  }
+  return updatedAccounts;
+};
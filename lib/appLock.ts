@@ -0,0 +1,214 @@
+import {
+  constantTimeEqual,
+  fromHex,
+  pbkdf2Sha256,
+  randomBytes,
+  toHex,
+  utf8Encode,
+} from "@/lib/crypto";
+import { deleteSecret, readSecret, writeSecret } from "@/lib/keystore";
+import {
+  readJSON,
+  reencryptStorage,
+  unlockStorage,
+  writeJSON,
+} from "@/lib/storage";
+
+export const APP_LOCK_KEY = "appLock";
+// In the keystore, so a copy of the app's files cannot be used to try PINs
+const PIN_SECRET = "appLock.pin";
+
+/** Wrong PINs allowed before entry is refused for a while. */
+export const MAX_PIN_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 30;
+const MAX_LOCKOUT_SECONDS = 60 * 60;
+const PIN_ITERATIONS = 10000;
+
+export interface AutoLockOption {
+  seconds: number;
+  label: string;
+}
+
+export const autoLockOptions: AutoLockOption[] = [
+  { seconds: 0, label: "Immediately" },
+  { seconds: 60, label: "1 minute" },
+  { seconds: 5 * 60, label: "5 minutes" },
+  { seconds: 15 * 60, label: "15 minutes" },
+];
+
+interface PinHash {
+  /** Hex PBKDF2-HMAC-SHA256 of the PIN; the PIN itself is never stored. */
+  hash: string;
+  salt: string;
+  iterations: number;
+}
+
+export interface AppLockSettings {
+  /** Whether a PIN is set; its hash is kept in the keystore. */
+  enabled: boolean;
+  /** Time in the background after which the app locks again. */
+  autoLockSeconds: number;
+  failedAttempts: number;
+  /** ISO time before which PIN entry is refused. */
+  lockedUntil?: string;
+}
+
+export type PinCheck =
+  | { status: "unlocked" }
+  | { status: "incorrect"; attemptsLeft: number }
+  | { status: "lockedOut"; until: Date };
+
+const defaultSettings: AppLockSettings = {
+  enabled: false,
+  autoLockSeconds: 60,
+  failedAttempts: 0,
+};
+
+type Listener = (settings: AppLockSettings) => void;
+const listeners = new Set<Listener>();
+
+/** Calls `listener` whenever the settings are saved; returns an unsubscribe. */
+export const onAppLockChange = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getAppLockSettings = (): Promise<AppLockSettings> =>
+  readJSON<AppLockSettings>(APP_LOCK_KEY, defaultSettings);
+
+const notify = (settings: AppLockSettings) => {
+  listeners.forEach((listener) => listener(settings));
+  return settings;
+};
+
+const saveSettings = async (settings: AppLockSettings) => {
+  await writeJSON(APP_LOCK_KEY, settings);
+  return notify(settings);
+};
+
+// Turning the lock on or off rewrites all data, encrypted or in plaintext
+const saveEnabled = async (settings: AppLockSettings) => {
+  await reencryptStorage(settings.enabled, [[APP_LOCK_KEY, settings]]);
+  return notify(settings);
+};
+
+export const isAppLockEnabled = (settings: AppLockSettings) => settings.enabled;
+
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+const hashPin = (pin: string, salt: Uint8Array, iterations: number) =>
+  pbkdf2Sha256(utf8Encode(pin), salt, iterations, 32);
+
+/**
+ * Turns the lock on, encrypting stored data, or replaces the PIN when it
+ * already is. The storage key does not depend on the PIN, so changing the
+ * PIN leaves the data as it is.
+ */
+export const setPin = async (pin: string): Promise<AppLockSettings> => {
+  if (!isValidPin(pin)) {
+    throw new Error("PIN must be 4 to 8 digits");
+  }
+  const settings = await getAppLockSettings();
+  const salt = randomBytes(16);
+  const pinHash: PinHash = {
+    hash: toHex(hashPin(pin, salt, PIN_ITERATIONS)),
+    salt: toHex(salt),
+    iterations: PIN_ITERATIONS,
+  };
+  await writeSecret(PIN_SECRET, JSON.stringify(pinHash));
+  const updated: AppLockSettings = {
+    enabled: true,
+    autoLockSeconds: settings.autoLockSeconds,
+    failedAttempts: 0,
+  };
+  return settings.enabled ? saveSettings(updated) : saveEnabled(updated);
+};
+
+/** Turns the lock off and stores data in plaintext again. */
+export const disableAppLock = async (): Promise<AppLockSettings> => {
+  const settings = await getAppLockSettings();
+  const updated = await saveEnabled({
+    enabled: false,
+    autoLockSeconds: settings.autoLockSeconds,
+    failedAttempts: 0,
+  });
+  await deleteSecret(PIN_SECRET);
+  return updated;
+};
+
+export const setAutoLockSeconds = async (
+  seconds: number
+): Promise<AppLockSettings> => {
+  const settings = await getAppLockSettings();
+  return saveSettings({ ...settings, autoLockSeconds: seconds });
+};
+
+/** Lockouts start at 30 seconds and double with each further wrong PIN. */
+export const lockoutSeconds = (failedAttempts: number) =>
+  Math.min(
+    LOCKOUT_SECONDS * 2 ** (failedAttempts - MAX_PIN_ATTEMPTS),
+    MAX_LOCKOUT_SECONDS
+  );
+
+/**
+ * Checks a PIN, counting failures across restarts, and unlocks encrypted
+ * storage with it. While locked out the PIN is not even compared, so guesses
+ * made then cost nothing but also reveal nothing.
+ */
+export const verifyPin = async (
+  pin: string,
+  now: Date = new Date()
+): Promise<PinCheck> => {
+  const settings = await getAppLockSettings();
+  if (!settings.enabled) {
+    return { status: "unlocked" };
+  }
+  if (settings.lockedUntil && new Date(settings.lockedUntil) > now) {
+    return { status: "lockedOut", until: new Date(settings.lockedUntil) };
+  }
+
+  const stored = await readSecret(PIN_SECRET);
+  if (stored === null) {
+    throw new Error("The PIN is missing from the keystore");
+  }
+  const { hash, salt, iterations } = JSON.parse(stored) as PinHash;
+  if (
+    constantTimeEqual(hashPin(pin, fromHex(salt), iterations), fromHex(hash))
+  ) {
+    await unlockStorage();
+    await saveSettings({
+      ...settings,
+      failedAttempts: 0,
+      lockedUntil: undefined,
+    });
+    return { status: "unlocked" };
+  }
+
+  const failedAttempts = settings.failedAttempts + 1;
+  if (failedAttempts < MAX_PIN_ATTEMPTS) {
+    await saveSettings({ ...settings, failedAttempts });
+    return {
+      status: "incorrect",
+      attemptsLeft: MAX_PIN_ATTEMPTS - failedAttempts,
+    };
+  }
+
+  const until = new Date(now.getTime() + lockoutSeconds(failedAttempts) * 1000);
+  await saveSettings({
+    ...settings,
+    failedAttempts,
+    lockedUntil: until.toISOString(),
+  });
+  return { status: "lockedOut", until };
+};
+
+/** Whether the app should lock again after time spent in the background. */
+export const shouldAutoLock = (
+  settings: AppLockSettings,
+  backgroundedAt: number,
+  now: number
+) =>
+  isAppLockEnabled(settings) &&
+  now - backgroundedAt >= settings.autoLockSeconds * 1000;
@@ -0,0 +1,585 @@
+import { Account, ACCOUNTS_KEY, listAccounts } from "@/lib/accountRepository";
+import { Budget, BUDGETS_KEY, listBudgets } from "@/lib/budgetRepository";
+import {
+  CATEGORIZATION_RULES_KEY,
+  CategorizationRule,
+  listCategorizationRules,
+} from "@/lib/categorizationRepository";
+import {
+  CATEGORIES_KEY,
+  Category,
+  listCategories,
+} from "@/lib/categoryRepository";
+import {
+  CipherKey,
+  decryptText,
+  deriveCipherKey,
+  encryptText,
+  fromHex,
+  randomBytes,
+  sha256Hex,
+  toHex,
+} from "@/lib/crypto";
+import {
+  DISMISSED_DUPLICATES_KEY,
+  listDismissedDuplicates,
+} from "@/lib/duplicates";
+import {
+  EXCHANGE_RATES_KEY,
+  ExchangeRates,
+  getExchangeRates,
+} from "@/lib/exchangeRateRepository";
+import {
+  listRecurringRules,
+  RECURRING_KEY,
+  RecurringRule,
+} from "@/lib/recurringRepository";
+import {
+  readReceiptImage,
+  removeUnusedReceipts,
+  writeReceiptImage,
+} from "@/lib/receipts";
+import { writeJSONEntries } from "@/lib/storage";
+import {
+  BALANCES_KEY,
+  listDeletedTransactions,
+  listTransactions,
+  migrateRecords,
+  RelatedStores,
+  SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  splitError,
+  StoredRecord,
+  sumByAccount,
+  Transaction,
+  TRANSACTIONS_KEY,
+} from "@/lib/transactionRepository";
+
+export const BACKUP_FORMAT = "bankapp-backup";
+/**
+ * Layout of the backup file itself, separate from the data's schema. Version
+ * 2 moved receipt images out of the payload into `receipts`.
+ */
+export const BACKUP_VERSION = 2;
+const PASSWORD_ITERATIONS = 10000;
+// Key derivation runs in JavaScript, so a file asking for many more rounds
+// than we write could freeze the app
+const MAX_PASSWORD_ITERATIONS = 100000;
+
+/**
+ * The whole app state, one entry per store. The app lock is left out on
+ * purpose: its PIN is the key of this device's storage, so the PIN and the
+ * auto-lock delay stay with the device.
+ */
+export interface AppData {
+  accounts: Account[];
+  /** Includes the trash. */
+  transactions: Transaction[];
+  categories: Category[];
+  budgets: Budget[];
+  recurring: RecurringRule[];
+  rules: CategorizationRule[];
+  exchangeRates: ExchangeRates;
+  /** Keys of transaction pairs marked as not duplicates. */
+  dismissedDuplicates: string[];
+}
+
+type Store = keyof AppData;
+
+/** What a backup holds: the app state and the receipt images it uses. */
+export interface BackupData extends AppData {
+  /** Base64 image contents by receipt file name. */
+  receiptImages: Record<string, string>;
+  /** Set when `receiptImages` are still encrypted; restoring decrypts them. */
+  receiptKey?: CipherKey;
+}
+
+// Names as written by saveReceipt; anything else could point outside the
+// receipts directory
+const RECEIPT_NAME_PATTERN = /^[\w-]+\.\w+$/;
+
+/**
+ * A receipt image, kept apart from the payload so that each one is
+ * encrypted and checksummed on its own instead of as part of one huge text.
+ */
+export interface BackupReceipt {
+  name: string;
+  /** Hex SHA-256 of `data`. */
+  checksum: string;
+  /** Base64 image contents, encrypted like the payload when it is. */
+  data: string;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  /** Transaction schema version of the data, to migrate older backups. */
+  schemaVersion: number;
+  /** Hex SHA-256 of `payload`. */
+  checksum: string;
+  /** Set when the payload is encrypted with a password. */
+  encryption?: { salt: string; iterations: number };
+  /** AppData as JSON text, encrypted when `encryption` is set. */
+  payload: string;
+  /** Absent from version 1 files, which keep images inside the payload. */
+  receipts?: BackupReceipt[];
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export interface RestoreSummary {
+  store: Store;
+  label: string;
+  /** Items in the backup. */
+  backup: number;
+  /** Items on this device now. */
+  device: number;
+  /** Backup items a merge would add; ones already here are kept. */
+  added: number;
+}
+
+const storeKeys: Record<Store, string> = {
+  accounts: ACCOUNTS_KEY,
+  transactions: TRANSACTIONS_KEY,
+  categories: CATEGORIES_KEY,
+  budgets: BUDGETS_KEY,
+  recurring: RECURRING_KEY,
+  rules: CATEGORIZATION_RULES_KEY,
+  exchangeRates: EXCHANGE_RATES_KEY,
+  dismissedDuplicates: DISMISSED_DUPLICATES_KEY,
+};
+
+const storeLabels: Record<Store, string> = {
+  accounts: "Accounts",
+  transactions: "Transactions",
+  categories: "Categories",
+  budgets: "Budgets",
+  recurring: "Recurring",
+  rules: "Categorization rules",
+  exchangeRates: "Exchange rates",
+  dismissedDuplicates: "Dismissed duplicates",
+};
+
+export const readAppData = async (): Promise<AppData> => {
+  const [
+    accounts,
+    transactions,
+    deletedTransactions,
+    categories,
+    budgets,
+    recurring,
+    rules,
+    exchangeRates,
+    dismissedDuplicates,
+  ] = await Promise.all([
+    listAccounts(),
+    listTransactions(),
+    listDeletedTransactions(),
+    listCategories(),
+    listBudgets(),
+    listRecurringRules(),
+    listCategorizationRules(),
+    getExchangeRates(),
+    listDismissedDuplicates(),
+  ]);
+  return {
+    accounts,
+    transactions: [...transactions, ...deletedTransactions],
+    categories,
+    budgets,
+    recurring,
+    rules,
+    exchangeRates,
+    dismissedDuplicates,
+  };
+};
+
+/** Serializes the app state, encrypting it when a password is given. */
+export const createBackup = async (
+  password?: string,
+  now: Date = new Date()
+): Promise<string> => {
+  const data = await readAppData();
+  let payload = JSON.stringify(data);
+  let encryption: BackupFile["encryption"];
+  let key: CipherKey | undefined;
+  if (password) {
+    const salt = randomBytes(16);
+    encryption = { salt: toHex(salt), iterations: PASSWORD_ITERATIONS };
+    key = deriveCipherKey(password, salt, PASSWORD_ITERATIONS);
+    payload = encryptText(payload, key);
+  }
+
+  // One image at a time, so only that image passes through the cipher and
+  // the hashing is native
+  const receipts: BackupReceipt[] = [];
+  for (const name of new Set(
+    data.transactions.flatMap((t) => t.receipts ?? [])
+  )) {
+    const image = await readReceiptImage(name);
+    if (image !== null) {
+      const stored = key ? encryptText(image, key) : image;
+      receipts.push({ name, checksum: await sha256Hex(stored), data: stored });
+    }
+  }
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: now.toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    checksum: await sha256Hex(payload),
+    ...(encryption ? { encryption } : {}),
+    payload,
+    receipts,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+type Fields = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+const isMinorUnits = (value: unknown) => Number.isInteger(value);
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+const isOptionalStringList = (value: unknown) =>
+  value === undefined || isStringList(value);
+
+const isBackupReceipt = (value: unknown): value is BackupReceipt =>
+  isRecord(value) &&
+  isString(value.name) &&
+  RECEIPT_NAME_PATTERN.test(value.name) &&
+  isString(value.checksum) &&
+  isString(value.data);
+
+const readEncryption = (value: unknown): BackupFile["encryption"] => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (
+    !isRecord(value) ||
+    !isString(value.salt) ||
+    !/^([0-9a-f]{2}){16,64}$/i.test(value.salt) ||
+    !isNumber(value.iterations) ||
+    !Number.isInteger(value.iterations) ||
+    value.iterations < 1 ||
+    value.iterations > MAX_PASSWORD_ITERATIONS
+  ) {
+    throw new Error(
+      "This backup is damaged: its encryption settings are invalid"
+    );
+  }
+  return { salt: value.salt, iterations: value.iterations };
+};
+
+/**
+ * Checks the envelope and the checksums of the payload and of each receipt
+ * image. The payload may still need a password.
+ */
+export const parseBackupFile = async (text: string): Promise<BackupFile> => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a backup");
+  }
+  if (
+    !isRecord(file) ||
+    file.format !== BACKUP_FORMAT ||
+    !isNumber(file.version) ||
+    !isNumber(file.schemaVersion) ||
+    !isString(file.checksum) ||
+    !isString(file.payload)
+  ) {
+    throw new Error("This file is not a backup");
+  }
+  if (file.version > BACKUP_VERSION || file.schemaVersion > SCHEMA_VERSION) {
+    throw new Error("This backup was made by a newer version of the app");
+  }
+  const encryption = readEncryption(file.encryption);
+  const { receipts } = file;
+  if (
+    receipts !== undefined &&
+    !(Array.isArray(receipts) && receipts.every(isBackupReceipt))
+  ) {
+    throw new Error("The backup has invalid receipt images");
+  }
+  for (const [data, checksum] of [
+    [file.payload, file.checksum],
+    ...(receipts ?? []).map((receipt) => [receipt.data, receipt.checksum]),
+  ]) {
+    if ((await sha256Hex(data)) !== checksum) {
+      throw new Error("This backup is damaged: its checksum does not match");
+    }
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: file.version,
+    createdAt: String(file.createdAt),
+    schemaVersion: file.schemaVersion,
+    checksum: file.checksum,
+    ...(encryption ? { encryption } : {}),
+    payload: file.payload,
+    ...(receipts ? { receipts } : {}),
+  };
+};
+
+// Checks the fields the app relies on, after migrations have run
+const itemChecks: Record<
+  Exclude<Store, "exchangeRates" | "dismissedDuplicates">,
+  (item: Fields) => boolean
+> = {
+  accounts: (a) =>
+    isString(a.id) &&
+    isString(a.name) &&
+    isString(a.currency) &&
+    isMinorUnits(a.openingBalance),
+  transactions: (t) =>
+    isNumber(t.id) &&
+    isString(t.merchant) &&
+    isMinorUnits(t.amount) &&
+    isString(t.date) &&
+    !isNaN(Date.parse(t.date)) &&
+    isString(t.categoryId) &&
+    isString(t.accountId) &&
+    (t.splits === undefined ||
+      (Array.isArray(t.splits) &&
+        t.splits.every(
+          (s) => isRecord(s) && isString(s.categoryId) && isMinorUnits(s.amount)
+        ) &&
+        splitError(Number(t.amount), t.splits) === undefined)) &&
+    (t.status === undefined ||
+      ["uncleared", "cleared", "reconciled"].includes(String(t.status))) &&
+    (t.note === undefined || isString(t.note)) &&
+    isOptionalStringList(t.tags) &&
+    isOptionalStringList(t.receipts),
+  categories: (c) => isString(c.id) && isString(c.name) && isString(c.type),
+  budgets: (b) => isString(b.categoryId) && isMinorUnits(b.limit),
+  recurring: (r) =>
+    isString(r.id) && isMinorUnits(r.amount) && isString(r.accountId),
+  rules: (r) =>
+    isString(r.id) &&
+    isString(r.pattern) &&
+    ["contains", "startsWith", "is"].includes(String(r.match)) &&
+    isString(r.categoryId) &&
+    (r.accountId === undefined || isString(r.accountId)),
+};
+
+const validate = (data: Fields): BackupData => {
+  (Object.keys(itemChecks) as (keyof typeof itemChecks)[]).forEach((store) => {
+    const items = data[store];
+    if (
+      !Array.isArray(items) ||
+      !items.every((item) => isRecord(item) && itemChecks[store](item))
+    ) {
+      throw new Error(
+        `The backup has invalid ${storeLabels[store].toLowerCase()}`
+      );
+    }
+  });
+  if (!isStringList(data.dismissedDuplicates)) {
+    throw new Error("The backup has invalid dismissed duplicates");
+  }
+  const { exchangeRates } = data;
+  if (
+    !isRecord(exchangeRates) ||
+    !isString(exchangeRates.homeCurrency) ||
+    !isRecord(exchangeRates.rates) ||
+    !Object.values(exchangeRates.rates).every(isNumber)
+  ) {
+    throw new Error("The backup has invalid exchange rates");
+  }
+  const { receiptImages } = data;
+  if (
+    !isRecord(receiptImages) ||
+    !Object.entries(receiptImages).every(
+      ([name, image]) => RECEIPT_NAME_PATTERN.test(name) && isString(image)
+    )
+  ) {
+    throw new Error("The backup has invalid receipt images");
+  }
+  // Every field the app reads has been checked above
+  return data as unknown as BackupData;
+};
+
+/** Decrypts, migrates and validates the backup's data. */
+export const readBackup = (file: BackupFile, password?: string): BackupData => {
+  let text = file.payload;
+  let key: CipherKey | undefined;
+  if (file.encryption) {
+    if (!password) {
+      throw new Error("This backup needs its password");
+    }
+    key = deriveCipherKey(
+      password,
+      fromHex(file.encryption.salt),
+      file.encryption.iterations
+    );
+    try {
+      text = decryptText(text, key);
+    } catch {
+      throw new Error("The password is incorrect");
+    }
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This backup is damaged");
+  }
+  if (!isRecord(data)) {
+    throw new Error("This backup is damaged");
+  }
+  const records = (
+    store: "transactions" | "accounts" | "budgets" | "recurring"
+  ): StoredRecord[] => {
+    const items = data[store];
+    if (!Array.isArray(items) || !items.every(isRecord)) {
+      throw new Error(
+        `The backup has invalid ${storeLabels[store].toLowerCase()}`
+      );
+    }
+    return items;
+  };
+  const storedTransactions = records("transactions");
+  const related: RelatedStores = {
+    accounts: records("accounts"),
+    budgets: records("budgets"),
+    recurring: records("recurring"),
+  };
+  let transactions: StoredRecord[];
+  try {
+    transactions = migrateRecords(
+      storedTransactions,
+      file.schemaVersion,
+      related
+    );
+  } catch {
+    throw new Error("This backup is damaged");
+  }
+  // Older backups may have no rules, dismissed duplicates or receipt images
+  const backup = validate({
+    rules: [],
+    dismissedDuplicates: [],
+    receiptImages: {},
+    ...data,
+    ...related,
+    transactions,
+    ...(file.receipts
+      ? {
+          receiptImages: Object.fromEntries(
+            file.receipts.map((receipt) => [receipt.name, receipt.data])
+          ),
+        }
+      : {}),
+  });
+  // Version 1 images were decrypted along with the payload
+  return file.receipts && key ? { ...backup, receiptKey: key } : backup;
+};
+
+const itemIds: {
+  [S in Exclude<Store, "exchangeRates">]: (item: AppData[S][number]) => string;
+} = {
+  accounts: (a) => a.id,
+  transactions: (t) => String(t.id),
+  categories: (c) => c.id,
+  budgets: (b) => b.categoryId,
+  recurring: (r) => r.id,
+  rules: (r) => r.id,
+  dismissedDuplicates: (key) => key,
+};
+
+const mergeList = <T>(current: T[], backup: T[], id: (item: T) => string) => {
+  const known = new Set(current.map(id));
+  return [...current, ...backup.filter((item) => !known.has(id(item)))];
+};
+
+/**
+ * Adds what the backup has and this device does not. Anything already here
+ * is kept as it is, so newer edits on the device are never lost.
+ */
+export const mergeAppData = (device: AppData, backup: AppData): AppData => ({
+  accounts: mergeList(device.accounts, backup.accounts, itemIds.accounts),
+  transactions: mergeList(
+    device.transactions,
+    backup.transactions,
+    itemIds.transactions
+  ),
+  categories: mergeList(
+    device.categories,
+    backup.categories,
+    itemIds.categories
+  ),
+  budgets: mergeList(device.budgets, backup.budgets, itemIds.budgets),
+  recurring: mergeList(device.recurring, backup.recurring, itemIds.recurring),
+  rules: mergeList(device.rules, backup.rules, itemIds.rules),
+  dismissedDuplicates: mergeList(
+    device.dismissedDuplicates,
+    backup.dismissedDuplicates,
+    itemIds.dismissedDuplicates
+  ),
+  // Rates are only comparable against the same home currency
+  exchangeRates:
+    device.exchangeRates.homeCurrency === backup.exchangeRates.homeCurrency
+      ? {
+          homeCurrency: device.exchangeRates.homeCurrency,
+          rates: {
+            ...backup.exchangeRates.rates,
+            ...device.exchangeRates.rates,
+          },
+        }
+      : device.exchangeRates,
+});
+
+const countItems = (data: AppData, store: Store) =>
+  store === "exchangeRates"
+    ? Object.keys(data.exchangeRates.rates).length
+    : data[store].length;
+
+export const summarizeRestore = (
+  device: AppData,
+  backup: AppData
+): RestoreSummary[] => {
+  const merged = mergeAppData(device, backup);
+  return (Object.keys(storeKeys) as Store[]).map((store) => ({
+    store,
+    label: storeLabels[store],
+    backup: countItems(backup, store),
+    device: countItems(device, store),
+    added: countItems(merged, store) - countItems(device, store),
+  }));
+};
+
+/**
+ * Writes the restored state in one storage call. Receipt images are written
+ * first, so restored transactions never point at missing files.
+ */
+export const restoreBackup = async (backup: BackupData, mode: RestoreMode) => {
+  const next =
+    mode === "replace" ? backup : mergeAppData(await readAppData(), backup);
+  // One at a time, so only the image being written is held decrypted
+  for (const [name, image] of Object.entries(backup.receiptImages)) {
+    await writeReceiptImage(
+      name,
+      backup.receiptKey ? decryptText(image, backup.receiptKey) : image
+    );
+  }
+  await writeJSONEntries([
+    ...(Object.keys(storeKeys) as Store[]).map((store): [string, unknown] => [
+      storeKeys[store],
+      next[store],
+    ]),
+    [BALANCES_KEY, sumByAccount(next.transactions)],
+    [SCHEMA_VERSION_KEY, SCHEMA_VERSION],
+  ]);
+  // Images of replaced transactions, or of backup ones a merge skipped
+  removeUnusedReceipts().catch((error) =>
+    console.error("Error removing unused receipts:", error)
+  );
+};
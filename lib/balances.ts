@@ -0,0 +1,80 @@
+import { Account } from "@/lib/accountRepository";
+import { compareMonths, getMonth, Month } from "@/lib/insights";
+import { AccountTotals, Transaction } from "@/lib/transactionRepository";
+
+/** Opening balance plus the account's total from the balance index. */
+export const accountBalance = (
+  account: Account,
+  totals: AccountTotals
+): number => account.openingBalance + (totals[account.id] ?? 0);
+
+/**
+ * The balance after each transaction, by id, worked back from the account's
+ * current balance. `transactions` are the account's, newest first.
+ */
+export const runningBalances = (
+  transactions: Transaction[],
+  balance: number
+): Map<number, number> => {
+  const balances = new Map<number, number>();
+  let after = balance;
+  transactions.forEach((transaction) => {
+    balances.set(transaction.id, after);
+    after -= transaction.amount;
+  });
+  return balances;
+};
+
+export interface StatementLine {
+  transaction: Transaction;
+  /** Balance after this transaction. */
+  balance: number;
+}
+
+export interface Statement {
+  openingBalance: number;
+  closingBalance: number;
+  moneyIn: number;
+  moneyOut: number;
+  /** Oldest first, as on a bank statement. */
+  lines: StatementLine[];
+}
+
+/**
+ * One month of an account, worked back from its current balance the same
+ * way as `runningBalances`. `transactions` are the account's, newest first.
+ */
+export const monthStatement = (
+  transactions: Transaction[],
+  balance: number,
+  month: Month
+): Statement => {
+  const lines: StatementLine[] = [];
+  let after = balance;
+  let closingBalance: number | null = null;
+  let moneyIn = 0;
+  let moneyOut = 0;
+  for (const transaction of transactions) {
+    const order = compareMonths(getMonth(new Date(transaction.date)), month);
+    if (order < 0) {
+      break;
+    }
+    if (order === 0) {
+      closingBalance ??= after;
+      lines.push({ transaction, balance: after });
+      if (transaction.amount >= 0) {
+        moneyIn += transaction.amount;
+      } else {
+        moneyOut -= transaction.amount;
+      }
+    }
+    after -= transaction.amount;
+  }
+  return {
+    openingBalance: after,
+    closingBalance: closingBalance ?? after,
+    moneyIn,
+    moneyOut,
+    lines: lines.reverse(),
+  };
+};
@@ -0,0 +1,35 @@
+import { Month } from "@/lib/insights";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+export interface Budget {
+  categoryId: string;
+  /** Monthly spending limit in minor units of the default currency. */
+  limit: number;
+  /** Carry unspent money (or overspending) into the following month. */
+  rollover: boolean;
+  /** First month the budget applies to; rollover starts counting here. */
+  startMonth: Month;
+}
+
+export const BUDGETS_KEY = "budgets";
+
+export const listBudgets = (): Promise<Budget[]> =>
+  readJSON<Budget[]>(BUDGETS_KEY, []);
+
+/** Creates or replaces the budget for `budget.categoryId`. */
+export const saveBudget = async (budget: Budget): Promise<Budget[]> => {
+  const budgets = await listBudgets();
+  const updatedBudgets = [
+    ...budgets.filter((b) => b.categoryId !== budget.categoryId),
+    budget,
+  ];
+  await writeJSON(BUDGETS_KEY, updatedBudgets);
+  return updatedBudgets;
+};
+
+export const deleteBudget = async (categoryId: string): Promise<Budget[]> => {
+  const budgets = await listBudgets();
+  const updatedBudgets = budgets.filter((b) => b.categoryId !== categoryId);
+  await writeJSON(BUDGETS_KEY, updatedBudgets);
+  return updatedBudgets;
+};
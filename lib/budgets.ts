@@ -0,0 +1,79 @@
+import { Budget } from "@/lib/budgetRepository";
+import {
+  addMonths,
+  compareMonths,
+  getMonth,
+  Month,
+  spendingByCategory,
+} from "@/lib/insights";
+import { categoryLines, Transaction } from "@/lib/transactionRepository";
+
+export interface BudgetStatus {
+  spent: number;
+  /** Carried in from earlier months; negative after overspending. */
+  carryover: number;
+  /** This month's limit plus any carryover. */
+  available: number;
+  remaining: number;
+}
+
+const spentInMonth = (
+  transactions: Transaction[],
+  categoryId: string,
+  month: Month
+): number =>
+  spendingByCategory(transactions, month).find(
+    (total) => total.categoryId === categoryId
+  )?.total ?? 0;
+
+/**
+ * Budgets are kept in the default currency, so pass `transactions` converted
+ * into it with `convertTransactions`.
+ */
+export const getBudgetStatus = (
+  budget: Budget,
+  transactions: Transaction[],
+  month: Month
+): BudgetStatus => {
+  let carryover = 0;
+  if (budget.rollover) {
+    for (
+      let current = budget.startMonth;
+      compareMonths(current, month) < 0;
+      current = addMonths(current, 1)
+    ) {
+      carryover +=
+        budget.limit - spentInMonth(transactions, budget.categoryId, current);
+    }
+  }
+
+  const spent = spentInMonth(transactions, budget.categoryId, month);
+  const available = budget.limit + carryover;
+  return { spent, carryover, available, remaining: available - spent };
+};
+
+/**
+ * The status the budget for `categoryId` would have once `transaction` is
+ * saved, or undefined when the transaction is not a budgeted expense in that
+ * category. Check each split line's category to cover a split transaction.
+ */
+export const getBudgetStatusWith = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  transaction: Transaction,
+  categoryId: string = transaction.categoryId
+): BudgetStatus | undefined => {
+  const budget = budgets.find((b) => b.categoryId === categoryId);
+  if (
+    !budget ||
+    transaction.amount >= 0 ||
+    !categoryLines(transaction).some((line) => line.categoryId === categoryId)
+  ) {
+    return undefined;
+  }
+  return getBudgetStatus(
+    budget,
+    [...transactions.filter((t) => t.id !== transaction.id), transaction],
+    getMonth(new Date(transaction.date))
+  );
+};
@@ -0,0 +1,85 @@
+import {
+  Category,
+  OTHER_EXPENSE_CATEGORY_ID,
+  OTHER_INCOME_CATEGORY_ID,
+} from "@/constants/Categories";
+import { Transaction } from "@/lib/transactionRepository";
+
+export type RuleMatch = "contains" | "startsWith" | "is";
+
+export const ruleMatches: { match: RuleMatch; label: string }[] = [
+  { match: "contains", label: "Contains" },
+  { match: "startsWith", label: "Starts with" },
+  { match: "is", label: "Is exactly" },
+];
+
+export interface CategorizationRule {
+  id: string;
+  /** Compared with the merchant name, ignoring case and extra spaces. */
+  pattern: string;
+  match: RuleMatch;
+  categoryId: string;
+  /** Account to pre-select on the add screen; imports keep theirs. */
+  accountId?: string;
+}
+
+const normalize = (text: string) =>
+  text.trim().replace(/\s+/g, " ").toLowerCase();
+
+const matchesMerchant = (rule: CategorizationRule, merchant: string) => {
+  const pattern = normalize(rule.pattern);
+  const name = normalize(merchant);
+  if (!pattern) {
+    return false;
+  }
+  switch (rule.match) {
+    case "contains":
+      return name.includes(pattern);
+    case "startsWith":
+      return name.startsWith(pattern);
+    case "is":
+      return name === pattern;
+  }
+};
+
+/**
+ * The rule for `merchant`. When several match, the longest pattern wins so
+ * "Hydro Ottawa" can override a broader "Hydro"; ties go to the older rule.
+ */
+export const findRule = (
+  rules: CategorizationRule[],
+  merchant: string
+): CategorizationRule | undefined =>
+  rules
+    .filter((rule) => matchesMerchant(rule, merchant))
+    .reduce<CategorizationRule | undefined>(
+      (best, rule) =>
+        best && normalize(best.pattern).length >= normalize(rule.pattern).length
+          ? best
+          : rule,
+      undefined
+    );
+
+/**
+ * Gives an imported transaction its rule's category when the import fell
+ * back to "Other". Rules for a category of the other type are ignored.
+ */
+export const categorizeImport = <T extends Omit<Transaction, "id">>(
+  transaction: T,
+  rules: CategorizationRule[],
+  categories: Category[]
+): T => {
+  const fallbackId =
+    transaction.amount < 0
+      ? OTHER_EXPENSE_CATEGORY_ID
+      : OTHER_INCOME_CATEGORY_ID;
+  if (transaction.categoryId !== fallbackId) {
+    return transaction;
+  }
+  const rule = findRule(rules, transaction.merchant);
+  const category = categories.find((c) => c.id === rule?.categoryId);
+  const type = transaction.amount < 0 ? "expense" : "income";
+  return category && category.type === type
+    ? { ...transaction, categoryId: category.id }
+    : transaction;
+};
@@ -0,0 +1,69 @@
+import { CategorizationRule } from "@/lib/categorization";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+export type { CategorizationRule, RuleMatch } from "@/lib/categorization";
+
+export const CATEGORIZATION_RULES_KEY = "categorizationRules";
+
+export const listCategorizationRules = (): Promise<CategorizationRule[]> =>
+  readJSON<CategorizationRule[]>(CATEGORIZATION_RULES_KEY, []);
+
+export const getCategorizationRule = async (
+  id: string
+): Promise<CategorizationRule | undefined> => {
+  const rules = await listCategorizationRules();
+  return rules.find((rule) => rule.id === id);
+};
+
+/** Creates the rule, or replaces the stored rule with the same id. */
+export const saveCategorizationRule = async (
+  rule: CategorizationRule
+): Promise<CategorizationRule[]> => {
+  const rules = await listCategorizationRules();
+  const updatedRules = rules.some((r) => r.id === rule.id)
+    ? rules.map((r) => (r.id === rule.id ? rule : r))
+    : [...rules, rule];
+  await writeJSON(CATEGORIZATION_RULES_KEY, updatedRules);
+  return updatedRules;
+};
+
+export const deleteCategorizationRule = async (
+  id: string
+): Promise<CategorizationRule[]> => {
+  const rules = await listCategorizationRules();
+  const updatedRules = rules.filter((rule) => rule.id !== id);
+  await writeJSON(CATEGORIZATION_RULES_KEY, updatedRules);
+  return updatedRules;
+};
+
+export const reassignRuleCategory = async (fromId: string, toId: string) => {
+  const rules = await listCategorizationRules();
+  await writeJSON(
+    CATEGORIZATION_RULES_KEY,
+    rules.map((rule) =>
+      rule.categoryId === fromId ? { ...rule, categoryId: toId } : rule
+    )
+  );
+};
+
+/**
+ * Points rules at `toId` when the account's transactions moved there, or
+ * stops them choosing an account when the account is gone. Returned as a
+ * storage entry so the caller saves it with the rest of the removal.
+ */
+export const ruleEntryWithoutAccount = async (
+  fromId: string,
+  toId?: string
+): Promise<[string, unknown]> => {
+  const rules = await listCategorizationRules();
+  return [
+    CATEGORIZATION_RULES_KEY,
+    rules.map((rule) => {
+      if (rule.accountId !== fromId) {
+        return rule;
+      }
+      const { accountId, ...rest } = rule;
+      return toId ? { ...rest, accountId: toId } : rest;
+    }),
+  ];
+};
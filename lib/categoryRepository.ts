@@ -0,0 +1,104 @@
+import {
+  Category,
+  defaultCategories,
+  OTHER_EXPENSE_CATEGORY_ID,
+  OTHER_INCOME_CATEGORY_ID,
+} from "@/constants/Categories";
+import { deleteBudget } from "@/lib/budgetRepository";
+import { reassignRuleCategory } from "@/lib/categorizationRepository";
+import { reassignRecurringCategory } from "@/lib/recurringRepository";
+import { readJSON, writeJSON } from "@/lib/storage";
+import { reassignCategory } from "@/lib/transactionRepository";
+
+export type { Category, CategoryType } from "@/constants/Categories";
+
+export const CATEGORIES_KEY = "categories";
+
+const readCategories = async (): Promise<Category[]> => {
+  const stored = await readJSON<Category[] | null>(CATEGORIES_KEY, null);
+  if (stored) {
+    return stored;
+  }
+  // First launch: start with the built-in categories
+  await writeJSON(CATEGORIES_KEY, defaultCategories);
+  return defaultCategories;
+};
+
+// Imports, migrations and removed transfers file transactions under these ids,
+// so they must always exist
+const FALLBACK_CATEGORY_IDS = [
+  OTHER_INCOME_CATEGORY_ID,
+  OTHER_EXPENSE_CATEGORY_ID,
+];
+
+/** Whether the category is a built-in fallback that cannot be removed. */
+export const isFallbackCategory = (id: string): boolean =>
+  FALLBACK_CATEGORY_IDS.includes(id);
+
+export const listCategories = (): Promise<Category[]> => readCategories();
+
+export const addCategory = async (
+  category: Omit<Category, "id">
+): Promise<Category[]> => {
+  const categories = await readCategories();
+  const updatedCategories = [
+    ...categories,
+    { ...category, id: `category-${Date.now()}` },
+  ];
+  await writeJSON(CATEGORIES_KEY, updatedCategories);
+  return updatedCategories;
+};
+
+/** Renames, re-icons or archives a category. Its type cannot change. */
+export const updateCategory = async (
+  category: Category
+): Promise<Category[]> => {
+  const categories = await readCategories();
+  const existing = categories.find((c) => c.id === category.id);
+  if (!existing) {
+    throw new Error(`Category ${category.id} not found`);
+  }
+  if (existing.type !== category.type) {
+    throw new Error("A category cannot switch between income and expense");
+  }
+  const updatedCategories = categories.map((c) =>
+    c.id === category.id ? category : c
+  );
+  await writeJSON(CATEGORIES_KEY, updatedCategories);
+  return updatedCategories;
+};
+
+/**
+ * Removes a category after moving its transactions to `replacementId`. This
+ * backs both "delete" and "merge into" in the category manager.
+ */
+export const removeCategory = async (
+  id: string,
+  replacementId: string
+): Promise<Category[]> => {
+  const categories = await readCategories();
+  const category = categories.find((c) => c.id === id);
+  const replacement = categories.find((c) => c.id === replacementId);
+  if (!category || !replacement) {
+    throw new Error("Category not found");
+  }
+  if (isFallbackCategory(id)) {
+    throw new Error(`${category.name} is built in and cannot be removed`);
+  }
+  if (id === replacementId) {
+    throw new Error("A category cannot be merged into itself");
+  }
+  if (category.type !== replacement.type) {
+    throw new Error(
+      "Transactions can only move to a category of the same type"
+    );
+  }
+
+  await reassignCategory(id, replacementId);
+  await reassignRecurringCategory(id, replacementId);
+  await reassignRuleCategory(id, replacementId);
+  await deleteBudget(id);
+  const updatedCategories = categories.filter((c) => c.id !== id);
+  await writeJSON(CATEGORIES_KEY, updatedCategories);
+  return updatedCategories;
+};
@@ -0,0 +1,388 @@
+/**
+ * SHA-256, HMAC, PBKDF2 and a small authenticated cipher in plain
+ * TypeScript. Random bytes and the digest of large texts come from a native
+ * module (expo-crypto).
+ */
+
+import {
+  CryptoDigestAlgorithm,
+  digestStringAsync,
+  getRandomBytes,
+} from "expo-crypto";
+
+const ROUND_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+];
+
+const BLOCK_SIZE = 64;
+
+const rotate = (value: number, bits: number) =>
+  (value >>> bits) | (value << (32 - bits));
+
+// Mixes one 64-byte block into `state`
+const compress = (
+  state: Int32Array,
+  view: DataView,
+  offset: number,
+  words: Int32Array
+) => {
+  for (let i = 0; i < 16; i++) {
+    words[i] = view.getInt32(offset + i * 4);
+  }
+  for (let i = 16; i < 64; i++) {
+    const w15 = words[i - 15];
+    const w2 = words[i - 2];
+    const s0 = rotate(w15, 7) ^ rotate(w15, 18) ^ (w15 >>> 3);
+    const s1 = rotate(w2, 17) ^ rotate(w2, 19) ^ (w2 >>> 10);
+    words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+  }
+
+  let [a, b, c, d, e, f, g, h] = state;
+  for (let i = 0; i < 64; i++) {
+    const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+    const choice = (e & f) ^ (~e & g);
+    const t1 = (h + s1 + choice + ROUND_CONSTANTS[i] + words[i]) | 0;
+    const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+    const majority = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (s0 + majority) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+};
+
+/**
+ * Hashes `message` starting from `startState`, which has already absorbed
+ * `prefixLength` bytes (whole blocks). HMAC uses this to reuse its key pads.
+ */
+const digestFrom = (
+  startState: ArrayLike<number>,
+  message: Uint8Array,
+  prefixLength: number
+): Uint8Array => {
+  const state = Int32Array.from(startState);
+  const totalLength = prefixLength + message.length;
+  const paddedLength =
+    Math.ceil((message.length + 9) / BLOCK_SIZE) * BLOCK_SIZE;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(totalLength / 0x20000000));
+  view.setUint32(paddedLength - 4, (totalLength * 8) >>> 0);
+
+  const words = new Int32Array(64);
+  for (let offset = 0; offset < paddedLength; offset += BLOCK_SIZE) {
+    compress(state, view, offset, words);
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  state.forEach((word, i) => digestView.setInt32(i * 4, word));
+  return digest;
+};
+
+export const sha256 = (message: Uint8Array): Uint8Array =>
+  digestFrom(INITIAL_STATE, message, 0);
+
+/**
+ * Hex SHA-256 of the text's UTF-8 bytes, hashed natively. Matches
+ * `toHex(sha256(utf8Encode(text)))` without holding the bytes in JavaScript,
+ * so it suits checksums of whole backups.
+ */
+export const sha256Hex = (text: string): Promise<string> =>
+  digestStringAsync(CryptoDigestAlgorithm.SHA256, text);
+
+/** Returns an HMAC-SHA256 function with the key pads already hashed. */
+const createHmac = (key: Uint8Array) => {
+  const blockKey = new Uint8Array(BLOCK_SIZE);
+  blockKey.set(key.length > BLOCK_SIZE ? sha256(key) : key);
+
+  const padState = (pad: number) => {
+    const state = Int32Array.from(INITIAL_STATE);
+    const block = blockKey.map((byte) => byte ^ pad);
+    compress(state, new DataView(block.buffer), 0, new Int32Array(64));
+    return state;
+  };
+  const innerState = padState(0x36);
+  const outerState = padState(0x5c);
+
+  return (message: Uint8Array) =>
+    digestFrom(
+      outerState,
+      digestFrom(innerState, message, BLOCK_SIZE),
+      BLOCK_SIZE
+    );
+};
+
+export const hmacSha256 = (key: Uint8Array, message: Uint8Array) =>
+  createHmac(key)(message);
+
+/** Derives `length` bytes from a password (RFC 8018, PBKDF2-HMAC-SHA256). */
+export const pbkdf2Sha256 = (
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number
+): Uint8Array => {
+  const hmac = createHmac(password);
+  const derived = new Uint8Array(Math.ceil(length / 32) * 32);
+
+  for (let block = 1; block * 32 <= derived.length; block++) {
+    const firstInput = new Uint8Array(salt.length + 4);
+    firstInput.set(salt);
+    new DataView(firstInput.buffer).setUint32(salt.length, block);
+
+    let u = hmac(firstInput);
+    const result = u.slice();
+    for (let i = 1; i < iterations; i++) {
+      u = hmac(u);
+      for (let j = 0; j < result.length; j++) {
+        result[j] ^= u[j];
+      }
+    }
+    derived.set(result, (block - 1) * 32);
+  }
+
+  return derived.slice(0, length);
+};
+
+/**
+ * Bytes from the platform's secure random generator. A predictable nonce
+ * would let the keystream repeat, so there is no weaker fallback: this
+ * throws where no secure source is available.
+ */
+export const randomBytes = (length: number): Uint8Array =>
+  getRandomBytes(length);
+
+/** Compares without stopping at the first difference. */
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+};
+
+export const utf8Encode = (text: string): Uint8Array => {
+  // No UTF-16 code unit takes more than three UTF-8 bytes
+  const bytes = new Uint8Array(text.length * 3);
+  let length = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes[length++] = code;
+    } else if (code < 0x800) {
+      bytes[length++] = 0xc0 | (code >> 6);
+      bytes[length++] = 0x80 | (code & 0x3f);
+    } else if (code < 0x10000) {
+      bytes[length++] = 0xe0 | (code >> 12);
+      bytes[length++] = 0x80 | ((code >> 6) & 0x3f);
+      bytes[length++] = 0x80 | (code & 0x3f);
+    } else {
+      bytes[length++] = 0xf0 | (code >> 18);
+      bytes[length++] = 0x80 | ((code >> 12) & 0x3f);
+      bytes[length++] = 0x80 | ((code >> 6) & 0x3f);
+      bytes[length++] = 0x80 | (code & 0x3f);
+    }
+  }
+  return bytes.slice(0, length);
+};
+
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const fromHex = (hex: string): Uint8Array => {
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error("Invalid hex string");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+export const utf8Decode = (bytes: Uint8Array): string => {
+  const chunks: string[] = [];
+  let codes: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    const extra = byte < 0x80 ? 0 : byte >= 0xf0 ? 3 : byte >= 0xe0 ? 2 : 1;
+    let code = extra === 0 ? byte : byte & (0x3f >> extra);
+    for (let j = 1; j <= extra; j++) {
+      code = (code << 6) | (bytes[i + j] & 0x3f);
+    }
+    codes.push(code);
+    i += extra + 1;
+    if (codes.length === 4096) {
+      chunks.push(String.fromCodePoint(...codes));
+      codes = [];
+    }
+  }
+  chunks.push(String.fromCodePoint(...codes));
+  return chunks.join("");
+};
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    const triple = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    chunks.push(
+      BASE64_ALPHABET[(triple >> 18) & 0x3f] +
+        BASE64_ALPHABET[(triple >> 12) & 0x3f] +
+        (i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : "=") +
+        (i + 2 < bytes.length ? BASE64_ALPHABET[triple & 0x3f] : "=")
+    );
+  }
+  return chunks.join("");
+};
+
+export const fromBase64 = (text: string): Uint8Array => {
+  const trimmed = text.replace(/=+$/, "");
+  if (!/^[A-Za-z0-9+/]*$/.test(trimmed) || trimmed.length % 4 === 1) {
+    throw new Error("Invalid base64 string");
+  }
+  const bytes = new Uint8Array(Math.floor((trimmed.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of trimmed) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+};
+
+const concatBytes = (...parts: Uint8Array[]) => {
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  parts.forEach((part) => {
+    joined.set(part, offset);
+    offset += part.length;
+  });
+  return joined;
+};
+
+export interface CipherKey {
+  encryptionKey: Uint8Array;
+  macKey: Uint8Array;
+}
+
+/** Splits 64 PBKDF2 bytes into separate encryption and MAC keys. */
+export const deriveCipherKey = (
+  passcode: string,
+  salt: Uint8Array,
+  iterations: number
+): CipherKey => {
+  const derived = pbkdf2Sha256(utf8Encode(passcode), salt, iterations, 64);
+  return {
+    encryptionKey: derived.slice(0, 32),
+    macKey: derived.slice(32),
+  };
+};
+
+// XORs `data` with HMAC(key, nonce || counter) blocks, i.e. HMAC in CTR mode
+const applyKeystream = (
+  key: Uint8Array,
+  nonce: Uint8Array,
+  data: Uint8Array
+) => {
+  const hmac = createHmac(key);
+  const output = new Uint8Array(data.length);
+  const counterBlock = new Uint8Array(nonce.length + 4);
+  counterBlock.set(nonce);
+  const counterView = new DataView(counterBlock.buffer);
+
+  for (let offset = 0; offset < data.length; offset += 32) {
+    counterView.setUint32(nonce.length, offset / 32);
+    const block = hmac(counterBlock);
+    const end = Math.min(offset + 32, data.length);
+    for (let i = offset; i < end; i++) {
+      output[i] = data[i] ^ block[i - offset];
+    }
+  }
+  return output;
+};
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const NONCE_SIZE = 16;
+const TAG_SIZE = 32;
+
+export const isEncryptedText = (value: string) =>
+  value.startsWith(ENCRYPTED_PREFIX);
+
+/**
+ * Encrypts then MACs `text`. The result is a printable string of the form
+ * `enc:v1:<base64 nonce || ciphertext || tag>`.
+ */
+export const encryptText = (text: string, key: CipherKey): string => {
+  const nonce = randomBytes(NONCE_SIZE);
+  const ciphertext = applyKeystream(key.encryptionKey, nonce, utf8Encode(text));
+  const tag = hmacSha256(key.macKey, concatBytes(nonce, ciphertext));
+  return ENCRYPTED_PREFIX + toBase64(concatBytes(nonce, ciphertext, tag));
+};
+
+/** Throws when the text was altered or was encrypted with another key. */
+export const decryptText = (value: string, key: CipherKey): string => {
+  if (!isEncryptedText(value)) {
+    throw new Error("Value is not encrypted");
+  }
+  const bytes = fromBase64(value.slice(ENCRYPTED_PREFIX.length));
+  if (bytes.length < NONCE_SIZE + TAG_SIZE) {
+    throw new Error("Encrypted value is too short");
+  }
+  const nonce = bytes.slice(0, NONCE_SIZE);
+  const ciphertext = bytes.slice(NONCE_SIZE, bytes.length - TAG_SIZE);
+  const tag = bytes.slice(bytes.length - TAG_SIZE);
+  if (
+    !constantTimeEqual(
+      tag,
+      hmacSha256(key.macKey, concatBytes(nonce, ciphertext))
+    )
+  ) {
+    throw new Error("Encrypted value is damaged or the key is wrong");
+  }
+  return utf8Decode(applyKeystream(key.encryptionKey, nonce, ciphertext));
+};
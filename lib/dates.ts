@@ -0,0 +1,128 @@
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const formatTime = (date: Date): string =>
+  date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+export const formatCalendarDate = (date: Date): string =>
+  date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+/**
+ * Turns a stored ISO timestamp into a display label such as "Today, 8:30 AM",
+ * "Yesterday, 6:15 PM" or "Mar 25, 2025". Labels are relative to `now`, so
+ * they must only be computed at render time, never stored.
+ */
+export const formatTransactionDate = (
+  isoDate: string,
+  now: Date = new Date()
+): string => {
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) {
+    return isoDate;
+  }
+
+  const dayDifference = Math.round(
+    (startOfDay(now).getTime() - startOfDay(date).getTime()) / MS_PER_DAY
+  );
+  if (dayDifference === 0) {
+    return `Today, ${formatTime(date)}`;
+  }
+  if (dayDifference === 1) {
+    return `Yesterday, ${formatTime(date)}`;
+  }
+  return formatCalendarDate(date);
+};
+
+/**
+ * Heading for a day of transactions: "Today", "Yesterday" or a date such as
+ * "Tuesday, March 25". The year is added outside the current one.
+ */
+export const formatDayTitle = (date: Date, now: Date = new Date()): string => {
+  const dayDifference = Math.round(
+    (startOfDay(now).getTime() - startOfDay(date).getTime()) / MS_PER_DAY
+  );
+  if (dayDifference === 0) {
+    return "Today";
+  }
+  if (dayDifference === 1) {
+    return "Yesterday";
+  }
+  return date.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    ...(date.getFullYear() !== now.getFullYear() ? { year: "numeric" } : {}),
+  });
+};
+
+/**
+ * Best-effort conversion of the display strings older versions stored in
+ * `date` ("Today, 8:30 AM", "Yesterday, 6:15 PM", "Mar 25, 2025") into an ISO
+ * timestamp. Relative labels are resolved against `reference`, which should
+ * be the closest known time to when the label was written. Returns null when
+ * the string cannot be understood.
+ */
+export const parseLegacyDate = (
+  label: string,
+  reference: Date
+): string | null => {
+  const relative = label.match(
+    /^(Today|Yesterday),\s*(\d{1,2}):(\d{2})\s*(AM|PM)?$/i
+  );
+  if (relative) {
+    const [, day, hourText, minuteText, meridiem] = relative;
+    let hours = parseInt(hourText, 10);
+    // Older builds wrote 24-hour values with an AM/PM suffix ("14:05 PM"),
+    // so only shift hours that are actually on a 12-hour clock.
+    if (hours <= 12 && meridiem) {
+      const isPm = meridiem.toUpperCase() === "PM";
+      if (isPm && hours < 12) hours += 12;
+      if (!isPm && hours === 12) hours = 0;
+    }
+    const date = startOfDay(reference);
+    if (day.toLowerCase() === "yesterday") {
+      date.setDate(date.getDate() - 1);
+    }
+    date.setHours(hours, parseInt(minuteText, 10));
+    return date.toISOString();
+  }
+
+  // Parsed by hand because Hermes' Date does not accept "Mar 25, 2025"
+  const calendar = label.match(
+    /^([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),\s*(\d{4})$/
+  );
+  if (calendar) {
+    const month = MONTHS.indexOf(calendar[1].toLowerCase());
+    if (month >= 0) {
+      return new Date(
+        parseInt(calendar[3], 10),
+        month,
+        parseInt(calendar[2], 10)
+      ).toISOString();
+    }
+  }
+
+  const parsed = new Date(label);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
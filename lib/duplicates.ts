@@ -0,0 +1,148 @@
+import { readJSON, writeJSON } from "@/lib/storage";
+import { Transaction } from "@/lib/transactionRepository";
+
+/** How many days apart two entries of the same payment may be dated. */
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Share of letter pairs two names need in common to count as similar
+const SIMILARITY_THRESHOLD = 0.7;
+
+const normalizeMerchant = (merchant: string) =>
+  merchant
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const letterPairs = (text: string) => {
+  const compact = text.replace(/ /g, "");
+  return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) =>
+    compact.slice(i, i + 2)
+  );
+};
+
+// Dice coefficient over letter pairs, so small typos still match
+const similarity = (a: string, b: string) => {
+  const pairs = letterPairs(a);
+  const others = letterPairs(b);
+  if (pairs.length + others.length === 0) {
+    return a === b ? 1 : 0;
+  }
+  const remaining = [...others];
+  let shared = 0;
+  pairs.forEach((pair) => {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      remaining.splice(index, 1);
+      shared++;
+    }
+  });
+  return (2 * shared) / (pairs.length + others.length);
+};
+
+/**
+ * Whether two merchant names look like the same payee: one is contained in
+ * the other as whole words ("Metro" and "METRO #123 TORONTO") or they are
+ * spelled almost the same.
+ */
+export const similarMerchants = (a: string, b: string): boolean => {
+  const first = normalizeMerchant(a);
+  const second = normalizeMerchant(b);
+  if (!first || !second) {
+    return first === second;
+  }
+  return (
+    ` ${first} `.includes(` ${second} `) ||
+    ` ${second} `.includes(` ${first} `) ||
+    similarity(first, second) >= SIMILARITY_THRESHOLD
+  );
+};
+
+/**
+ * Same account and amount, dated within the window, with similar merchant
+ * names. Transfers are never flagged, and neither are two records the bank
+ * itself gave different ids.
+ */
+export const isPossibleDuplicate = (
+  a: Omit<Transaction, "id">,
+  b: Omit<Transaction, "id">
+): boolean =>
+  a.accountId === b.accountId &&
+  a.amount === b.amount &&
+  a.transferId === undefined &&
+  b.transferId === undefined &&
+  !(a.fitId && b.fitId && a.fitId !== b.fitId) &&
+  Math.abs(Date.parse(a.date) - Date.parse(b.date)) <=
+    DUPLICATE_WINDOW_DAYS * DAY_MS &&
+  similarMerchants(a.merchant, b.merchant);
+
+/** Stored transactions that `candidate` may repeat. */
+export const findDuplicates = (
+  candidate: Omit<Transaction, "id">,
+  transactions: Transaction[]
+): Transaction[] =>
+  transactions.filter((transaction) =>
+    isPossibleDuplicate(candidate, transaction)
+  );
+
+export interface DuplicatePair {
+  key: string;
+  /** The earlier of the two. */
+  first: Transaction;
+  second: Transaction;
+}
+
+export const duplicatePairKey = (a: Transaction, b: Transaction) =>
+  a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+
+/**
+ * Possible duplicates among stored transactions, newest first, leaving out
+ * pairs the user said are not duplicates.
+ */
+export const duplicatePairs = (
+  transactions: Transaction[],
+  dismissed: string[]
+): DuplicatePair[] => {
+  const skipped = new Set(dismissed);
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach((transaction) => {
+    const key = `${transaction.accountId}:${transaction.amount}`;
+    groups.set(key, [...(groups.get(key) ?? []), transaction]);
+  });
+
+  const pairs: DuplicatePair[] = [];
+  groups.forEach((group) => {
+    const sorted = [...group].sort((a, b) => a.date.localeCompare(b.date));
+    sorted.forEach((first, index) => {
+      for (const second of sorted.slice(index + 1)) {
+        if (
+          Date.parse(second.date) - Date.parse(first.date) >
+          DUPLICATE_WINDOW_DAYS * DAY_MS
+        ) {
+          break;
+        }
+        const key = duplicatePairKey(first, second);
+        if (!skipped.has(key) && isPossibleDuplicate(first, second)) {
+          pairs.push({ key, first, second });
+        }
+      }
+    });
+  });
+  return pairs.sort((a, b) => b.second.date.localeCompare(a.second.date));
+};
+
+export const DISMISSED_DUPLICATES_KEY = "duplicates:dismissed";
+
+export const listDismissedDuplicates = (): Promise<string[]> =>
+  readJSON<string[]>(DISMISSED_DUPLICATES_KEY, []);
+
+/** Remembers that the pair with this key is not a duplicate. */
+export const dismissDuplicatePair = async (key: string) => {
+  const dismissed = await listDismissedDuplicates();
+  if (!dismissed.includes(key)) {
+    await writeJSON(DISMISSED_DUPLICATES_KEY, [...dismissed, key]);
+  }
+};
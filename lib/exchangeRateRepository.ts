@@ -0,0 +1,23 @@
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { ExchangeRates } from "@/lib/exchangeRates";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+export type { ExchangeRates } from "@/lib/exchangeRates";
+
+export const EXCHANGE_RATES_KEY = "exchangeRates";
+
+// Rates are entered by hand; nothing is fetched from the network
+const defaultExchangeRates: ExchangeRates = {
+  homeCurrency: DEFAULT_CURRENCY,
+  rates: {},
+};
+
+export const getExchangeRates = (): Promise<ExchangeRates> =>
+  readJSON<ExchangeRates>(EXCHANGE_RATES_KEY, defaultExchangeRates);
+
+export const saveExchangeRates = async (
+  exchangeRates: ExchangeRates
+): Promise<ExchangeRates> => {
+  await writeJSON(EXCHANGE_RATES_KEY, exchangeRates);
+  return exchangeRates;
+};
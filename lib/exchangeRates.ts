@@ -0,0 +1,106 @@
+import { fromMinorUnits, getDecimalSeparator, toMinorUnits } from "@/lib/money";
+
+export interface ExchangeRates {
+  /** Currency that totals across accounts are shown in. */
+  homeCurrency: string;
+  /** Value of one unit of each other currency, in the home currency. */
+  rates: Record<string, number>;
+}
+
+/** How many units of `to` one unit of `from` buys, if both rates are known. */
+export const getRate = (
+  exchangeRates: ExchangeRates,
+  from: string,
+  to: string
+): number | null => {
+  const inHome = (currency: string) =>
+    currency === exchangeRates.homeCurrency
+      ? 1
+      : exchangeRates.rates[currency] ?? null;
+  const fromRate = inHome(from);
+  const toRate = inHome(to);
+  return fromRate !== null && toRate ? fromRate / toRate : null;
+};
+
+/** Converts minor units of `from` into minor units of `to` at `rate`. */
+export const convertWithRate = (
+  minor: number,
+  from: string,
+  to: string,
+  rate: number
+): number => toMinorUnits(fromMinorUnits(minor, from) * rate, to);
+
+export const convertAmount = (
+  minor: number,
+  from: string,
+  to: string,
+  exchangeRates: ExchangeRates
+): number | null => {
+  const rate = getRate(exchangeRates, from, to);
+  return rate === null ? null : convertWithRate(minor, from, to, rate);
+};
+
+/**
+ * Re-expresses the table relative to a new home currency. Rates that cannot
+ * be derived because the new home currency had no rate are dropped.
+ */
+export const rebaseRates = (
+  exchangeRates: ExchangeRates,
+  homeCurrency: string
+): ExchangeRates => {
+  const rates: Record<string, number> = {};
+  const currencies = [
+    exchangeRates.homeCurrency,
+    ...Object.keys(exchangeRates.rates),
+  ];
+  currencies.forEach((currency) => {
+    const rate = getRate(exchangeRates, currency, homeCurrency);
+    if (currency !== homeCurrency && rate !== null) {
+      rates[currency] = rate;
+    }
+  });
+  return { homeCurrency, rates };
+};
+
+/**
+ * Sum of the balances in the home currency. Balances in currencies without
+ * a rate are left out and their currencies listed in `missing`.
+ */
+export const totalInHomeCurrency = (
+  balances: { currency: string; balance: number }[],
+  exchangeRates: ExchangeRates
+): { total: number; missing: string[] } => {
+  let total = 0;
+  const missing: string[] = [];
+  balances.forEach(({ currency, balance }) => {
+    const converted = convertAmount(
+      balance,
+      currency,
+      exchangeRates.homeCurrency,
+      exchangeRates
+    );
+    if (converted === null) {
+      if (!missing.includes(currency)) missing.push(currency);
+    } else {
+      total += converted;
+    }
+  });
+  return { total, missing };
+};
+
+/** Reads a positive rate typed with either "." or "," as decimal point. */
+export const parseRate = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!/^\d+([.,]\d+)?$/.test(trimmed)) {
+    return null;
+  }
+  const rate = parseFloat(trimmed.replace(",", "."));
+  return rate > 0 ? rate : null;
+};
+
+/** A rate as editable text, e.g. "1.3625", using the device's separator. */
+export const formatRate = (
+  rate: number,
+  decimalSeparator: string = getDecimalSeparator()
+): string =>
+  String(parseFloat(rate.toPrecision(6))).replace(".", decimalSeparator);
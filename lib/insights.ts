@@ -0,0 +1,157 @@
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { convertWithRate, ExchangeRates, getRate } from "@/lib/exchangeRates";
+import {
+  categoryLines,
+  isTransfer,
+  Transaction,
+} from "@/lib/transactionRepository";
+
+export interface Month {
+  year: number;
+  /** Zero-based, as in Date#getMonth. */
+  month: number;
+}
+
+export interface CategoryTotal {
+  categoryId: string;
+  total: number;
+}
+
+export interface MonthTotals extends Month {
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+export const getMonth = (date: Date): Month => ({
+  year: date.getFullYear(),
+  month: date.getMonth(),
+});
+
+export const addMonths = ({ year, month }: Month, offset: number): Month => {
+  const date = new Date(year, month + offset, 1);
+  return getMonth(date);
+};
+
+/** Negative when `a` is before `b`, zero when they are the same month. */
+export const compareMonths = (a: Month, b: Month): number =>
+  a.year !== b.year ? a.year - b.year : a.month - b.month;
+
+export const formatMonth = ({ year, month }: Month): string =>
+  new Date(year, month, 1).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+  });
+
+export const formatShortMonth = ({ year, month }: Month): string =>
+  new Date(year, month, 1).toLocaleDateString("en-US", { month: "short" });
+
+const isInMonth = (transaction: Transaction, { year, month }: Month) => {
+  const date = new Date(transaction.date);
+  return date.getFullYear() === year && date.getMonth() === month;
+};
+
+/**
+ * `transactions` with their amounts, split lines included, converted from
+ * their account's currency into `currency`, so totals across accounts add
+ * like amounts. Transactions in a currency without a rate are left out and
+ * the currency listed in `missing`.
+ */
+export const convertTransactions = (
+  transactions: Transaction[],
+  accounts: { id: string; currency: string }[],
+  currency: string,
+  exchangeRates: ExchangeRates
+): { transactions: Transaction[]; missing: string[] } => {
+  const converted: Transaction[] = [];
+  const missing: string[] = [];
+  transactions.forEach((transaction) => {
+    const from =
+      accounts.find((a) => a.id === transaction.accountId)?.currency ??
+      DEFAULT_CURRENCY;
+    if (from === currency) {
+      converted.push(transaction);
+      return;
+    }
+    const rate = getRate(exchangeRates, from, currency);
+    if (rate === null) {
+      if (!missing.includes(from)) missing.push(from);
+      return;
+    }
+    const convert = (amount: number) =>
+      convertWithRate(amount, from, currency, rate);
+    converted.push({
+      ...transaction,
+      amount: convert(transaction.amount),
+      ...(transaction.splits
+        ? {
+            splits: transaction.splits.map((line) => ({
+              ...line,
+              amount: convert(line.amount),
+            })),
+          }
+        : {}),
+    });
+  });
+  return { transactions: converted, missing };
+};
+
+// Transfers only move money between the user's own accounts, so they are
+// neither income nor spending.
+const reportable = (transactions: Transaction[], month: Month) =>
+  transactions.filter((t) => !isTransfer(t) && isInMonth(t, month));
+
+/**
+ * Expense totals per category for a month, largest first. Each line of a
+ * split transaction counts towards its own category. The transactions must
+ * all be in one currency; see `convertTransactions`.
+ */
+export const spendingByCategory = (
+  transactions: Transaction[],
+  month: Month
+): CategoryTotal[] => {
+  const totals = new Map<string, number>();
+  reportable(transactions, month)
+    .filter((t) => t.amount < 0)
+    .flatMap(categoryLines)
+    .forEach((line) => {
+      totals.set(
+        line.categoryId,
+        (totals.get(line.categoryId) ?? 0) - line.amount
+      );
+    });
+  return Array.from(totals, ([categoryId, total]) => ({
+    categoryId,
+    total,
+  })).sort((a, b) => b.total - a.total);
+};
+
+/** Income and expenses for a month, from transactions in one currency. */
+export const monthTotals = (
+  transactions: Transaction[],
+  month: Month
+): MonthTotals => {
+  let income = 0;
+  let expenses = 0;
+  reportable(transactions, month).forEach((t) => {
+    if (t.amount >= 0) {
+      income += t.amount;
+    } else {
+      expenses -= t.amount;
+    }
+  });
+  return { ...month, income, expenses, net: income - expenses };
+};
+
+/**
+ * Totals for `count` consecutive months ending with `lastMonth`, oldest
+ * first. Pass an account's transactions to get that account's trend.
+ */
+export const monthlyTrend = (
+  transactions: Transaction[],
+  lastMonth: Month,
+  count: number
+): MonthTotals[] =>
+  Array.from({ length: count }, (_, index) =>
+    monthTotals(transactions, addMonths(lastMonth, index - count + 1))
+  );
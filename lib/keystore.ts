@@ -0,0 +1,19 @@
+import * as SecureStore from "expo-secure-store";
+
+// Readable only on this device, and only while it is unlocked
+const options: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+/**
+ * Secrets in the platform keystore (Keychain or Android Keystore). Unlike
+ * AsyncStorage, they are not part of the app's files or device backups.
+ */
+export const readSecret = (name: string): Promise<string | null> =>
+  SecureStore.getItemAsync(name, options);
+
+export const writeSecret = (name: string, value: string): Promise<void> =>
+  SecureStore.setItemAsync(name, value, options);
+
+export const deleteSecret = (name: string): Promise<void> =>
+  SecureStore.deleteItemAsync(name, options);
@@ -0,0 +1,38 @@
+import { isTransfer, Transaction } from "@/lib/transactionRepository";
+
+const SUGGESTION_LIMIT = 5;
+
+/** Every merchant name used, most used first, for autocomplete. */
+export const merchantsInUse = (transactions: Transaction[]): string[] => {
+  const counts = new Map<string, { merchant: string; count: number }>();
+  transactions
+    .filter((transaction) => !isTransfer(transaction))
+    .forEach(({ merchant }) => {
+      const key = merchant.trim().toLowerCase();
+      const entry = counts.get(key) ?? { merchant: merchant.trim(), count: 0 };
+      counts.set(key, { ...entry, count: entry.count + 1 });
+    });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.merchant.localeCompare(b.merchant))
+    .map((entry) => entry.merchant);
+};
+
+/**
+ * Merchants for what has been typed so far: names starting with it come
+ * before names that only contain it. Nothing is suggested once the text
+ * already is a known name.
+ */
+export const suggestMerchants = (
+  merchants: string[],
+  text: string
+): string[] => {
+  const query = text.trim().toLowerCase();
+  if (!query || merchants.some((m) => m.toLowerCase() === query)) {
+    return [];
+  }
+  const starting = merchants.filter((m) => m.toLowerCase().startsWith(query));
+  const containing = merchants.filter(
+    (m) => !m.toLowerCase().startsWith(query) && m.toLowerCase().includes(query)
+  );
+  return [...starting, ...containing].slice(0, SUGGESTION_LIMIT);
+};
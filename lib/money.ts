@@ -0,0 +1,140 @@
+// ISO 4217 minor-unit exponents that differ from the usual two decimals
+const CURRENCY_DIGITS: Record<string, number> = {
+  BHD: 3,
+  CLP: 0,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  OMR: 3,
+  TND: 3,
+  VND: 0,
+};
+
+/** Number of decimal places in `currency`'s minor unit (2 for cents). */
+export const currencyDigits = (currency: string): number =>
+  CURRENCY_DIGITS[currency] ?? 2;
+
+/** Converts a major-unit amount such as 12.34 into minor units (1234). */
+export const toMinorUnits = (major: number, currency: string): number =>
+  Math.round(major * 10 ** currencyDigits(currency));
+
+export const fromMinorUnits = (minor: number, currency: string): number =>
+  minor / 10 ** currencyDigits(currency);
+
+/** The decimal separator of `locale`, or of the device when omitted. */
+export const getDecimalSeparator = (locale?: string): string =>
+  (1.5).toLocaleString(locale).replace(/\d/g, "").charAt(0) || ".";
+
+const GROUP_SPACES = /[\s']/g;
+
+/**
+ * Strictly parses typed amounts into minor units. Both "1,234.56" and
+ * "1 234,56" are understood: spaces and apostrophes always group digits,
+ * and when only one of "," or "." appears once, it is a decimal separator
+ * unless exactly three digits follow it and it is not the locale's decimal
+ * separator. Digit groups must be complete and the fraction may not have
+ * more digits than the currency allows, so "1,23,4" or "1.234" (for
+ * English-locale dollars) are rejected rather than guessed. Returns null for
+ * anything that is not a plain amount.
+ */
+export const parseMoney = (
+  text: string,
+  currency: string,
+  decimalSeparator: string = getDecimalSeparator()
+): number | null => {
+  const trimmed = text.trim();
+  const sign = trimmed.startsWith("-") ? -1 : 1;
+  const unsigned = trimmed.replace(/^[-+]\s*/, "");
+  if (!/^\d[\d.,\s']*$/.test(unsigned) || /[^\d]$/.test(unsigned)) {
+    return null;
+  }
+
+  const hasSpaceGroups = /[\s']/.test(unsigned);
+  const compact = unsigned.replace(GROUP_SPACES, "");
+  const commas = compact.split(",").length - 1;
+  const dots = compact.split(".").length - 1;
+
+  let decimal: string | null = null;
+  if (commas > 0 && dots > 0) {
+    decimal = compact.lastIndexOf(",") > compact.lastIndexOf(".") ? "," : ".";
+  } else if (commas + dots === 1) {
+    const separator = commas ? "," : ".";
+    const digitsAfter = compact.length - compact.indexOf(separator) - 1;
+    decimal =
+      digitsAfter === 3 && separator !== decimalSeparator && !hasSpaceGroups
+        ? null
+        : separator;
+  }
+
+  const decimalIndex = decimal ? compact.lastIndexOf(decimal) : -1;
+  const integerPart =
+    decimalIndex >= 0
+      ? unsigned.slice(0, unsigned.lastIndexOf(decimal!))
+      : unsigned;
+  const fraction = decimalIndex >= 0 ? compact.slice(decimalIndex + 1) : "";
+  if (!/^\d*$/.test(fraction)) {
+    return null;
+  }
+
+  // Every group after the first needs exactly three digits
+  const groups = integerPart.split(/[.,\s']/);
+  if (
+    groups[0].length === 0 ||
+    groups.slice(1).some((group) => !/^\d{3}$/.test(group)) ||
+    (groups.length > 1 && groups[0].length > 3)
+  ) {
+    return null;
+  }
+
+  const digits = currencyDigits(currency);
+  if (fraction.length > digits && !/^0*$/.test(fraction.slice(digits))) {
+    return null;
+  }
+  const minor = parseInt(
+    groups.join("") + fraction.slice(0, digits).padEnd(digits, "0"),
+    10
+  );
+  if (!Number.isSafeInteger(minor)) {
+    return null;
+  }
+  return sign * minor;
+};
+
+/**
+ * Formats minor units with grouping and the currency's decimals, e.g.
+ * "1,234.56". With `signed`, positive amounts get a leading "+".
+ */
+export const formatAmount = (
+  minor: number,
+  currency: string,
+  { signed = false }: { signed?: boolean } = {}
+): string => {
+  const digits = currencyDigits(currency);
+  const formatted = fromMinorUnits(Math.abs(minor), currency).toLocaleString(
+    undefined,
+    { minimumFractionDigits: digits, maximumFractionDigits: digits }
+  );
+  if (minor < 0) {
+    return `-${formatted}`;
+  }
+  return signed && minor > 0 ? `+${formatted}` : formatted;
+};
+
+/** Formats minor units with the currency code, e.g. "CAD 1,234.56". */
+export const formatMoney = (minor: number, currency: string): string =>
+  `${currency} ${formatAmount(minor, currency)}`;
+
+/**
+ * Minor units as plain text without grouping, e.g. "-1234.56", which
+ * `parseMoney` reads back. Used to prefill inputs and in exports.
+ */
+export const formatPlainAmount = (
+  minor: number,
+  currency: string,
+  decimalSeparator: string = getDecimalSeparator()
+): string =>
+  fromMinorUnits(minor, currency)
+    .toFixed(currencyDigits(currency))
+    .replace(".", decimalSeparator);
@@ -0,0 +1,181 @@
+import {
+  OTHER_EXPENSE_CATEGORY_ID,
+  OTHER_INCOME_CATEGORY_ID,
+} from "@/constants/Categories";
+import { toMinorUnits } from "@/lib/money";
+import { Transaction } from "@/lib/transactionRepository";
+
+export interface OfxTransaction {
+  /** The bank's id for the record, unique within the account. */
+  fitId: string;
+  type: string;
+  /** ISO 8601 timestamp. */
+  date: string;
+  /** In major units, as written in the file. */
+  amount: number;
+  name: string;
+  memo?: string;
+}
+
+export interface OfxStatement {
+  /** Account number as the bank sent it (ACCTID). */
+  accountNumber?: string;
+  currency?: string;
+  transactions: OfxTransaction[];
+  /** Why each record that could not be read was left out. */
+  errors: string[];
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+
+// OFX 1.x is SGML and leaves elements unclosed ("<TRNAMT>-4.50"), while 2.x
+// is XML and closes them, so read everything up to the next tag or newline.
+const elementValue = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match ? decodeEntities(match[1]).trim() : "";
+  return value || undefined;
+};
+
+/**
+ * Parses OFX dates: YYYYMMDD with optional HHMMSS, fractional seconds and a
+ * "[-5:EST]" style UTC offset. Without an offset the time is taken as local.
+ */
+export const parseOfxDate = (text: string): string | null => {
+  const match = text.match(
+    /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?(?:\s*\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?$/
+  );
+  if (!match) {
+    return null;
+  }
+  const offset = match[7];
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1, 7)
+    .map((part) => (part ? parseInt(part, 10) : 0));
+
+  if (offset === undefined) {
+    return new Date(
+      year,
+      month - 1,
+      day,
+      hours,
+      minutes,
+      seconds
+    ).toISOString();
+  }
+  const utc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  return new Date(utc - parseFloat(offset) * 60 * 60 * 1000).toISOString();
+};
+
+// OFX amounts have no digit grouping and use "." or "," as the decimal point
+const AMOUNT_PATTERN = /^[+-]?(\d+([.,]\d+)?|[.,]\d+)$/;
+
+const parseOfxAmount = (text: string): number | null =>
+  AMOUNT_PATTERN.test(text) ? parseFloat(text.replace(",", ".")) : null;
+
+const parseStatement = (block: string): OfxStatement => {
+  const records = block.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+  const transactions: OfxTransaction[] = [];
+  const errors: string[] = [];
+  records.forEach((record, index) => {
+    const fitId = elementValue(record, "FITID");
+    const label = `Record ${fitId ?? index + 1}`;
+    const dateText = elementValue(record, "DTPOSTED") ?? "";
+    const date = parseOfxDate(dateText);
+    const amountText = elementValue(record, "TRNAMT") ?? "";
+    const amount = parseOfxAmount(amountText);
+    if (!fitId) {
+      errors.push(`${label}: Missing FITID`);
+      return;
+    }
+    if (!date) {
+      errors.push(`${label}: Unrecognized date "${dateText}"`);
+      return;
+    }
+    if (amount === null) {
+      errors.push(`${label}: Unrecognized amount "${amountText}"`);
+      return;
+    }
+    const type = elementValue(record, "TRNTYPE") ?? "OTHER";
+    const memo = elementValue(record, "MEMO");
+    transactions.push({
+      fitId,
+      type,
+      date,
+      amount,
+      name: elementValue(record, "NAME") ?? memo ?? type,
+      memo,
+    });
+  });
+
+  return {
+    accountNumber: elementValue(block, "ACCTID"),
+    currency: elementValue(block, "CURDEF"),
+    transactions,
+    errors,
+  };
+};
+
+/**
+ * Reads every bank and credit card statement in an OFX or QFX file, in file
+ * order. Statements without any records are left out.
+ */
+export const parseOfx = (text: string): OfxStatement[] => {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error("This is not an OFX or QFX file");
+  }
+
+  const blocks = text.match(/<(CC)?STMTRS>[\s\S]*?<\/(CC)?STMTRS>/gi) ?? [text];
+  return blocks
+    .map(parseStatement)
+    .filter(
+      (statement) =>
+        statement.transactions.length > 0 || statement.errors.length > 0
+    );
+};
+
+/**
+ * Converts a statement's records into transactions for `accountId`, in
+ * minor units of the account's `currency`, leaving out any whose FITID is
+ * already stored for that account or repeats earlier in the file.
+ */
+export const ofxToTransactions = (
+  statement: OfxStatement,
+  accountId: string,
+  currency: string,
+  existing: Transaction[]
+): { transactions: Omit<Transaction, "id">[]; duplicates: number } => {
+  const seen = new Set(
+    existing
+      .filter((t) => t.accountId === accountId && t.fitId)
+      .map((t) => t.fitId)
+  );
+  const transactions: Omit<Transaction, "id">[] = [];
+  statement.transactions.forEach((record) => {
+    if (seen.has(record.fitId)) {
+      return;
+    }
+    seen.add(record.fitId);
+    transactions.push({
+      merchant: record.name,
+      amount: toMinorUnits(record.amount, currency),
+      date: record.date,
+      categoryId:
+        record.amount < 0
+          ? OTHER_EXPENSE_CATEGORY_ID
+          : OTHER_INCOME_CATEGORY_ID,
+      accountId,
+      fitId: record.fitId,
+    });
+  });
+  return {
+    transactions,
+    duplicates: statement.transactions.length - transactions.length,
+  };
+};
@@ -0,0 +1,78 @@
+import * as FileSystem from "expo-file-system";
+
+import {
+  listDeletedTransactions,
+  listTransactions,
+} from "@/lib/transactionRepository";
+
+// Transactions store only file names: the documents path can change when
+// the app is updated or restored onto another device. The images are plain
+// files and are not covered by the app lock's storage encryption.
+const RECEIPTS_DIRECTORY = `${FileSystem.documentDirectory}receipts/`;
+
+export const receiptUri = (name: string): string => RECEIPTS_DIRECTORY + name;
+
+/** Copies a picked image into the app's documents and returns its name. */
+export const saveReceipt = async (sourceUri: string): Promise<string> => {
+  await FileSystem.makeDirectoryAsync(RECEIPTS_DIRECTORY, {
+    intermediates: true,
+  });
+  const extension = sourceUri.match(/\.(\w+)$/)?.[1]?.toLowerCase() ?? "jpg";
+  const name = `receipt-${Date.now()}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}.${extension}`;
+  await FileSystem.copyAsync({ from: sourceUri, to: receiptUri(name) });
+  return name;
+};
+
+/**
+ * Deletes stored images that no transaction refers to any more, including
+ * the ones in the trash, which may still be restored.
+ */
+export const removeUnusedReceipts = async () => {
+  const info = await FileSystem.getInfoAsync(RECEIPTS_DIRECTORY);
+  if (!info.exists) {
+    return;
+  }
+  const [transactions, deletedTransactions, names] = await Promise.all([
+    listTransactions(),
+    listDeletedTransactions(),
+    FileSystem.readDirectoryAsync(RECEIPTS_DIRECTORY),
+  ]);
+  const used = new Set(
+    [...transactions, ...deletedTransactions].flatMap((t) => t.receipts ?? [])
+  );
+  await Promise.all(
+    names
+      .filter((name) => !used.has(name))
+      .map((name) =>
+        FileSystem.deleteAsync(receiptUri(name), { idempotent: true })
+      )
+  );
+};
+
+/** Base64 contents of a stored image, or null when the file is missing. */
+export const readReceiptImage = async (
+  name: string
+): Promise<string | null> => {
+  const uri = receiptUri(name);
+  if (!(await FileSystem.getInfoAsync(uri)).exists) {
+    return null;
+  }
+  return FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+};
+
+/** Writes an image from a backup, keeping one that is already stored. */
+export const writeReceiptImage = async (name: string, data: string) => {
+  await FileSystem.makeDirectoryAsync(RECEIPTS_DIRECTORY, {
+    intermediates: true,
+  });
+  const uri = receiptUri(name);
+  if (!(await FileSystem.getInfoAsync(uri)).exists) {
+    await FileSystem.writeAsStringAsync(uri, data, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+};
@@ -0,0 +1,55 @@
+import { Account } from "@/lib/accountRepository";
+import { getStatus, Transaction } from "@/lib/transactionRepository";
+
+// Statement dates are whole days, so everything up to the end of that day
+// is covered by the statement.
+const endOfDay = (date: Date) =>
+  new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    23,
+    59,
+    59,
+    999
+  ).toISOString();
+
+/**
+ * The account's transactions a statement ending on `statementDate` can
+ * include and that are not reconciled yet, oldest first.
+ */
+export const transactionsToReconcile = (
+  transactions: Transaction[],
+  accountId: string,
+  statementDate: Date
+): Transaction[] => {
+  const through = endOfDay(statementDate);
+  return transactions
+    .filter(
+      (t) =>
+        t.accountId === accountId &&
+        getStatus(t) !== "reconciled" &&
+        t.date <= through
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * What the bank should show on `statementDate`: the opening balance, every
+ * reconciled transaction and the ones cleared up to that day.
+ */
+export const clearedBalance = (
+  account: Account,
+  transactions: Transaction[],
+  statementDate: Date
+): number => {
+  const through = endOfDay(statementDate);
+  return transactions
+    .filter(
+      (t) =>
+        t.accountId === account.id &&
+        (getStatus(t) === "reconciled" ||
+          (getStatus(t) === "cleared" && t.date <= through))
+    )
+    .reduce((sum, t) => sum + t.amount, account.openingBalance);
+};
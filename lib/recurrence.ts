@@ -0,0 +1,97 @@
+export type Frequency = "daily" | "weekly" | "biweekly" | "monthly" | "yearly";
+
+export const frequencies: { frequency: Frequency; label: string }[] = [
+  { frequency: "daily", label: "Daily" },
+  { frequency: "weekly", label: "Weekly" },
+  { frequency: "biweekly", label: "Every 2 weeks" },
+  { frequency: "monthly", label: "Monthly" },
+  { frequency: "yearly", label: "Yearly" },
+];
+
+export interface Schedule {
+  frequency: Frequency;
+  /** ISO 8601 timestamp of the first occurrence. */
+  startDate: string;
+  /** ISO 8601; no occurrences fall after this moment. */
+  endDate?: string;
+  /** Total number of occurrences counted from `startDate`. */
+  count?: number;
+}
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Months are counted from the start date rather than the previous
+// occurrence, so a rule starting on the 31st lands on the 28th/29th/30th in
+// short months and goes back to the 31st afterwards.
+const addMonthsClamped = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const daysInMonth = new Date(
+    result.getFullYear(),
+    result.getMonth() + 1,
+    0
+  ).getDate();
+  result.setDate(Math.min(date.getDate(), daysInMonth));
+  return result;
+};
+
+/** Date of the `index`th occurrence (zero-based), ignoring the end rules. */
+export const occurrenceDate = (schedule: Schedule, index: number): Date => {
+  const start = new Date(schedule.startDate);
+  switch (schedule.frequency) {
+    case "daily":
+      return addDays(start, index);
+    case "weekly":
+      return addDays(start, index * 7);
+    case "biweekly":
+      return addDays(start, index * 14);
+    case "monthly":
+      return addMonthsClamped(start, index);
+    case "yearly":
+      return addMonthsClamped(start, index * 12);
+  }
+};
+
+export const hasOccurrence = (schedule: Schedule, index: number): boolean =>
+  (schedule.count === undefined || index < schedule.count) &&
+  (schedule.endDate === undefined ||
+    occurrenceDate(schedule, index) <= new Date(schedule.endDate));
+
+/** Indexes from `fromIndex` onwards whose date is on or before `now`. */
+export const dueOccurrences = (
+  schedule: Schedule,
+  fromIndex: number,
+  now: Date
+): number[] => {
+  const due: number[] = [];
+  for (
+    let index = fromIndex;
+    hasOccurrence(schedule, index) && occurrenceDate(schedule, index) <= now;
+    index++
+  ) {
+    due.push(index);
+  }
+  return due;
+};
+
+/** Up to `limit` occurrences starting at `fromIndex`. */
+export const upcomingOccurrences = (
+  schedule: Schedule,
+  fromIndex: number,
+  limit: number
+): { index: number; date: Date }[] => {
+  const upcoming: { index: number; date: Date }[] = [];
+  for (
+    let index = fromIndex;
+    upcoming.length < limit && hasOccurrence(schedule, index);
+    index++
+  ) {
+    upcoming.push({ index, date: occurrenceDate(schedule, index) });
+  }
+  return upcoming;
+};
@@ -0,0 +1,167 @@
+import { dueOccurrences, occurrenceDate, Schedule } from "@/lib/recurrence";
+import { readJSON, writeJSON } from "@/lib/storage";
+import { addTransactions, Transaction } from "@/lib/transactionRepository";
+
+export type { Frequency } from "@/lib/recurrence";
+
+export interface RecurringRule extends Schedule {
+  id: string;
+  merchant: string;
+  /** Signed minor units like a transaction amount: negative for expenses. */
+  amount: number;
+  categoryId: string;
+  accountId: string;
+  /** Index of the next occurrence to create or skip. */
+  nextIndex: number;
+  paused: boolean;
+}
+
+export const RECURRING_KEY = "recurring";
+
+export const listRecurringRules = (): Promise<RecurringRule[]> =>
+  readJSON<RecurringRule[]>(RECURRING_KEY, []);
+
+export const getRecurringRule = async (
+  id: string
+): Promise<RecurringRule | undefined> => {
+  const rules = await listRecurringRules();
+  return rules.find((rule) => rule.id === id);
+};
+
+/** Creates the rule, or replaces the stored rule with the same id. */
+export const saveRecurringRule = async (
+  rule: RecurringRule
+): Promise<RecurringRule[]> => {
+  const rules = await listRecurringRules();
+  const updatedRules = rules.some((r) => r.id === rule.id)
+    ? rules.map((r) => (r.id === rule.id ? rule : r))
+    : [...rules, rule];
+  await writeJSON(RECURRING_KEY, updatedRules);
+  return updatedRules;
+};
+
+/** Deletes the rule; transactions it already created are kept. */
+export const deleteRecurringRule = async (
+  id: string
+): Promise<RecurringRule[]> => {
+  const rules = await listRecurringRules();
+  const updatedRules = rules.filter((rule) => rule.id !== id);
+  await writeJSON(RECURRING_KEY, updatedRules);
+  return updatedRules;
+};
+
+const updateRule = async (
+  id: string,
+  update: (rule: RecurringRule) => RecurringRule
+): Promise<RecurringRule[]> => {
+  const rules = await listRecurringRules();
+  const rule = rules.find((r) => r.id === id);
+  if (!rule) {
+    throw new Error(`Recurring rule ${id} not found`);
+  }
+  return saveRecurringRule(update(rule));
+};
+
+export const skipNextOccurrence = (id: string) =>
+  updateRule(id, (rule) => ({ ...rule, nextIndex: rule.nextIndex + 1 }));
+
+/**
+ * Pauses or resumes a rule. Occurrences that fell due while it was paused
+ * are dropped on resume rather than created in a burst.
+ */
+export const setRecurringRulePaused = (
+  id: string,
+  paused: boolean,
+  now: Date = new Date()
+) =>
+  updateRule(id, (rule) => {
+    if (paused || !rule.paused) {
+      return { ...rule, paused };
+    }
+    let nextIndex = rule.nextIndex;
+    while (occurrenceDate(rule, nextIndex) < now) {
+      nextIndex++;
+    }
+    return { ...rule, paused, nextIndex };
+  });
+
+let applying: Promise<Transaction[]> | null = null;
+
+const createDueTransactions = async (now: Date): Promise<Transaction[]> => {
+  const rules = await listRecurringRules();
+  const due: Omit<Transaction, "id">[] = [];
+  const updatedRules = rules.map((rule) => {
+    if (rule.paused) {
+      return rule;
+    }
+    const indexes = dueOccurrences(rule, rule.nextIndex, now);
+    indexes.forEach((index) => {
+      due.push({
+        merchant: rule.merchant,
+        amount: rule.amount,
+        date: occurrenceDate(rule, index).toISOString(),
+        categoryId: rule.categoryId,
+        accountId: rule.accountId,
+        recurringId: rule.id,
+      });
+    });
+    return { ...rule, nextIndex: rule.nextIndex + indexes.length };
+  });
+
+  if (due.length === 0) {
+    return [];
+  }
+  // One write, so the occurrences are never saved without the advanced
+  // rules and created again on the next run
+  return addTransactions(due, [[RECURRING_KEY, updatedRules]]);
+};
+
+/**
+ * Creates a transaction for every occurrence that has come due and returns
+ * the new transactions. Overlapping calls share one run so that screens
+ * loading at the same time cannot create an occurrence twice.
+ */
+export const applyDueRecurring = (
+  now: Date = new Date()
+): Promise<Transaction[]> => {
+  if (!applying) {
+    applying = createDueTransactions(now).finally(() => {
+      applying = null;
+    });
+  }
+  return applying;
+};
+
+const reassignRules = async (
+  matches: (rule: RecurringRule) => boolean,
+  changes: Partial<RecurringRule>
+) => {
+  const rules = await listRecurringRules();
+  await writeJSON(
+    RECURRING_KEY,
+    rules.map((rule) => (matches(rule) ? { ...rule, ...changes } : rule))
+  );
+};
+
+export const reassignRecurringCategory = (fromId: string, toId: string) =>
+  reassignRules((rule) => rule.categoryId === fromId, { categoryId: toId });
+
+/**
+ * The stored rules once account `fromId` is removed: moved to `toId`, or
+ * deleted with it. Returned as a storage entry so the caller saves it in the
+ * same write as the rest of the removal.
+ */
+export const recurringEntryWithoutAccount = async (
+  fromId: string,
+  toId?: string
+): Promise<[string, unknown]> => {
+  const rules = await listRecurringRules();
+  return [
+    RECURRING_KEY,
+    toId
+      ? rules.map((rule) =>
+          rule.accountId === fromId ? { ...rule, accountId: toId } : rule
+        )
+      : rules.filter((rule) => rule.accountId !== fromId),
+  ];
+};
@@ -0,0 +1,176 @@
+/**
+ * JSON storage on top of AsyncStorage, encrypted while the app lock is on.
+ *
+ * Threat model: the key is random and lives in the device keystore, not in
+ * the app's files, so a copy of those files (from a device backup or a lost
+ * phone's storage) holds nothing readable and nothing to guess a PIN
+ * against. The PIN only gates the app's screens, and its attempts are
+ * limited by the lockout in appLock. Someone who can run code on the
+ * unlocked device can read the keystore and so the data, PIN or not.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  CipherKey,
+  decryptText,
+  encryptText,
+  fromHex,
+  isEncryptedText,
+  randomBytes,
+  toHex,
+} from "@/lib/crypto";
+import { deleteSecret, readSecret, writeSecret } from "@/lib/keystore";
+
+/** Names the keystore entry with the storage key. */
+export const ENCRYPTION_INFO_KEY = "storage:encryption";
+
+// Read before storage is unlocked, so they can never be encrypted
+const PLAINTEXT_KEYS = new Set([ENCRYPTION_INFO_KEY, "appLock"]);
+
+interface EncryptionInfo {
+  /** Keystore entry holding the hex encryption key followed by the MAC key. */
+  keyId: string;
+}
+
+// Held in memory only, from unlock until the app process ends
+let cipherKey: CipherKey | null = null;
+
+// Plaintext of the values read or written since unlock, next to the stored
+// text it belongs to. Decrypting the whole transaction list is slow, and
+// screens read it on every focus; a stored value that changed behind our
+// back no longer matches and is decrypted again.
+const plaintextCache = new Map<string, { stored: string; text: string }>();
+
+const decode = (key: string, stored: string): string => {
+  if (!isEncryptedText(stored)) {
+    return stored;
+  }
+  if (!cipherKey) {
+    throw new Error(`Storage is locked; cannot read "${key}"`);
+  }
+  const cached = plaintextCache.get(key);
+  if (cached?.stored === stored) {
+    return cached.text;
+  }
+  const text = decryptText(stored, cipherKey);
+  plaintextCache.set(key, { stored, text });
+  return text;
+};
+
+const encode = (
+  key: string,
+  text: string,
+  withKey: CipherKey | null = cipherKey
+): string => {
+  if (!withKey || PLAINTEXT_KEYS.has(key)) {
+    return text;
+  }
+  const stored = encryptText(text, withKey);
+  plaintextCache.set(key, { stored, text });
+  return stored;
+};
+
+/** Reads a JSON value from storage, or `fallback` when the key is absent. */
+export const readJSON = async <T>(key: string, fallback: T): Promise<T> => {
+  const stored = await AsyncStorage.getItem(key);
+  return stored === null ? fallback : (JSON.parse(decode(key, stored)) as T);
+};
+
+export const writeJSON = async (key: string, value: unknown) => {
+  await AsyncStorage.setItem(key, encode(key, JSON.stringify(value)));
+};
+
+/** Writes several values in one storage call, so they land together. */
+export const writeJSONEntries = async (entries: [string, unknown][]) => {
+  await AsyncStorage.multiSet(
+    entries.map(([key, value]) => [key, encode(key, JSON.stringify(value))])
+  );
+};
+
+// 32 bytes of encryption key, then 32 of MAC key
+const toCipherKey = (bytes: Uint8Array): CipherKey => ({
+  encryptionKey: bytes.slice(0, 32),
+  macKey: bytes.slice(32),
+});
+
+const readEncryptionInfo = async () => {
+  const stored = await AsyncStorage.getItem(ENCRYPTION_INFO_KEY);
+  return stored === null ? null : (JSON.parse(stored) as EncryptionInfo);
+};
+
+/**
+ * Loads the storage key from the keystore so encrypted values can be read.
+ * Does nothing for unencrypted storage.
+ */
+export const unlockStorage = async () => {
+  const info = await readEncryptionInfo();
+  if (!info) {
+    return;
+  }
+  const stored = await readSecret(info.keyId);
+  if (stored === null) {
+    throw new Error("The storage key is missing from the keystore");
+  }
+  cipherKey = toCipherKey(fromHex(stored));
+};
+
+/**
+ * Rewrites every stored value under a new random key, or back to plaintext
+ * when `encrypt` is false. Plaintext data from before encryption is picked
+ * up the same way. `alongside` is written in the same call, so settings that
+ * turn the lock on or off never disagree with the data.
+ */
+export const reencryptStorage = async (
+  encrypt: boolean,
+  alongside: [string, unknown][] = []
+) => {
+  const keys = (await AsyncStorage.getAllKeys()).filter(
+    (key) => !PLAINTEXT_KEYS.has(key)
+  );
+  const entries = await AsyncStorage.multiGet(keys);
+  // Decrypt everything first so a locked store fails before any write
+  const plaintext = entries
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([key, value]) => [key, decode(key, value)] as const);
+  plaintextCache.clear();
+
+  const previous = await readEncryptionInfo();
+  let nextKey: CipherKey | null = null;
+  let info: EncryptionInfo | null = null;
+  if (encrypt) {
+    const bytes = randomBytes(64);
+    nextKey = toCipherKey(bytes);
+    info = { keyId: `storage-key-${toHex(randomBytes(8))}` };
+    // Under a new name, so the old key still reads the old data if the app
+    // stops before the data is rewritten
+    await writeSecret(info.keyId, toHex(bytes));
+  }
+
+  await AsyncStorage.multiSet([
+    ...plaintext.map(([key, text]): [string, string] => [
+      key,
+      encode(key, text, nextKey),
+    ]),
+    ...alongside.map(([key, value]): [string, string] => [
+      key,
+      encode(key, JSON.stringify(value), nextKey),
+    ]),
+    ...(info
+      ? [[ENCRYPTION_INFO_KEY, JSON.stringify(info)] as [string, string]]
+      : []),
+  ]);
+  if (!info) {
+    await AsyncStorage.removeItem(ENCRYPTION_INFO_KEY);
+  }
+  cipherKey = nextKey;
+  if (previous) {
+    await deleteSecret(previous.keyId);
+  }
+};
+
+/** Forgets the storage key, as a restart would. */
+export const resetStorageKeyForTesting = () => {
+  cipherKey = null;
+  plaintextCache.clear();
+};
@@ -0,0 +1,33 @@
+import { Transaction } from "@/lib/transactionRepository";
+
+/**
+ * Splits comma-separated input into tags, dropping blanks and repeats. Tags
+ * that differ only in case count as repeats; the first spelling is kept.
+ */
+export const parseTags = (text: string): string[] => {
+  const tags: string[] = [];
+  text.split(",").forEach((part) => {
+    const tag = part.trim().replace(/\s+/g, " ");
+    if (tag && !tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag);
+    }
+  });
+  return tags;
+};
+
+export const formatTags = (tags: string[]): string => tags.join(", ");
+
+/** Every tag in use, most used first, for suggestions. */
+export const tagsInUse = (transactions: Transaction[]): string[] => {
+  const counts = new Map<string, { tag: string; count: number }>();
+  transactions.forEach((transaction) =>
+    transaction.tags?.forEach((tag) => {
+      const key = tag.toLowerCase();
+      const entry = counts.get(key) ?? { tag, count: 0 };
+      counts.set(key, { ...entry, count: entry.count + 1 });
+    })
+  );
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .map((entry) => entry.tag);
+};
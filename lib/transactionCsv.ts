@@ -0,0 +1,198 @@
+import {
+  Category,
+  OTHER_EXPENSE_CATEGORY_ID,
+  OTHER_INCOME_CATEGORY_ID,
+} from "@/constants/Categories";
+import { Account, DEFAULT_CURRENCY } from "@/constants/Accounts";
+import { toCsv } from "@/lib/csv";
+import { formatPlainAmount, parseMoney } from "@/lib/money";
+import {
+  isTransfer,
+  Transaction,
+  TRANSFER_CATEGORY_ID,
+} from "@/lib/transactionRepository";
+
+export const EXPORT_HEADERS = [
+  "Date",
+  "Merchant",
+  "Amount",
+  "Category",
+  "Account",
+  "Currency",
+];
+
+/** Amounts are written with a "." decimal point and no grouping. */
+export const exportTransactionsCsv = (
+  transactions: Transaction[],
+  categories: Category[],
+  accounts: Account[]
+): string =>
+  toCsv([
+    EXPORT_HEADERS,
+    ...transactions.map((transaction) => {
+      const account = accounts.find((a) => a.id === transaction.accountId);
+      const category = isTransfer(transaction)
+        ? "Transfer"
+        : categories.find((c) => c.id === transaction.categoryId)?.name ?? "";
+      return [
+        transaction.date,
+        transaction.merchant,
+        formatPlainAmount(
+          transaction.amount,
+          account?.currency ?? DEFAULT_CURRENCY,
+          "."
+        ),
+        category,
+        account?.name ?? "",
+        account?.currency ?? "",
+      ];
+    }),
+  ]);
+
+export type ImportField = "date" | "merchant" | "amount" | "category";
+
+export const importFields: {
+  field: ImportField;
+  label: string;
+  required: boolean;
+}[] = [
+  { field: "date", label: "Date", required: true },
+  { field: "merchant", label: "Merchant", required: true },
+  { field: "amount", label: "Amount", required: true },
+  { field: "category", label: "Category", required: false },
+];
+
+/** Column index for each field; unmapped fields are left out. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+const HEADER_NAMES: Record<ImportField, string[]> = {
+  date: ["date", "posted", "transaction date"],
+  merchant: ["merchant", "description", "payee", "name", "memo"],
+  amount: ["amount", "value"],
+  category: ["category"],
+};
+
+/** Pre-fills the mapping from header names such as the ones we export. */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  importFields.forEach(({ field }) => {
+    const index = headers.findIndex((header) =>
+      HEADER_NAMES[field].includes(header.trim().toLowerCase())
+    );
+    if (index >= 0) {
+      mapping[field] = index;
+    }
+  });
+  return mapping;
+};
+
+export interface ImportRow {
+  /** 1-based line in the file, counting the header row. */
+  line: number;
+  transaction?: Omit<Transaction, "id">;
+  error?: string;
+}
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+// Timestamps need an offset so they cannot be read in the wrong time zone
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Reads the date formats the importer accepts: "2025-03-25", read as local
+ * midnight, or an ISO 8601 timestamp with an offset as written by our own
+ * export. Anything else, including days that do not exist, gives null.
+ */
+const parseImportDate = (text: string): string | null => {
+  const dateOnly = text.match(DATE_ONLY_PATTERN);
+  const timestamp = text.match(TIMESTAMP_PATTERN);
+  const parts = dateOnly ?? timestamp;
+  if (!parts) {
+    return null;
+  }
+  const [year, month, day] = parts.slice(1, 4).map((n) => parseInt(n, 10));
+  const calendarDay = new Date(year, month - 1, day);
+  if (
+    calendarDay.getFullYear() !== year ||
+    calendarDay.getMonth() !== month - 1 ||
+    calendarDay.getDate() !== day
+  ) {
+    return null;
+  }
+  if (dateOnly) {
+    // `new Date("2025-03-25")` would read this as UTC midnight
+    return calendarDay.toISOString();
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Accepts currency symbols and accounting-style "(4.25)" negatives on top
+// of what `parseMoney` reads.
+const parseImportAmount = (text: string, currency: string): number | null => {
+  const cleaned = text.replace(/[$€£¥]/g, "").trim();
+  const negative = /^\(.*\)$/.test(cleaned);
+  const amount = parseMoney(
+    negative ? cleaned.slice(1, -1) : cleaned,
+    currency
+  );
+  return negative && amount !== null ? -amount : amount;
+};
+
+/**
+ * Turns CSV data rows (header excluded) into transactions for `accountId`,
+ * reading amounts in that account's `currency`.
+ * Rows that cannot be read carry an `error` instead of a transaction.
+ * Categories are matched by name; unknown or missing ones fall back to the
+ * "Other" category for the amount's sign.
+ */
+export const parseImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  accountId: string,
+  currency: string,
+  categories: Category[]
+): ImportRow[] =>
+  rows.map((row, index) => {
+    const line = index + 2;
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? "" : (row[column] ?? "").trim();
+    };
+
+    const date = parseImportDate(value("date"));
+    if (!date) {
+      return { line, error: `Unrecognized date "${value("date")}"` };
+    }
+    const amount = parseImportAmount(value("amount"), currency);
+    if (amount === null) {
+      return { line, error: `Unrecognized amount "${value("amount")}"` };
+    }
+    const merchant = value("merchant");
+    if (!merchant) {
+      return { line, error: "Missing merchant" };
+    }
+
+    const type = amount < 0 ? "expense" : "income";
+    const categoryName = value("category").toLowerCase();
+    const category = categories.find(
+      (c) =>
+        c.type === type &&
+        c.id !== TRANSFER_CATEGORY_ID &&
+        c.name.toLowerCase() === categoryName
+    );
+    return {
+      line,
+      transaction: {
+        merchant,
+        amount,
+        date,
+        categoryId:
+          category?.id ??
+          (type === "expense"
+            ? OTHER_EXPENSE_CATEGORY_ID
+            : OTHER_INCOME_CATEGORY_ID),
+        accountId,
+      },
+    };
+  });
@@ -0,0 +1,169 @@
+import { Category } from "@/constants/Categories";
+import { formatCalendarDate } from "@/lib/dates";
+import { formatAmount } from "@/lib/money";
+import { categoryLines, Transaction } from "@/lib/transactionRepository";
+
+export type TransactionKind = "all" | "income" | "expense";
+
+export interface TransactionFilters {
+  /** Case-insensitive text to look for in the merchant. */
+  query: string;
+  /** Empty means every category. */
+  categoryIds: string[];
+  kind: TransactionKind;
+  /** ISO 8601, inclusive. */
+  fromDate?: string;
+  /** ISO 8601, inclusive. */
+  toDate?: string;
+  /** Minor units, compared against the absolute amount. */
+  minAmount?: number;
+  maxAmount?: number;
+  /** The currency the amount bounds are in. */
+  amountCurrency?: string;
+}
+
+export const emptyFilters: TransactionFilters = {
+  query: "",
+  categoryIds: [],
+  kind: "all",
+};
+
+/**
+ * The filters that apply to an account in `currency`: amount bounds typed
+ * for another currency are left out, so the same number of minor units is
+ * never read as a different amount.
+ */
+export const filtersForCurrency = (
+  filters: TransactionFilters,
+  currency: string
+): TransactionFilters => {
+  if (
+    (filters.minAmount === undefined && filters.maxAmount === undefined) ||
+    filters.amountCurrency === currency
+  ) {
+    return filters;
+  }
+  const { minAmount, maxAmount, amountCurrency, ...rest } = filters;
+  return rest;
+};
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  /** The filters with just this one removed. */
+  clear: (filters: TransactionFilters) => TransactionFilters;
+}
+
+/**
+ * Tests a transaction against every filter at once. Stored dates are all
+ * produced by `toISOString`, so date bounds compare as plain strings.
+ */
+export const transactionMatcher = (
+  filters: TransactionFilters
+): ((transaction: Transaction) => boolean) => {
+  const query = filters.query.trim().toLowerCase();
+  const categoryIds =
+    filters.categoryIds.length > 0 ? new Set(filters.categoryIds) : null;
+  const { kind, fromDate, toDate, minAmount, maxAmount } = filters;
+
+  return (transaction) => {
+    if (kind === "income" && transaction.amount < 0) return false;
+    if (kind === "expense" && transaction.amount >= 0) return false;
+    if (
+      categoryIds &&
+      !categoryLines(transaction).some((line) =>
+        categoryIds.has(line.categoryId)
+      )
+    ) {
+      return false;
+    }
+    if (fromDate !== undefined && transaction.date < fromDate) return false;
+    if (toDate !== undefined && transaction.date > toDate) return false;
+    const amount = Math.abs(transaction.amount);
+    if (minAmount !== undefined && amount < minAmount) return false;
+    if (maxAmount !== undefined && amount > maxAmount) return false;
+    return !query || transaction.merchant.toLowerCase().includes(query);
+  };
+};
+
+/** Applies every filter in a single pass. */
+export const filterTransactions = (
+  transactions: Transaction[],
+  filters: TransactionFilters
+): Transaction[] => transactions.filter(transactionMatcher(filters));
+
+/**
+ * One removable chip per active filter, in the order they are shown. Amount
+ * bounds are labelled in `currency`.
+ */
+export const describeFilters = (
+  filters: TransactionFilters,
+  categories: Category[],
+  currency: string
+): FilterChip[] => {
+  const chips: FilterChip[] = [];
+  if (filters.query.trim()) {
+    chips.push({
+      key: "query",
+      label: `"${filters.query.trim()}"`,
+      clear: (f) => ({ ...f, query: "" }),
+    });
+  }
+  if (filters.kind !== "all") {
+    chips.push({
+      key: "kind",
+      label: filters.kind === "income" ? "Income" : "Expenses",
+      clear: (f) => ({ ...f, kind: "all" }),
+    });
+  }
+  filters.categoryIds.forEach((id) => {
+    chips.push({
+      key: `category:${id}`,
+      label: categories.find((c) => c.id === id)?.name ?? "Unknown category",
+      clear: (f) => ({
+        ...f,
+        categoryIds: f.categoryIds.filter((categoryId) => categoryId !== id),
+      }),
+    });
+  });
+  if (filters.fromDate !== undefined || filters.toDate !== undefined) {
+    const from = filters.fromDate
+      ? formatCalendarDate(new Date(filters.fromDate))
+      : "";
+    const to = filters.toDate
+      ? formatCalendarDate(new Date(filters.toDate))
+      : "";
+    chips.push({
+      key: "dates",
+      label:
+        from && to ? `${from} – ${to}` : from ? `From ${from}` : `Until ${to}`,
+      clear: (f) => ({ ...f, fromDate: undefined, toDate: undefined }),
+    });
+  }
+  if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+    const min =
+      filters.minAmount !== undefined
+        ? formatAmount(filters.minAmount, currency)
+        : undefined;
+    const max =
+      filters.maxAmount !== undefined
+        ? formatAmount(filters.maxAmount, currency)
+        : undefined;
+    chips.push({
+      key: "amount",
+      label:
+        min !== undefined && max !== undefined
+          ? `${min} – ${max}`
+          : min !== undefined
+          ? `≥ ${min}`
+          : `≤ ${max}`,
+      clear: (f) => ({
+        ...f,
+        minAmount: undefined,
+        maxAmount: undefined,
+        amountCurrency: undefined,
+      }),
+    });
+  }
+  return chips;
+};
@@ -0,0 +1,959 @@
+import { DEFAULT_CURRENCY } from "@/constants/Accounts";
+import {
+  defaultCategories,
+  OTHER_EXPENSE_CATEGORY_ID,
+  OTHER_INCOME_CATEGORY_ID,
+} from "@/constants/Categories";
+import { parseLegacyDate } from "@/lib/dates";
+import { toMinorUnits } from "@/lib/money";
+import { readJSON, writeJSON, writeJSONEntries } from "@/lib/storage";
+
+/** One category's share of a split transaction. */
+export interface TransactionSplit {
+  categoryId: string;
+  /** Signed minor units, with the same sign as the transaction's amount. */
+  amount: number;
+}
+
+/**
+ * Where a transaction stands against the bank's records: not yet seen on a
+ * statement, seen (cleared), or locked in by a finished reconciliation.
+ */
+export type TransactionStatus = "uncleared" | "cleared" | "reconciled";
+
+export interface Transaction {
+  id: number;
+  merchant: string;
+  /** Signed integer minor units (cents) of the account's currency. */
+  amount: number;
+  /** ISO 8601 timestamp; display labels are derived at render time. */
+  date: string;
+  /** For a split transaction, the category of its largest line. */
+  categoryId: string;
+  accountId: string;
+  /**
+   * Set when the amount is shared between categories: two or more lines that
+   * add up to `amount`.
+   */
+  splits?: TransactionSplit[];
+  /** Shared by the debit and credit legs of a transfer between accounts. */
+  transferId?: string;
+  /**
+   * On both legs of a transfer between currencies: units of the receiving
+   * account's currency bought by one unit of the sending account's.
+   */
+  exchangeRate?: number;
+  /** The recurring rule that created this transaction, if any. */
+  recurringId?: string;
+  /** Bank id (FITID) of the OFX/QFX record this was imported from. */
+  fitId?: string;
+  note?: string;
+  /** User-defined labels, in the order they were typed. */
+  tags?: string[];
+  /** File names of receipt images; see lib/receipts. */
+  receipts?: string[];
+  /** When the transaction was moved to the trash (ISO 8601). */
+  deletedAt?: string;
+  /** Unset means "uncleared". */
+  status?: TransactionStatus;
+}
+
+export interface TransferDetails {
+  transferId?: string;
+  fromAccountId: string;
+  toAccountId: string;
+  /** Positive amount in minor units of the sending account's currency. */
+  amount: number;
+  /** Amount received when the accounts use different currencies. */
+  toAmount?: number;
+  /** The rate `toAmount` was worked out with, kept on both legs. */
+  exchangeRate?: number;
+  date: string;
+  fromMerchant: string;
+  toMerchant: string;
+}
+
+// Transfer legs are not income or spending, so they use a category that is
+// never offered in the category pickers.
+export const TRANSFER_CATEGORY_ID = "transfer";
+
+export const isTransfer = (transaction: Transaction): boolean =>
+  transaction.transferId !== undefined;
+
+export const getStatus = (transaction: Transaction): TransactionStatus =>
+  transaction.status ?? "uncleared";
+
+/**
+ * The amounts reports count per category: each split line on its own, or
+ * the whole amount under the transaction's category.
+ */
+export const categoryLines = (transaction: Transaction): TransactionSplit[] =>
+  transaction.splits ?? [
+    { categoryId: transaction.categoryId, amount: transaction.amount },
+  ];
+
+/** Why `splits` cannot be saved with `amount`, or undefined if they can. */
+export const splitError = (
+  amount: number,
+  splits: TransactionSplit[]
+): string | undefined => {
+  if (splits.length < 2) {
+    return "A split needs at least two lines";
+  }
+  if (splits.some((split) => split.amount === 0 || split.amount * amount < 0)) {
+    return "Every split line needs an amount";
+  }
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  if (total !== amount) {
+    return "The split lines must add up to the total";
+  }
+  return undefined;
+};
+
+/**
+ * Gives `transaction` these split lines, merging lines with the same
+ * category. A single remaining line becomes a plain category again.
+ */
+export const applySplits = (
+  transaction: Transaction,
+  lines: TransactionSplit[]
+): Transaction => {
+  const merged: TransactionSplit[] = [];
+  lines.forEach((split) => {
+    const existing = merged.find((m) => m.categoryId === split.categoryId);
+    if (existing) {
+      existing.amount += split.amount;
+    } else {
+      merged.push({ ...split });
+    }
+  });
+
+  const { splits, ...plain } = transaction;
+  if (merged.length < 2) {
+    return { ...plain, categoryId: merged[0]?.categoryId ?? plain.categoryId };
+  }
+  const largest = merged.reduce((a, b) =>
+    Math.abs(b.amount) > Math.abs(a.amount) ? b : a
+  );
+  return { ...plain, categoryId: largest.categoryId, splits: merged };
+};
+
+/** The fields of a transaction the edit screen changes. */
+export type TransactionEdits = Pick<
+  Transaction,
+  | "merchant"
+  | "amount"
+  | "date"
+  | "categoryId"
+  | "accountId"
+  | "note"
+  | "tags"
+  | "receipts"
+>;
+
+/**
+ * `transaction` with `edits` applied. Editable fields left out of `edits` are
+ * cleared, along with any splits; everything else (the status, the import's
+ * `fitId`, the recurring rule…) is kept.
+ */
+export const applyEdits = (
+  transaction: Transaction,
+  edits: TransactionEdits
+): Transaction => {
+  const { splits, note, tags, receipts, ...kept } = transaction;
+  return { ...kept, ...edits };
+};
+
+const checkSplits = (transaction: Transaction) => {
+  const error =
+    transaction.splits && splitError(transaction.amount, transaction.splits);
+  if (error) {
+    throw new Error(error);
+  }
+};
+
+export const TRANSACTIONS_KEY = "transactions";
+/** Per-account totals, rewritten with every write of the transactions. */
+export const BALANCES_KEY = "transactions:balances";
+
+/** Amounts outside the trash, summed per account id. */
+export type AccountTotals = Record<string, number>;
+
+/** Days a deleted transaction stays in the trash before it is purged. */
+export const TRASH_RETENTION_DAYS = 30;
+export const SCHEMA_VERSION_KEY = "transactions:schemaVersion";
+
+// Icons used by the old sample data that no built-in category had
+const LEGACY_ICON_CATEGORIES: Record<string, string> = {
+  "cafe-outline": "food",
+  "flash-outline": "bills",
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+// Ids at or above this value (Sep 2001) are Date.now() timestamps
+const MIN_TIMESTAMP_ID = 1e12;
+
+// Stores migrated together with transactions when amounts change units.
+// Their repositories import this module, so the keys are repeated here.
+const RELATED_KEYS = ["accounts", "budgets", "recurring"] as const;
+
+/** A stored record of unknown version; migrations narrow what they read. */
+export type StoredRecord = Record<string, unknown>;
+
+export type RelatedStores = Partial<
+  Record<(typeof RELATED_KEYS)[number], StoredRecord[]>
+>;
+
+interface Migration {
+  version: number;
+  /** May also replace entries of `related`; absent stores stay absent. */
+  migrate: (records: StoredRecord[], related: RelatedStores) => StoredRecord[];
+}
+
+// Migrations run in order for every version above the stored one. Append new
+// entries here whenever the stored transaction shape changes.
+export const migrations: Migration[] = [
+  {
+    // Version 1 only starts tracking the schema version; data written before
+    // versioning already matches the Transaction shape.
+    version: 1,
+    migrate: (records) => records,
+  },
+  {
+    // Version 2 replaces display labels ("Today, 8:30 AM") with ISO
+    // timestamps. Ids created by the add screen are Date.now() values, which
+    // gives a better anchor for relative labels than the migration time.
+    version: 2,
+    migrate: (records) => {
+      const now = new Date();
+      return records.map((record) => {
+        if (
+          typeof record.date === "string" &&
+          ISO_DATE_PATTERN.test(record.date)
+        ) {
+          return record;
+        }
+        const reference =
+          typeof record.id === "number" && record.id > MIN_TIMESTAMP_ID
+            ? new Date(record.id)
+            : now;
+        return {
+          ...record,
+          date:
+            parseLegacyDate(String(record.date), reference) ??
+            reference.toISOString(),
+        };
+      });
+    },
+  },
+  {
+    // Version 3 stores the category id instead of only its icon. The icon
+    // match is ambiguous, but it is what the edit screen used to guess with.
+    version: 3,
+    migrate: (records) =>
+      records.map(({ icon, ...record }) => {
+        if (record.categoryId) {
+          return record;
+        }
+        const type = Number(record.amount) >= 0 ? "income" : "expense";
+        const category =
+          defaultCategories.find((c) => c.icon === icon && c.type === type)
+            ?.id ??
+          (type === "expense" && typeof icon === "string"
+            ? LEGACY_ICON_CATEGORIES[icon]
+            : undefined);
+        return {
+          ...record,
+          categoryId:
+            category ??
+            (type === "income"
+              ? OTHER_INCOME_CATEGORY_ID
+              : OTHER_EXPENSE_CATEGORY_ID),
+        };
+      }),
+  },
+  {
+    // Version 4 stores amounts as integer minor units instead of floats, so
+    // sums no longer drift. Opening balances, budget limits and recurring
+    // amounts switch units in the same step. Budgets have no account and use
+    // the default currency.
+    version: 4,
+    migrate: (records, related) => {
+      const currencies = new Map<unknown, string>(
+        (related.accounts ?? []).map((account) => [
+          account.id,
+          String(account.currency),
+        ])
+      );
+      const toMinor = (amount: unknown, accountId: unknown) =>
+        toMinorUnits(
+          Number(amount),
+          currencies.get(accountId) ?? DEFAULT_CURRENCY
+        );
+
+      related.accounts = related.accounts?.map((account) => ({
+        ...account,
+        openingBalance: toMinor(account.openingBalance, account.id),
+      }));
+      related.budgets = related.budgets?.map((budget) => ({
+        ...budget,
+        limit: toMinorUnits(Number(budget.limit), DEFAULT_CURRENCY),
+      }));
+      related.recurring = related.recurring?.map((rule) => ({
+        ...rule,
+        amount: toMinor(rule.amount, rule.accountId),
+      }));
+      return records.map((record) => ({
+        ...record,
+        amount: toMinor(record.amount, record.accountId),
+      }));
+    },
+  },
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Runs every migration above `fromVersion`, replacing entries of `related` as
+ * it goes. Used for stored data and for backups made by older versions.
+ */
+export const migrateRecords = (
+  records: StoredRecord[],
+  fromVersion: number,
+  related: RelatedStores
+): StoredRecord[] =>
+  migrations
+    .filter((migration) => migration.version > fromVersion)
+    .reduce(
+      (migrated, migration) => migration.migrate(migrated, related),
+      records
+    );
+
+const daysAgoAt = (now: Date, days: number, hours: number, minutes: number) =>
+  new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() - days,
+    hours,
+    minutes
+  ).toISOString();
+
+const createDefaultTransactions = (now: Date): Transaction[] => [
+  {
+    id: 1,
+    merchant: "Coffee Shop",
+    amount: -450,
+    date: daysAgoAt(now, 0, 8, 30),
+    categoryId: "food",
+    accountId: "chequing",
+  },
+  {
+    id: 2,
+    merchant: "Supermarket",
+    amount: -6520,
+    date: daysAgoAt(now, 1, 18, 15),
+    categoryId: "shopping",
+    accountId: "chequing",
+  },
+  {
+    id: 3,
+    merchant: "Salary Deposit",
+    amount: 250000,
+    date: daysAgoAt(now, 3, 9, 0),
+    categoryId: "salary",
+    accountId: "chequing",
+  },
+  {
+    id: 4,
+    merchant: "Electricity Bill",
+    amount: -8575,
+    date: daysAgoAt(now, 5, 12, 0),
+    categoryId: "bills",
+    accountId: "chequing",
+  },
+  {
+    id: 5,
+    merchant: "Interest Payment",
+    amount: 2550,
+    date: daysAgoAt(now, 8, 0, 0),
+    categoryId: "interest",
+    accountId: "savings",
+  },
+  {
+    id: 6,
+    merchant: "Savings Deposit",
+    amount: 50000,
+    date: daysAgoAt(now, 13, 10, 0),
+    categoryId: OTHER_INCOME_CATEGORY_ID,
+    accountId: "savings",
+  },
+];
+
+export const sumByAccount = (transactions: Transaction[]): AccountTotals => {
+  const totals: AccountTotals = {};
+  transactions.forEach((transaction) => {
+    if (transaction.deletedAt === undefined) {
+      totals[transaction.accountId] =
+        (totals[transaction.accountId] ?? 0) + transaction.amount;
+    }
+  });
+  return totals;
+};
+
+// The balance index is written in the same call as the transactions, so the
+// two cannot drift apart and screens never add up the whole history.
+const transactionEntries = (
+  transactions: Transaction[]
+): [string, unknown][] => [
+  [TRANSACTIONS_KEY, transactions],
+  [BALANCES_KEY, sumByAccount(transactions)],
+];
+
+let initialization: Promise<void> | null = null;
+
+const migrateStorage = async () => {
+  const [storedTransactions, storedVersion] = await Promise.all([
+    readJSON<StoredRecord[] | null>(TRANSACTIONS_KEY, null),
+    readJSON<number | null>(SCHEMA_VERSION_KEY, null),
+  ]);
+
+  if (storedTransactions === null) {
+    // First launch: start with the sample data at the current schema version
+    await writeJSONEntries([
+      ...transactionEntries(createDefaultTransactions(new Date())),
+      [SCHEMA_VERSION_KEY, SCHEMA_VERSION],
+    ]);
+    return;
+  }
+
+  const currentVersion = storedVersion ?? 0;
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Stored transactions use schema version ${currentVersion}, newer than supported version ${SCHEMA_VERSION}`
+    );
+  }
+  if (currentVersion === SCHEMA_VERSION) {
+    return;
+  }
+
+  const related: RelatedStores = {};
+  const relatedValues = await Promise.all(
+    RELATED_KEYS.map((key) => readJSON<StoredRecord[] | null>(key, null))
+  );
+  RELATED_KEYS.forEach((key, i) => {
+    const value = relatedValues[i];
+    if (value !== null) {
+      related[key] = value;
+    }
+  });
+
+  // After the last migration the records have the current Transaction shape
+  const records = migrateRecords(
+    storedTransactions,
+    currentVersion,
+    related
+  ) as unknown as Transaction[];
+
+  await writeJSONEntries([
+    ...Object.entries(related).filter(([, value]) => value !== undefined),
+    ...transactionEntries(records),
+    [SCHEMA_VERSION_KEY, SCHEMA_VERSION],
+  ]);
+};
+
+/**
+ * Brings stored transactions up to the current schema version. Safe to call
+ * repeatedly; the work only happens once per app session.
+ */
+export const initializeTransactions = (): Promise<void> => {
+  if (!initialization) {
+    initialization = migrateStorage().catch((error) => {
+      initialization = null;
+      throw error;
+    });
+  }
+  return initialization;
+};
+
+const readTransactions = async (): Promise<Transaction[]> => {
+  await initializeTransactions();
+  return readJSON<Transaction[]>(TRANSACTIONS_KEY, []);
+};
+
+// Every read-modify-write of the transactions runs in this queue, one at a
+// time, so a slower change cannot write back a list that misses another's
+let queue: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(change: () => Promise<T>): Promise<T> => {
+  const result = queue.then(change);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+// `alongside` holds entries of other stores that must not be saved without
+// this change, or this change without them
+const writeTransactions = (
+  transactions: Transaction[],
+  alongside: [string, unknown][] = []
+) => writeJSONEntries([...transactionEntries(transactions), ...alongside]);
+
+/**
+ * Per-account totals from the balance index. Data saved before the index
+ * existed gets one full pass to build it.
+ */
+export const getAccountTotals = async (): Promise<AccountTotals> => {
+  await initializeTransactions();
+  const totals = await readJSON<AccountTotals | null>(BALANCES_KEY, null);
+  if (totals) {
+    return totals;
+  }
+  return serialized(async () => {
+    const rebuilt = sumByAccount(await readTransactions());
+    await writeJSON(BALANCES_KEY, rebuilt);
+    return rebuilt;
+  });
+};
+
+// Everything outside the trash screen only sees transactions not in the trash
+const withoutTrash = (transactions: Transaction[]) =>
+  transactions.filter((transaction) => transaction.deletedAt === undefined);
+
+/** All transactions outside the trash, newest first. */
+export const listTransactions = async (): Promise<Transaction[]> => {
+  const transactions = withoutTrash(await readTransactions());
+  return transactions.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export const getTransaction = async (
+  id: number
+): Promise<Transaction | undefined> => {
+  const transactions = withoutTrash(await readTransactions());
+  return transactions.find((transaction) => transaction.id === id);
+};
+
+export const addTransaction = (
+  transaction: Transaction
+): Promise<Transaction[]> =>
+  serialized(async () => {
+    checkSplits(transaction);
+    const transactions = await readTransactions();
+    const updatedTransactions = [transaction, ...transactions];
+    await writeTransactions(updatedTransactions);
+    return withoutTrash(updatedTransactions);
+  });
+
+/**
+ * Stores several new transactions with a single write, giving each one an
+ * id that no stored transaction uses. Returns the stored copies. Entries for
+ * other stores in `alongside` are saved in the same write.
+ */
+export const addTransactions = (
+  newTransactions: Omit<Transaction, "id">[],
+  alongside: [string, unknown][] = []
+): Promise<Transaction[]> =>
+  serialized(async () => {
+    const transactions = await readTransactions();
+    const firstId = transactions.reduce(
+      (nextId, transaction) => Math.max(nextId, transaction.id + 1),
+      Date.now()
+    );
+    const created = newTransactions.map((transaction, index) => ({
+      ...transaction,
+      id: firstId + index,
+    }));
+    await writeTransactions([...created, ...transactions], alongside);
+    return created;
+  });
+
+/**
+ * Replaces a stored transaction. For a transfer leg, the other leg is kept
+ * in step: same date and the opposite amount, scaled by the ratio between
+ * the legs when the transfer was between currencies.
+ */
+export const updateTransaction = (
+  transaction: Transaction
+): Promise<Transaction[]> =>
+  serialized(async () => {
+    checkSplits(transaction);
+    const transactions = await readTransactions();
+    const previous = transactions.find((t) => t.id === transaction.id);
+    if (!previous) {
+      throw new Error(`Transaction ${transaction.id} not found`);
+    }
+    const updatedTransactions = transactions.map((t) => {
+      if (t.id === transaction.id) {
+        return transaction;
+      }
+      if (transaction.transferId && t.transferId === transaction.transferId) {
+        const ratio =
+          t.exchangeRate !== undefined && previous.amount !== 0
+            ? -t.amount / previous.amount
+            : 1;
+        return {
+          ...t,
+          amount: -Math.round(transaction.amount * ratio),
+          date: transaction.date,
+        };
+      }
+      return t;
+    });
+    await writeTransactions(updatedTransactions);
+    return withoutTrash(updatedTransactions);
+  });
+
+// The transaction with `id` plus the other leg if it is a transfer
+const isSameEntry = (transactions: Transaction[], id: number) => {
+  const transferId = transactions.find((t) => t.id === id)?.transferId;
+  return (transaction: Transaction) =>
+    transaction.id === id ||
+    (transferId !== undefined && transaction.transferId === transferId);
+};
+
+/**
+ * Moves a transaction to the trash, along with the other leg if it is a
+ * transfer. Returns the transactions still outside the trash.
+ */
+export const deleteTransaction = (
+  id: number,
+  now: Date = new Date()
+): Promise<Transaction[]> =>
+  serialized(async () => {
+    const transactions = await readTransactions();
+    const matches = isSameEntry(transactions, id);
+    const updatedTransactions = transactions.map((transaction) =>
+      matches(transaction) && transaction.deletedAt === undefined
+        ? { ...transaction, deletedAt: now.toISOString() }
+        : transaction
+    );
+    await writeTransactions(updatedTransactions);
+    return withoutTrash(updatedTransactions);
+  });
+
+/** Transactions in the trash, most recently deleted first. */
+export const listDeletedTransactions = async (): Promise<Transaction[]> => {
+  const transactions = await readTransactions();
+  return transactions
+    .filter((transaction) => transaction.deletedAt !== undefined)
+    .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+};
+
+/** Takes a transaction (and its transfer leg) back out of the trash. */
+export const restoreTransaction = (id: number) =>
+  serialized(async () => {
+    const transactions = await readTransactions();
+    const matches = isSameEntry(transactions, id);
+    await writeTransactions(
+      transactions.map((transaction) => {
+        if (!matches(transaction)) {
+          return transaction;
+        }
+        const { deletedAt, ...restored } = transaction;
+        return restored;
+      })
+    );
+  });
+
+/** Deletes a transaction in the trash (and its transfer leg) for good. */
+export const purgeTransaction = (id: number) =>
+  serialized(async () => {
+    const transactions = await readTransactions();
+    const matches = isSameEntry(transactions, id);
+    await writeTransactions(
+      transactions.filter(
+        (transaction) =>
+          transaction.deletedAt === undefined || !matches(transaction)
+      )
+    );
+  });
+
+/**
+ * Permanently deletes everything that has been in the trash for longer than
+ * `retentionDays`, or the whole trash when it is 0.
+ */
+export const purgeDeletedTransactions = (
+  now: Date = new Date(),
+  retentionDays: number = TRASH_RETENTION_DAYS
+) =>
+  serialized(async () => {
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - retentionDays);
+    const transactions = await readTransactions();
+    const kept = transactions.filter(
+      (transaction) =>
+        transaction.deletedAt === undefined ||
+        (retentionDays > 0 && transaction.deletedAt > cutoff.toISOString())
+    );
+    if (kept.length !== transactions.length) {
+      await writeTransactions(kept);
+    }
+  });
+
+/**
+ * Moves every transaction and split line in category `fromId` to category
+ * `toId`. Split lines that end up in the same category are combined.
+ */
+export const reassignCategory = (fromId: string, toId: string) =>
+  serialized(async () => {
+    const transactions = await readTransactions();
+    await writeTransactions(
+      transactions.map((transaction) => {
+        if (transaction.splits) {
+          return transaction.splits.some((split) => split.categoryId === fromId)
+            ? applySplits(
+                transaction,
+                transaction.splits.map((split) =>
+                  split.categoryId === fromId
+                    ? { ...split, categoryId: toId }
+                    : split
+                )
+              )
+            : transaction;
+        }
+        return transaction.categoryId === fromId
+          ? { ...transaction, categoryId: toId }
+          : transaction;
+      })
+    );
+  });
+
+// "uncleared" is stored by leaving the field out
+const withStatus = (
+  { status, ...transaction }: Transaction,
+  next: TransactionStatus
+): Transaction =>
+  next === "uncleared" ? transaction : { ...transaction, status: next };
+
+/**
+ * Sets the status of the transactions with these ids. Each leg of a transfer
+ * is reconciled with its own account, so legs are never changed together.
+ */
+export const setTransactionStatus = (
+  ids: number[],
+  status: TransactionStatus
+) =>
+  serialized(async () => {
+    const selected = new Set(ids);
+    const transactions = await readTransactions();
+    await writeTransactions(
+      transactions.map((transaction) =>
+        selected.has(transaction.id)
+          ? withStatus(transaction, status)
+          : transaction
+      )
+    );
+  });
+
+const statusOrder: TransactionStatus[] = ["uncleared", "cleared", "reconciled"];
+
+/**
+ * Keeps `keepId` and moves `duplicateId` to the trash, folding in what only
+ * the duplicate had: its note, tags, receipts, bank id and a status further
+ * along than the kept one's.
+ */
+export const mergeTransactions = (
+  keepId: number,
+  duplicateId: number,
+  now: Date = new Date()
+): Promise<Transaction[]> =>
+  serialized(async () => {
+    const transactions = await readTransactions();
+    const find = (id: number) =>
+      transactions.find((t) => t.id === id && t.deletedAt === undefined);
+    const kept = find(keepId);
+    const duplicate = find(duplicateId);
+    if (!kept || !duplicate || keepId === duplicateId) {
+      throw new Error("Transactions to merge not found");
+    }
+    if (isTransfer(kept) || isTransfer(duplicate)) {
+      throw new Error("Transfers cannot be merged");
+    }
+
+    const notes = Array.from(
+      new Set([kept.note, duplicate.note].filter((note) => note))
+    );
+    const tags = [...(kept.tags ?? [])];
+    duplicate.tags?.forEach((tag) => {
+      if (!tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+        tags.push(tag);
+      }
+    });
+    const receipts = Array.from(
+      new Set([...(kept.receipts ?? []), ...(duplicate.receipts ?? [])])
+    );
+    const fitId = kept.fitId ?? duplicate.fitId;
+    const merged = withStatus(
+      {
+        ...kept,
+        ...(notes.length > 0 ? { note: notes.join("\n\n") } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(receipts.length > 0 ? { receipts } : {}),
+        ...(fitId ? { fitId } : {}),
+      },
+      statusOrder[
+        Math.max(
+          statusOrder.indexOf(getStatus(kept)),
+          statusOrder.indexOf(getStatus(duplicate))
+        )
+      ]
+    );
+
+    const updatedTransactions = transactions.map((t) =>
+      t.id === keepId
+        ? merged
+        : t.id === duplicateId
+        ? { ...t, deletedAt: now.toISOString() }
+        : t
+    );
+    await writeTransactions(updatedTransactions);
+    return withoutTrash(updatedTransactions);
+  });
+
+// The surviving leg of a transfer becomes an ordinary transaction, filed as
+// other income or spending so it shows up in reports again.
+const detachTransferLeg = ({
+  transferId,
+  exchangeRate,
+  ...transaction
+}: Transaction): Transaction => ({
+  ...transaction,
+  categoryId:
+    transaction.amount < 0
+      ? OTHER_EXPENSE_CATEGORY_ID
+      : OTHER_INCOME_CATEGORY_ID,
+});
+
+/**
+ * Moves every transaction in account `fromId` to account `toId`. Transfers
+ * between the two would then go from an account to itself, so both of their
+ * legs become ordinary transactions. Entries in `alongside` are saved in the
+ * same write.
+ */
+export const reassignAccount = (
+  fromId: string,
+  toId: string,
+  alongside: [string, unknown][] = []
+) =>
+  serialized(async () => {
+    const transactions = await readTransactions();
+    const transferIdsIn = (accountId: string) =>
+      new Set(
+        transactions
+          .filter((t) => t.accountId === accountId && t.transferId)
+          .map((t) => t.transferId)
+      );
+    const fromTransfers = transferIdsIn(fromId);
+    const toTransfers = transferIdsIn(toId);
+    await writeTransactions(
+      transactions.map((transaction) => {
+        const moved =
+          transaction.accountId === fromId
+            ? { ...transaction, accountId: toId }
+            : transaction;
+        return moved.transferId &&
+          fromTransfers.has(moved.transferId) &&
+          toTransfers.has(moved.transferId)
+          ? detachTransferLeg(moved)
+          : moved;
+      }),
+      alongside
+    );
+  });
+
+/**
+ * Deletes the account's transactions, detaching the other leg of each of its
+ * transfers. Entries in `alongside` are saved in the same write.
+ */
+export const deleteTransactionsForAccount = (
+  accountId: string,
+  alongside: [string, unknown][] = []
+) =>
+  serialized(async () => {
+    const transactions = await readTransactions();
+    const brokenTransferIds = new Set(
+      transactions
+        .filter((t) => t.accountId === accountId && t.transferId)
+        .map((t) => t.transferId)
+    );
+    await writeTransactions(
+      transactions
+        .filter((transaction) => transaction.accountId !== accountId)
+        .map((transaction) =>
+          transaction.transferId &&
+          brokenTransferIds.has(transaction.transferId)
+            ? detachTransferLeg(transaction)
+            : transaction
+        ),
+      alongside
+    );
+  });
+
+/** Both legs of a transfer, or undefined if either is missing. */
+export const getTransfer = async (
+  transferId: string
+): Promise<{ from: Transaction; to: Transaction } | undefined> => {
+  const transactions = withoutTrash(await readTransactions());
+  const legs = transactions.filter((t) => t.transferId === transferId);
+  const from = legs.find((t) => t.amount < 0);
+  const to = legs.find((t) => t.amount >= 0);
+  return from && to ? { from, to } : undefined;
+};
+
+/**
+ * Creates a transfer as a linked debit/credit pair, or rewrites both legs of
+ * an existing one when `transferId` is set.
+ */
+export const saveTransfer = (
+  details: TransferDetails
+): Promise<Transaction[]> =>
+  serialized(async () => {
+    if (details.fromAccountId === details.toAccountId) {
+      throw new Error("A transfer needs two different accounts");
+    }
+    if (!(details.amount > 0) || (details.toAmount ?? 1) <= 0) {
+      throw new Error("A transfer amount must be positive");
+    }
+
+    const transactions = await readTransactions();
+    const transferId = details.transferId ?? `transfer-${Date.now()}`;
+    const existing = transactions.filter((t) => t.transferId === transferId);
+    const existingFrom = existing.find((t) => t.amount < 0);
+    const existingTo = existing.find((t) => t.amount >= 0);
+    const now = Date.now();
+
+    // Anything the transfer screen does not edit (notes, the status…) is kept
+    const from: Transaction = {
+      ...existingFrom,
+      id: existingFrom?.id ?? now,
+      merchant: details.fromMerchant,
+      amount: -details.amount,
+      date: details.date,
+      categoryId: TRANSFER_CATEGORY_ID,
+      accountId: details.fromAccountId,
+      transferId,
+      exchangeRate: details.exchangeRate,
+    };
+    const to: Transaction = {
+      ...existingTo,
+      id: existingTo?.id ?? now + 1,
+      merchant: details.toMerchant,
+      amount: details.toAmount ?? details.amount,
+      date: details.date,
+      categoryId: TRANSFER_CATEGORY_ID,
+      accountId: details.toAccountId,
+      transferId,
+      exchangeRate: details.exchangeRate,
+    };
+
+    const updatedTransactions = [
+      from,
+      to,
+      ...transactions.filter((t) => t.transferId !== transferId),
+    ];
+    await writeTransactions(updatedTransactions);
+    return withoutTrash(updatedTransactions);
+  });
+
+/** Test helper: forget the cached initialization so migrations run again. */
+export const resetTransactionsForTesting = () => {
+  initialization = null;
+};
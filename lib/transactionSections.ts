@@ -0,0 +1,45 @@
+import { formatDayTitle } from "@/lib/dates";
+import { Transaction } from "@/lib/transactionRepository";
+
+/** How many more transactions the Home list shows each time it nears the end. */
+export const TRANSACTION_PAGE_SIZE = 50;
+
+export interface DaySection {
+  /** Local calendar day, as "yyyy-m-d". */
+  key: string;
+  title: string;
+  /** Net of the day's amounts. */
+  total: number;
+  data: Transaction[];
+}
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+/**
+ * Groups transactions sorted newest first into one section per local
+ * calendar day, in a single pass.
+ */
+export const groupByDay = (
+  transactions: Transaction[],
+  now: Date = new Date()
+): DaySection[] => {
+  const sections: DaySection[] = [];
+  transactions.forEach((transaction) => {
+    const date = new Date(transaction.date);
+    const key = dayKey(date);
+    const current = sections[sections.length - 1];
+    if (current?.key === key) {
+      current.data.push(transaction);
+      current.total += transaction.amount;
+    } else {
+      sections.push({
+        key,
+        title: formatDayTitle(date, now),
+        total: transaction.amount,
+        data: [transaction],
+      });
+    }
+  });
+  return sections;
+};
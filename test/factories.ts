@@ -0,0 +1,17 @@
+import { Transaction } from "@/lib/transactionRepository";
+
+/** A food purchase in chequing, with `extra` overriding any field. */
+export const transaction = (
+  id: number,
+  amount: number,
+  date: Date,
+  extra: Partial<Transaction> = {}
+): Transaction => ({
+  id,
+  merchant: `Merchant ${id}`,
+  amount,
+  date: date.toISOString(),
+  categoryId: "food",
+  accountId: "chequing",
+  ...extra,
+});
@@ -0,0 +1,30 @@
+// Every module that touches storage goes through AsyncStorage, which has no
+// native side under Jest
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+// expo-crypto's native digests return nothing under Jest, so hash with Node
+jest.mock("expo-crypto", () => ({
+  ...jest.requireActual("expo-crypto"),
+  digestStringAsync: async (algorithm: string, data: string) =>
+    require("crypto")
+      .createHash(algorithm.replace("-", "").toLowerCase())
+      .update(data)
+      .digest("hex"),
+}));
+
+// The keystore is native; a map stands in for it for the whole test file
+jest.mock("expo-secure-store", () => {
+  const secrets = new Map<string, string>();
+  return {
+    ...jest.requireActual("expo-secure-store"),
+    getItemAsync: async (name: string) => secrets.get(name) ?? null,
+    setItemAsync: async (name: string, value: string) => {
+      secrets.set(name, value);
+    },
+    deleteItemAsync: async (name: string) => {
+      secrets.delete(name);
+    },
+  };
+});